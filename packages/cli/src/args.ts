@@ -0,0 +1,325 @@
+import { parseArgs } from 'node:util';
+import { EXPORT_FORMATS, type AddressUsageKind, type ExportFormat } from '@analyzer';
+import type { SymbolQueryFilterInput, SymbolQueryGrouping } from '../../viewer/src/treemap/query';
+
+/** Where the firmware build and the memory-map config come from; shared by every command. */
+export interface AnalysisInputOptions {
+  targetId: string;
+  elfPath: string;
+  mapPath?: string;
+  hexPath?: string;
+  toolchainDir?: string;
+  toolchainPrefix?: string;
+  configDir?: string;
+}
+
+export interface CliOptions extends AnalysisInputOptions {
+  budgetsPath?: string;
+  failOnWarning: boolean;
+  baselinePath?: string;
+  json: boolean;
+  exportFormat?: ExportFormat;
+  teensySizeOnly: boolean;
+  teensySizeLogPath?: string;
+  topSymbols: number;
+}
+
+export interface LookupOptions extends AnalysisInputOptions {
+  addresses: number[];
+  /** A file holding pasted `CrashReport` output, or `-` for stdin. */
+  crashReportPath?: string;
+  addressType?: AddressUsageKind;
+  json: boolean;
+}
+
+export type QueryOutputFormat = 'table' | 'csv' | 'json';
+
+export interface QueryOptions extends AnalysisInputOptions {
+  grouping: SymbolQueryGrouping;
+  filters: SymbolQueryFilterInput;
+  limit: number;
+  format: QueryOutputFormat;
+}
+
+export type ParsedCommandLine =
+  | { kind: 'help'; usage: string }
+  | { kind: 'run'; options: CliOptions }
+  | { kind: 'lookup'; options: LookupOptions }
+  | { kind: 'query'; options: QueryOptions };
+
+const DEFAULT_TOP_SYMBOLS = 20;
+
+const INPUT_USAGE = `  --target <id>            Memory-map config to analyze against (e.g. teensy40, teensy41)
+  --elf <file>             Firmware ELF produced by the linker
+  --map <file>             GNU ld map file, for object file and archive attribution
+  --hex <file>             Intel HEX image to check against the ELF load sections
+  --toolchain-dir <dir>    Directory containing the arm-none-eabi binutils
+  --toolchain-prefix <p>   Binutils prefix (default: arm-none-eabi-)
+  --config-dir <dir>       Directory holding the memory-map JSON files`;
+
+export const USAGE = `Usage: teensy-mem-explorer --target <id> --elf <file> [options]
+       teensy-mem-explorer lookup --target <id> --elf <file> [address...] [--crash-report <file>]
+       teensy-mem-explorer query --target <id> --elf <file> [filters] [--by symbols|scopes|templates]
+
+Options:
+${INPUT_USAGE}
+  --budgets <file>         Check the budgets in this JSON file instead of the config's own
+  --fail-on-warning        Exit 1 when a budget is near its limit, not only when it is exceeded
+  --baseline <file>        Compare against a previous --json output and list what changed
+  --top <n>                Number of largest symbols to list (default: ${DEFAULT_TOP_SYMBOLS})
+  --json                   Print the analysis payload the viewer loads instead of tables
+  --export <format>        Print an export instead of tables, one of:
+                           ${EXPORT_FORMATS.map((format) => format.id).join(', ')}
+  --teensy-size            Print only the teensy_size lines, as a drop-in for the post-build output
+  --teensy-size-log <file> Compare against a captured teensy_size log; exits 1 if any field differs
+  -h, --help               Show this help
+
+Run 'teensy-mem-explorer lookup --help' or 'teensy-mem-explorer query --help' for their options.
+`;
+
+export const LOOKUP_USAGE = `Usage: teensy-mem-explorer lookup --target <id> --elf <file> [address...] [options]
+
+Resolves hex addresses (0x prefix optional) to symbol+offset, source line, section, logical block,
+address window and hardware bank.
+
+Options:
+${INPUT_USAGE}
+  --crash-report <file>    Resolve every address in pasted CrashReport output ('-' reads stdin)
+  --address-type <kind>    Prefer the exec, load or runtime view of an address (default: runtime)
+  --json                   Print the lookup results as JSON
+  -h, --help               Show this help
+`;
+
+export const QUERY_USAGE = `Usage: teensy-mem-explorer query --target <id> --elf <file> [options]
+
+Lists the largest symbols, scopes or template groups that pass the same filters as the viewer's
+treemaps. Filters of one kind may repeat and match any of their values; different kinds must all match.
+
+Options:
+${INPUT_USAGE}
+  --by <grouping>          symbols (default), scopes or templates
+  --bank <id|name>         Only symbols in this hardware bank
+  --window <id|name>       Only symbols in this address window
+  --block <id|name>        Only symbols in this logical block
+  --section <name>         Only symbols in this output section
+  --category <id|label>    Only symbols of this category (e.g. vtable, lambda, ordinary)
+  --match <query>          Symbol name contains these words, in order (case-insensitive)
+  --top <n>                Number of rows to list (default: ${DEFAULT_TOP_SYMBOLS})
+  --format <format>        table (default), csv or json
+  -h, --help               Show this help
+`;
+
+const INPUT_OPTIONS = {
+  target: { type: 'string' },
+  elf: { type: 'string' },
+  map: { type: 'string' },
+  hex: { type: 'string' },
+  'toolchain-dir': { type: 'string' },
+  'toolchain-prefix': { type: 'string' },
+  'config-dir': { type: 'string' },
+  help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+const ADDRESS_TYPES: AddressUsageKind[] = ['exec', 'load', 'runtime'];
+const QUERY_GROUPINGS: SymbolQueryGrouping[] = ['symbols', 'scopes', 'templates'];
+const QUERY_FORMATS: QueryOutputFormat[] = ['table', 'csv', 'json'];
+const EXPORT_FORMAT_IDS: ExportFormat[] = EXPORT_FORMATS.map((format) => format.id);
+
+const parseTopSymbols = (value: string | undefined): number => {
+  if (value === undefined) {
+    return DEFAULT_TOP_SYMBOLS;
+  }
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed < 0 || String(parsed) !== value.trim()) {
+    throw new Error(`--top expects a non-negative integer, got '${value}'.`);
+  }
+  return parsed;
+};
+
+const parseChoice = <T extends string>(flag: string, value: string | undefined, choices: T[], fallback: T): T => {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!choices.includes(value as T)) {
+    throw new Error(`${flag} expects one of ${choices.join(', ')}, got '${value}'.`);
+  }
+  return value as T;
+};
+
+const parseAddress = (value: string): number => {
+  const match = /^(?:0x)?([0-9a-f]{1,8})$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(`Expected a hex address, got '${value}'.`);
+  }
+  return Number.parseInt(match[1], 16);
+};
+
+const readInputOptions = (values: {
+  target?: string;
+  elf?: string;
+  map?: string;
+  hex?: string;
+  'toolchain-dir'?: string;
+  'toolchain-prefix'?: string;
+  'config-dir'?: string;
+}): AnalysisInputOptions => {
+  if (!values.target) {
+    throw new Error('Missing --target.');
+  }
+  if (!values.elf) {
+    throw new Error('Missing --elf.');
+  }
+  return {
+    targetId: values.target,
+    elfPath: values.elf,
+    mapPath: values.map,
+    hexPath: values.hex,
+    toolchainDir: values['toolchain-dir'],
+    toolchainPrefix: values['toolchain-prefix'],
+    configDir: values['config-dir'],
+  };
+};
+
+const parseLookupCommandLine = (argv: string[]): ParsedCommandLine => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      ...INPUT_OPTIONS,
+      'crash-report': { type: 'string' },
+      'address-type': { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    return { kind: 'help', usage: LOOKUP_USAGE };
+  }
+  if (positionals.length === 0 && !values['crash-report']) {
+    throw new Error('Pass at least one address or --crash-report.');
+  }
+
+  return {
+    kind: 'lookup',
+    options: {
+      ...readInputOptions(values),
+      addresses: positionals.map(parseAddress),
+      crashReportPath: values['crash-report'],
+      addressType:
+        values['address-type'] !== undefined
+          ? parseChoice('--address-type', values['address-type'], ADDRESS_TYPES, 'runtime')
+          : undefined,
+      json: values.json ?? false,
+    },
+  };
+};
+
+const parseQueryCommandLine = (argv: string[]): ParsedCommandLine => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      ...INPUT_OPTIONS,
+      by: { type: 'string' },
+      bank: { type: 'string', multiple: true },
+      window: { type: 'string', multiple: true },
+      block: { type: 'string', multiple: true },
+      section: { type: 'string', multiple: true },
+      category: { type: 'string', multiple: true },
+      match: { type: 'string' },
+      top: { type: 'string' },
+      format: { type: 'string' },
+    },
+  });
+
+  if (values.help) {
+    return { kind: 'help', usage: QUERY_USAGE };
+  }
+  if (positionals.length > 0) {
+    throw new Error(`Unexpected argument '${positionals[0]}'.`);
+  }
+
+  return {
+    kind: 'query',
+    options: {
+      ...readInputOptions(values),
+      grouping: parseChoice('--by', values.by, QUERY_GROUPINGS, 'symbols'),
+      filters: {
+        hardwareBanks: values.bank,
+        windows: values.window,
+        logicalBlocks: values.block,
+        sections: values.section,
+        symbolCategories: values.category,
+        symbolQuery: values.match,
+      },
+      limit: parseTopSymbols(values.top),
+      format: parseChoice('--format', values.format, QUERY_FORMATS, 'table'),
+    },
+  };
+};
+
+const COMMAND_USAGE: Record<string, string> = { lookup: LOOKUP_USAGE, query: QUERY_USAGE };
+
+/** The usage text for the command named on the command line, for printing under an error. */
+export const usageFor = (argv: string[]): string => COMMAND_USAGE[argv[0]] ?? USAGE;
+
+/**
+ * Parses the command line. Throws with a message suitable for printing above the usage text when
+ * arguments are missing or malformed.
+ */
+export const parseCommandLine = (argv: string[]): ParsedCommandLine => {
+  if (argv[0] === 'lookup') {
+    return parseLookupCommandLine(argv.slice(1));
+  }
+  if (argv[0] === 'query') {
+    return parseQueryCommandLine(argv.slice(1));
+  }
+
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      ...INPUT_OPTIONS,
+      budgets: { type: 'string' },
+      'fail-on-warning': { type: 'boolean', default: false },
+      baseline: { type: 'string' },
+      top: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      export: { type: 'string' },
+      'teensy-size': { type: 'boolean', default: false },
+      'teensy-size-log': { type: 'string' },
+    },
+  });
+
+  if (values.help) {
+    return { kind: 'help', usage: USAGE };
+  }
+  if (positionals.length > 0) {
+    throw new Error(`Unexpected argument '${positionals[0]}'.`);
+  }
+  const input = readInputOptions(values);
+  const outputFlags = [
+    values.json ? '--json' : undefined,
+    values.export !== undefined ? '--export' : undefined,
+    values['teensy-size'] ? '--teensy-size' : undefined,
+  ].filter((flag) => flag !== undefined);
+  if (outputFlags.length > 1) {
+    throw new Error(`${outputFlags.join(' and ')} are mutually exclusive.`);
+  }
+
+  return {
+    kind: 'run',
+    options: {
+      ...input,
+      budgetsPath: values.budgets,
+      failOnWarning: values['fail-on-warning'] ?? false,
+      baselinePath: values.baseline,
+      json: values.json ?? false,
+      exportFormat:
+        values.export !== undefined ? parseChoice('--export', values.export, EXPORT_FORMAT_IDS, 'markdown') : undefined,
+      teensySizeOnly: values['teensy-size'] ?? false,
+      teensySizeLogPath: values['teensy-size-log'],
+      topSymbols: parseTopSymbols(values.top),
+    },
+  };
+};
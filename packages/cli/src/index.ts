@@ -0,0 +1,238 @@
+#!/usr/bin/env node
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'node:url';
+import {
+  analyzeBuild,
+  calculateTeensySizeReport,
+  checkBudgets,
+  checkTeensySizeParity,
+  compareAnalyses,
+  createAddressResolver,
+  createSourceLineResolver,
+  generateSummaries,
+  loadBudgetFile,
+  parseCrashReport,
+  renderExport,
+  renderTeensySizeText,
+  type AnalyzeBuildParams,
+} from '@analyzer';
+import type { AnalysisBroadcastPayload } from '../../viewer/src/shared/protocol';
+import { querySymbolSizes, resolveSymbolQueryFilters } from '../../viewer/src/treemap/query';
+import {
+  parseCommandLine,
+  usageFor,
+  type AnalysisInputOptions,
+  type CliOptions,
+  type LookupOptions,
+  type ParsedCommandLine,
+  type QueryOptions,
+} from './args';
+import {
+  renderBudgetResults,
+  renderComparison,
+  renderLookupResults,
+  renderQueryCsv,
+  renderQueryTable,
+  renderTeensySizeParity,
+  renderTextReport,
+  type LookupEntry,
+} from './text-report';
+
+// Both `src/index.ts` (tsx) and the bundled `dist/index.js` sit two levels below the repo root's `packages/`.
+const moduleDir = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_CONFIG_DIR = path.resolve(moduleDir, '../../../config');
+
+const loadBaseline = async (baselinePath: string): Promise<AnalysisBroadcastPayload> => {
+  let payload: Partial<AnalysisBroadcastPayload>;
+  try {
+    payload = JSON.parse(await readFile(baselinePath, 'utf8')) as Partial<AnalysisBroadcastPayload>;
+  } catch (error) {
+    throw new Error(`Unable to read baseline ${baselinePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!payload.analysis || !payload.summaries) {
+    throw new Error(`Baseline ${baselinePath} is not a --json analysis payload.`);
+  }
+  return payload as AnalysisBroadcastPayload;
+};
+
+const resolveConfigDir = (options: AnalysisInputOptions): string =>
+  options.configDir ? path.resolve(options.configDir) : DEFAULT_CONFIG_DIR;
+
+const analyzeInput = (options: AnalysisInputOptions, hooks: Pick<AnalyzeBuildParams, 'onSourceLines'> = {}) =>
+  analyzeBuild({
+    ...hooks,
+    targetId: options.targetId,
+    elfPath: options.elfPath,
+    mapPath: options.mapPath,
+    hexPath: options.hexPath,
+    toolchainDir: options.toolchainDir,
+    toolchainPrefix: options.toolchainPrefix,
+    configDir: resolveConfigDir(options),
+  });
+
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+/** Resolves every requested address against the build; resolves to the process exit code. */
+const lookup = async (options: LookupOptions): Promise<number> => {
+  const requests: Array<{ address: number; label?: string }> = options.addresses.map((address) => ({ address }));
+  if (options.crashReportPath) {
+    const text = options.crashReportPath === '-' ? await readStdin() : await readFile(options.crashReportPath, 'utf8');
+    const addresses = parseCrashReport(text);
+    if (addresses.length === 0) {
+      throw new Error(`No hex addresses found in crash report ${options.crashReportPath}.`);
+    }
+    requests.push(...addresses.map(({ address, label }) => ({ address, label })));
+  }
+
+  // The line table comes from the debug information the analysis reads, so the ELF is parsed only once.
+  let sourceLines = createSourceLineResolver([], false);
+  const analysis = await analyzeInput(options, {
+    onSourceLines: (lineResolver) => {
+      sourceLines = lineResolver;
+    },
+  });
+  const resolver = createAddressResolver(analysis);
+  const symbolById = new Map(analysis.symbols.map((symbol) => [symbol.id, symbol] as const));
+
+  const entries: LookupEntry[] = requests.map(({ address, label }) => {
+    const result = resolver.resolve(address, { addressType: options.addressType });
+    return {
+      address,
+      label,
+      result,
+      source: sourceLines.resolve(result?.runtimeAddress ?? address),
+      declaredAt: result?.symbol ? symbolById.get(result.symbol.id)?.source : undefined,
+    };
+  });
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(entries, null, 2)}\n`);
+  } else {
+    process.stdout.write(renderLookupResults(entries));
+  }
+  return 0;
+};
+
+/** Lists the largest symbols, scopes or template groups passing the treemap filters; resolves to the exit code. */
+const query = async (options: QueryOptions): Promise<number> => {
+  const analysis = await analyzeInput(options);
+  const filters = resolveSymbolQueryFilters(analysis, options.filters);
+  const rows = querySymbolSizes(analysis, filters, options.grouping, options.limit);
+
+  if (options.format === 'json') {
+    process.stdout.write(`${JSON.stringify(rows, null, 2)}\n`);
+  } else if (options.format === 'csv') {
+    process.stdout.write(renderQueryCsv(rows, options.grouping));
+  } else {
+    process.stdout.write(renderQueryTable(rows, options.grouping));
+  }
+  return 0;
+};
+
+/** Runs the analysis and prints the requested output; resolves to the process exit code. */
+const run = async (options: CliOptions): Promise<number> => {
+  const configDir = resolveConfigDir(options);
+  const baseline = options.baselinePath ? await loadBaseline(options.baselinePath) : undefined;
+  const analysis = await analyzeInput(options);
+  if (options.budgetsPath) {
+    // Stored on the config so the viewer evaluates the same budgets when it loads the --json output.
+    analysis.config.budgets = await loadBudgetFile(options.budgetsPath, { baseDir: configDir });
+  }
+  const summaries = generateSummaries(analysis);
+  const report = calculateTeensySizeReport(analysis, { summaries });
+  const budgets = checkBudgets(analysis, summaries, report);
+  const teensySizeText = analysis.config.reports?.teensySizeText;
+
+  if ((options.teensySizeOnly || options.teensySizeLogPath) && !teensySizeText) {
+    throw new Error(`Target ${options.targetId} does not declare teensy_size line formats (reports.teensySizeText).`);
+  }
+
+  if (options.json) {
+    const payload: AnalysisBroadcastPayload = {
+      analysis,
+      summaries,
+      report,
+      generatedAt: new Date().toISOString(),
+    };
+    process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
+  } else if (options.exportFormat) {
+    process.stdout.write(
+      renderExport(options.exportFormat, { analysis, summaries, report, budgets }, { topSymbols: options.topSymbols }),
+    );
+  } else if (options.teensySizeOnly && teensySizeText) {
+    process.stdout.write(`${renderTeensySizeText(report, teensySizeText).join('\n')}\n`);
+  } else {
+    process.stdout.write(renderTextReport(analysis, summaries, report, options.topSymbols));
+  }
+
+  // Keep stdout clean for --json, --export and --teensy-size consumers.
+  const toStderr = options.json || options.exportFormat !== undefined || options.teensySizeOnly;
+  const diagnostics = toStderr ? process.stderr : process.stdout;
+  const separator = toStderr ? '' : '\n';
+  let exitCode = 0;
+
+  if (baseline && options.baselinePath) {
+    const comparison = compareAnalyses(baseline.analysis, analysis, {
+      beforeSummaries: baseline.summaries,
+      afterSummaries: summaries,
+    });
+    diagnostics.write(`${separator}${renderComparison(comparison, analysis, options.baselinePath, options.topSymbols)}`);
+  }
+
+  if (budgets.entries.length > 0) {
+    diagnostics.write(`${separator}${renderBudgetResults(budgets)}`);
+    if (budgets.status === 'exceeded' || (budgets.status === 'warning' && options.failOnWarning)) {
+      exitCode = 1;
+    }
+  }
+
+  if (options.teensySizeLogPath && teensySizeText) {
+    const capturedLog = await readFile(options.teensySizeLogPath, 'utf8');
+    const parity = checkTeensySizeParity(report, teensySizeText, capturedLog);
+    diagnostics.write(`${separator}${renderTeensySizeParity(parity, options.teensySizeLogPath)}`);
+    if (!parity.matches) {
+      exitCode = 1;
+    }
+  }
+  return exitCode;
+};
+
+const main = async (): Promise<number> => {
+  let parsed: ParsedCommandLine;
+  try {
+    parsed = parseCommandLine(process.argv.slice(2));
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n\n${usageFor(process.argv.slice(2))}`);
+    return 2;
+  }
+
+  if (parsed.kind === 'help') {
+    process.stdout.write(parsed.usage);
+    return 0;
+  }
+
+  try {
+    switch (parsed.kind) {
+      case 'lookup':
+        return await lookup(parsed.options);
+      case 'query':
+        return await query(parsed.options);
+      default:
+        return await run(parsed.options);
+    }
+  } catch (error) {
+    process.stderr.write(`Analysis failed: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+};
+
+main().then((exitCode) => {
+  process.exitCode = exitCode;
+});
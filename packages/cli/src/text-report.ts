@@ -0,0 +1,510 @@
+import path from 'path';
+import { renderTeensySizeText, toCsvLine } from '@analyzer';
+import type {
+  AddressLookupResult,
+  Analysis,
+  AnalysisComparison,
+  BudgetCheckResult,
+  BudgetStatus,
+  Summaries,
+  Symbol as AnalyzerSymbol,
+  TeensySizeParityResult,
+  SizeDelta,
+  SourceLocation,
+  SymbolComparison,
+  TeensySizeReportSummary,
+} from '@analyzer';
+import type { SymbolQueryGrouping, SymbolQueryRow } from '../../viewer/src/treemap/query';
+
+type Alignment = 'left' | 'right';
+
+interface Column {
+  header: string;
+  align: Alignment;
+}
+
+const formatBytes = (value: number): string => value.toLocaleString('en-US');
+
+const formatDelta = (value: number): string => value.toLocaleString('en-US', { signDisplay: 'exceptZero' });
+
+const formatPercent = (part: number, whole: number): string =>
+  whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : '—';
+
+const renderTable = (columns: Column[], rows: string[][]): string[] => {
+  const widths = columns.map((column, index) =>
+    Math.max(column.header.length, ...rows.map((row) => (row[index] ?? '').length)),
+  );
+  const renderRow = (cells: string[]): string =>
+    cells
+      .map((cell, index) => (columns[index].align === 'right' ? cell.padStart(widths[index]) : cell.padEnd(widths[index])))
+      .join('  ')
+      .trimEnd();
+
+  return [
+    renderRow(columns.map((column) => column.header)),
+    renderRow(widths.map((width) => '-'.repeat(width))),
+    ...rows.map(renderRow),
+  ].map((line) => `  ${line}`);
+};
+
+const renderHeader = (analysis: Analysis): string[] => {
+  const lines = [`${analysis.target.name} — ${path.basename(analysis.build.elfPath)}`];
+  lines.push(`  ELF: ${analysis.build.elfPath}`);
+  if (analysis.build.mapPath) {
+    lines.push(`  Map: ${analysis.build.mapPath}`);
+  }
+  if (analysis.build.hexPath) {
+    lines.push(`  HEX: ${analysis.build.hexPath}`);
+  }
+  lines.push(`  ${analysis.sections.length.toLocaleString('en-US')} sections, ${analysis.symbols.length.toLocaleString('en-US')} symbols`);
+  return lines;
+};
+
+const renderHardwareBanks = (summaries: Summaries): string[] => {
+  if (summaries.hardwareBanks.length === 0) {
+    return [];
+  }
+  return [
+    'Hardware banks:',
+    ...renderTable(
+      [
+        { header: 'Bank', align: 'left' },
+        { header: 'Used', align: 'right' },
+        { header: 'Capacity', align: 'right' },
+        { header: 'Use', align: 'right' },
+        { header: 'Free', align: 'right' },
+      ],
+      summaries.hardwareBanks.map((bank) => [
+        bank.name,
+        formatBytes(bank.adjustedUsedBytes),
+        formatBytes(bank.capacityBytes),
+        formatPercent(bank.adjustedUsedBytes, bank.capacityBytes),
+        formatBytes(bank.freeBytes),
+      ]),
+    ),
+  ];
+};
+
+const renderWindows = (analysis: Analysis, summaries: Summaries): string[] => {
+  if (summaries.byWindow.length === 0) {
+    return [];
+  }
+  const windowNameById = new Map(analysis.config.addressWindows.map((window) => [window.id, window.name] as const));
+  return [
+    'Address windows:',
+    ...renderTable(
+      [
+        { header: 'Window', align: 'left' },
+        { header: 'Total', align: 'right' },
+        { header: 'Span', align: 'right' },
+        { header: 'Alignment padding', align: 'right' },
+        { header: 'Largest gap', align: 'right' },
+      ],
+      summaries.byWindow.map((window) => [
+        windowNameById.get(window.windowId) ?? window.windowId,
+        formatBytes(window.totalBytes),
+        formatBytes(window.spanBytes),
+        formatBytes(window.paddingBytes),
+        formatBytes(window.largestGapBytes),
+      ]),
+    ),
+  ];
+};
+
+const renderCategories = (analysis: Analysis, summaries: Summaries): string[] => {
+  const entries = summaries.byCategory.filter((entry) => entry.runtimeBytes > 0 || entry.loadImageBytes > 0);
+  if (entries.length === 0) {
+    return [];
+  }
+  const categoryNameById = new Map(analysis.config.sectionCategories.map((category) => [category.id, category.name] as const));
+  return [
+    'Section categories:',
+    ...renderTable(
+      [
+        { header: 'Category', align: 'left' },
+        { header: 'Runtime', align: 'right' },
+        { header: 'Load image', align: 'right' },
+      ],
+      entries.map((entry) => [
+        categoryNameById.get(entry.categoryId) ?? entry.categoryId,
+        formatBytes(entry.runtimeBytes),
+        formatBytes(entry.loadImageBytes),
+      ]),
+    ),
+  ];
+};
+
+const renderTopSymbols = (analysis: Analysis, count: number): string[] => {
+  if (count === 0 || analysis.symbols.length === 0) {
+    return [];
+  }
+  const sectionNameById = new Map(analysis.sections.map((section) => [section.id, section.name] as const));
+  const symbols = [...analysis.symbols].sort((a, b) => b.size - a.size).slice(0, count);
+  return [
+    `Top ${symbols.length} symbols:`,
+    ...renderTable(
+      [
+        { header: 'Size', align: 'right' },
+        { header: 'Section', align: 'left' },
+        { header: 'Symbol', align: 'left' },
+      ],
+      symbols.map((symbol: AnalyzerSymbol) => [
+        formatBytes(symbol.size),
+        symbol.sectionId ? sectionNameById.get(symbol.sectionId) ?? symbol.sectionId : '—',
+        symbol.name,
+      ]),
+    ),
+  ];
+};
+
+const renderFlashImage = (summaries: Summaries): string[] => {
+  const summary = summaries.flashImage;
+  if (!summary) {
+    return [];
+  }
+  const lines = [`Flash image: ${summary.matchesElf ? 'matches the ELF' : 'DOES NOT match the ELF'}`];
+  lines.push(`  ${formatBytes(summary.programmedBytes)} programmed, ${formatBytes(summary.expectedBytes)} expected`);
+  if (summary.missingBytes > 0) {
+    lines.push(`  ${formatBytes(summary.missingBytes)} bytes missing from the HEX`);
+  }
+  if (summary.differingBytes > 0) {
+    lines.push(`  ${formatBytes(summary.differingBytes)} bytes differ`);
+  }
+  if (summary.startAddressMatches === false) {
+    lines.push('  The HEX start address does not match the ELF entry point');
+  }
+  return lines;
+};
+
+const renderTeensySizeFields = (analysis: Analysis, report: TeensySizeReportSummary): string[] => {
+  const entries = Object.entries(report);
+  if (entries.length === 0) {
+    return [];
+  }
+  const textConfig = analysis.config.reports?.teensySizeText;
+  if (textConfig) {
+    return ['Teensy-size fields:', ...renderTeensySizeText(report, textConfig).map((line) => `  ${line}`)];
+  }
+  return [
+    'Teensy-size fields:',
+    ...entries.map(([key, entry]) => {
+      const fields = [
+        entry.codeBytes !== undefined ? `code:${entry.codeBytes}` : undefined,
+        entry.dataBytes !== undefined ? `data:${entry.dataBytes}` : undefined,
+        entry.blockBytes !== undefined ? `blocks:${entry.blockBytes}` : undefined,
+        ...Object.entries(entry.bucketTotals).map(([bucket, bytes]) => `${bucket}:${bytes}`),
+      ].filter((field): field is string => field !== undefined);
+      return `  ${key}: ${fields.join(', ')}   free:${entry.freeBytes}`;
+    }),
+  ];
+};
+
+/**
+ * Renders the human-readable summary the CLI prints by default: one block per topic, separated by
+ * blank lines, skipping topics the analysis has no data for.
+ */
+export const renderTextReport = (
+  analysis: Analysis,
+  summaries: Summaries,
+  report: TeensySizeReportSummary,
+  topSymbols: number,
+): string => {
+  const blocks = [
+    renderHeader(analysis),
+    renderHardwareBanks(summaries),
+    renderWindows(analysis, summaries),
+    renderCategories(analysis, summaries),
+    renderTopSymbols(analysis, topSymbols),
+    renderFlashImage(summaries),
+    renderTeensySizeFields(analysis, report),
+  ].filter((block) => block.length > 0);
+
+  return `${blocks.map((block) => block.join('\n')).join('\n\n')}\n`;
+};
+
+export const renderTeensySizeParity = (result: TeensySizeParityResult, logPath: string): string => {
+  const lines = [
+    `teensy_size parity against ${logPath}: ${result.matches ? 'all fields match' : 'MISMATCH'}`,
+    ...result.missingLines.map((reportId) => `  No ${reportId} line found in the captured log`),
+    ...renderTable(
+      [
+        { header: 'Line', align: 'left' },
+        { header: 'Field', align: 'left' },
+        { header: 'teensy_size', align: 'right' },
+        { header: 'Analyzer', align: 'right' },
+        { header: 'Difference', align: 'right' },
+        { header: 'Status', align: 'left' },
+      ],
+      result.fields.map((field) => [
+        field.reportId,
+        field.label,
+        field.expected !== undefined ? String(field.expected) : '—',
+        String(field.actual),
+        field.expected !== undefined ? formatDelta(field.actual - field.expected) : '—',
+        field.matches ? 'ok' : 'DIFFERS',
+      ]),
+    ),
+  ];
+  return `${lines.join('\n')}\n`;
+};
+
+const BUDGET_STATUS_LABELS: Record<BudgetStatus, string> = {
+  ok: 'ok',
+  warning: 'WARNING',
+  exceeded: 'EXCEEDED',
+};
+
+export const renderBudgetResults = (result: BudgetCheckResult): string => {
+  const lines = [
+    `Budgets: ${BUDGET_STATUS_LABELS[result.status]}`,
+    ...renderTable(
+      [
+        { header: 'Budget', align: 'left' },
+        { header: 'Used', align: 'right' },
+        { header: 'Limit', align: 'right' },
+        { header: 'Use', align: 'right' },
+        { header: 'Warn at', align: 'right' },
+        { header: 'Status', align: 'left' },
+      ],
+      result.entries.map((entry) => [
+        entry.label,
+        formatBytes(entry.usedBytes),
+        formatBytes(entry.maxBytes),
+        formatPercent(entry.usedBytes, entry.maxBytes),
+        entry.warnBytes !== undefined ? formatBytes(entry.warnBytes) : '—',
+        BUDGET_STATUS_LABELS[entry.status],
+      ]),
+    ),
+  ];
+  return `${lines.join('\n')}\n`;
+};
+
+const renderDeltaTable = (title: string, header: string, deltas: SizeDelta[]): string[] => {
+  const changed = deltas.filter((delta) => delta.deltaBytes !== 0);
+  if (changed.length === 0) {
+    return [];
+  }
+  return [
+    title,
+    ...renderTable(
+      [
+        { header, align: 'left' },
+        { header: 'Before', align: 'right' },
+        { header: 'After', align: 'right' },
+        { header: 'Change', align: 'right' },
+      ],
+      changed.map((delta) => [
+        delta.label,
+        formatBytes(delta.beforeBytes),
+        formatBytes(delta.afterBytes),
+        formatDelta(delta.deltaBytes),
+      ]),
+    ),
+  ];
+};
+
+const renderSymbolChanges = (
+  title: string,
+  entries: SymbolComparison[],
+  count: number,
+  windowNameById: Map<string, string>,
+): string[] => {
+  if (entries.length === 0 || count === 0) {
+    return [];
+  }
+  const windowName = (windowId: string | undefined) => (windowId ? windowNameById.get(windowId) ?? windowId : '—');
+  const shown = entries.slice(0, count);
+  return [
+    shown.length < entries.length ? `${title} (largest ${shown.length} of ${entries.length}):` : `${title}:`,
+    ...renderTable(
+      [
+        { header: 'Before', align: 'right' },
+        { header: 'After', align: 'right' },
+        { header: 'Change', align: 'right' },
+        { header: 'Window', align: 'left' },
+        { header: 'Symbol', align: 'left' },
+      ],
+      shown.map((entry) => [
+        entry.before ? formatBytes(entry.before.size) : '—',
+        entry.after ? formatBytes(entry.after.size) : '—',
+        formatDelta(entry.deltaBytes),
+        entry.before && entry.after && entry.before.windowId !== entry.after.windowId
+          ? `${windowName(entry.before.windowId)} -> ${windowName(entry.after.windowId)}`
+          : windowName((entry.after ?? entry.before)?.windowId),
+        entry.matchedBy === 'cloneBase' && entry.before ? `${entry.name} (was ${entry.before.name})` : entry.name,
+      ]),
+    ),
+  ];
+};
+
+/**
+ * Renders a comparison against a baseline build: totals first, then only the windows, banks, tags and
+ * template groups whose size changed, then the symbol lists capped at `topSymbols` rows each.
+ */
+export const renderComparison = (
+  comparison: AnalysisComparison,
+  analysis: Analysis,
+  baselinePath: string,
+  topSymbols: number,
+): string => {
+  const { totals, symbols } = comparison;
+  const windowNameById = new Map(analysis.config.addressWindows.map((window) => [window.id, window.name] as const));
+  const blocks = [
+    [
+      `Compared with ${baselinePath}:`,
+      ...[totals.runtime, totals.loadImage, totals.fileOnly].map(
+        (delta) => `  ${delta.label}: ${formatBytes(delta.afterBytes)} (${formatDelta(delta.deltaBytes)})`,
+      ),
+      `  Symbols: ${symbols.added.length} added, ${symbols.removed.length} removed, ${symbols.grown.length} grown, ` +
+        `${symbols.shrunk.length} shrunk, ${symbols.movedWindow.length} moved, ${symbols.unchangedCount} unchanged`,
+    ],
+    renderDeltaTable('Hardware bank changes:', 'Bank', comparison.hardwareBanks),
+    renderDeltaTable('Address window changes:', 'Window', comparison.windows),
+    renderDeltaTable('Report tag changes:', 'Tag', comparison.tagBuckets),
+    renderDeltaTable(
+      'Template group changes:',
+      'Group',
+      [...comparison.templateGroups]
+        .sort((a, b) => Math.abs(b.deltaBytes) - Math.abs(a.deltaBytes))
+        .slice(0, topSymbols),
+    ),
+    renderSymbolChanges('Added symbols', symbols.added, topSymbols, windowNameById),
+    renderSymbolChanges('Removed symbols', symbols.removed, topSymbols, windowNameById),
+    renderSymbolChanges('Grown symbols', symbols.grown, topSymbols, windowNameById),
+    renderSymbolChanges('Shrunk symbols', symbols.shrunk, topSymbols, windowNameById),
+    renderSymbolChanges('Symbols that moved window', symbols.movedWindow, topSymbols, windowNameById),
+  ].filter((block) => block.length > 0);
+
+  return `${blocks.map((block) => block.join('\n')).join('\n\n')}\n`;
+};
+
+export interface LookupEntry {
+  address: number;
+  /** What the address is, when it came from a crash report. */
+  label?: string;
+  result: AddressLookupResult | null;
+  /** The line the instruction at the address was compiled from, from the DWARF line table. */
+  source?: SourceLocation;
+  /** Where the containing symbol is declared, shown when no line-table entry covers the address. */
+  declaredAt?: SourceLocation;
+}
+
+const formatAddress = (value: number): string => `0x${value.toString(16).toUpperCase().padStart(8, '0')}`;
+
+const formatOffset = (value: number): string => `+0x${value.toString(16).toUpperCase()}`;
+
+const formatSource = (location: SourceLocation): string => `${location.file}:${location.line}`;
+
+const renderLookupEntry = (entry: LookupEntry): string[] => {
+  const lines = [entry.label ? `${formatAddress(entry.address)}  ${entry.label}` : formatAddress(entry.address)];
+  const { result } = entry;
+  if (!result) {
+    lines.push('  Not inside any section, logical block or symbol of this build');
+    return lines;
+  }
+
+  const rows: Array<[string, string]> = [];
+  if (result.runtimeAddress !== undefined) {
+    rows.push(['Runs at', `${formatAddress(result.runtimeAddress)} (copied from this load address at startup)`]);
+  }
+  if (result.symbol) {
+    const size = result.symbol.size ? ` (${formatBytes(result.symbol.size)} bytes)` : '';
+    rows.push(['Symbol', `${result.symbol.name}${formatOffset(result.symbol.offset)}${size}`]);
+  }
+  if (entry.source) {
+    rows.push(['Source', formatSource(entry.source)]);
+  } else if (entry.declaredAt) {
+    rows.push(['Declared', formatSource(entry.declaredAt)]);
+  }
+  if (result.section) {
+    rows.push(['Section', `${result.section.name} (${result.section.addressType}) ${formatOffset(result.section.offset)}`]);
+  }
+  if (result.region) {
+    const { region } = result;
+    if (region.blockName) {
+      rows.push(['Block', `${region.blockName} ${formatOffset(region.offset)}`]);
+    }
+    if (region.windowName) {
+      rows.push([
+        'Window',
+        region.windowOffset !== undefined ? `${region.windowName} ${formatOffset(region.windowOffset)}` : region.windowName,
+      ]);
+    }
+    if (region.bankName) {
+      rows.push(['Bank', region.bankName]);
+    }
+  }
+
+  const labelWidth = Math.max(...rows.map(([label]) => label.length));
+  return [...lines, ...rows.map(([label, value]) => `  ${label.padEnd(labelWidth)}  ${value}`)];
+};
+
+/** Renders one block per looked-up address, in the order they were given. */
+export const renderLookupResults = (entries: LookupEntry[]): string =>
+  `${entries.map((entry) => renderLookupEntry(entry).join('\n')).join('\n\n')}\n`;
+
+const QUERY_NAME_HEADERS: Record<SymbolQueryGrouping, string> = {
+  symbols: 'Symbol',
+  scopes: 'Scope',
+  templates: 'Template group',
+};
+
+/** Renders query rows as an aligned table, with placement columns when listing individual symbols. */
+export const renderQueryTable = (rows: SymbolQueryRow[], grouping: SymbolQueryGrouping): string => {
+  if (rows.length === 0) {
+    return 'No symbols match the filters.\n';
+  }
+  const totalBytes = rows.reduce((total, row) => total + row.sizeBytes, 0);
+  const table =
+    grouping === 'symbols'
+      ? renderTable(
+          [
+            { header: 'Bytes', align: 'right' },
+            { header: 'Address', align: 'left' },
+            { header: 'Bank', align: 'left' },
+            { header: 'Window', align: 'left' },
+            { header: 'Section', align: 'left' },
+            { header: QUERY_NAME_HEADERS[grouping], align: 'left' },
+          ],
+          rows.map((row) => [
+            formatBytes(row.sizeBytes),
+            row.address !== undefined ? formatAddress(row.address) : '',
+            row.hardwareBankName ?? '',
+            row.windowName ?? '',
+            row.sectionName ?? '',
+            row.label,
+          ]),
+        )
+      : renderTable(
+          [
+            { header: 'Bytes', align: 'right' },
+            { header: 'Symbols', align: 'right' },
+            { header: QUERY_NAME_HEADERS[grouping], align: 'left' },
+          ],
+          rows.map((row) => [formatBytes(row.sizeBytes), formatBytes(row.symbolCount), row.label]),
+        );
+  return `${[...table, '', `  ${rows.length} rows, ${formatBytes(totalBytes)} bytes`].join('\n')}\n`;
+};
+
+/** Renders query rows as CSV with raw byte counts, for pasting into spreadsheets and tickets. */
+export const renderQueryCsv = (rows: SymbolQueryRow[], grouping: SymbolQueryGrouping): string => {
+  const header =
+    grouping === 'symbols'
+      ? ['bytes', 'address', 'bank', 'window', 'block', 'section', 'name', 'mangled_name']
+      : ['bytes', 'symbols', 'name'];
+  const records = rows.map((row) =>
+    grouping === 'symbols'
+      ? [
+          String(row.sizeBytes),
+          row.address !== undefined ? formatAddress(row.address) : '',
+          row.hardwareBankName ?? '',
+          row.windowName ?? '',
+          row.blockName ?? '',
+          row.sectionName ?? '',
+          row.label,
+          row.mangledName ?? '',
+        ]
+      : [String(row.sizeBytes), String(row.symbolCount), row.label],
+  );
+  return `${[header, ...records].map(toCsvLine).join('\n')}\n`;
+};
@@ -1,28 +1,48 @@
-import { useEffect, useMemo, useState, type CSSProperties } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from 'react';
 import {
     type Analysis,
+    type AnalysisComparison,
+    type BudgetCheckResult,
     type Summaries,
     type TeensySizeReportSummary,
     type TeensySizeReportEntrySummary,
 } from '@analyzer';
 import type {
     AnalysisBroadcastPayload,
+    AnalysisHistoryEntry,
+    BuildProfileSummary,
+    ClientMessage,
     HealthResponse,
+    RunPhase,
     ServerConfig,
     ServerMessage,
-    ServerStatusPayload,
 } from './shared/protocol';
+import { applyAnalysisDelta } from './shared/analysis-delta';
 import { SizeValue, useSizeFormat } from './components/SizeValue';
 import TeensySizeCard, { TeensySizeWithExtras, type TeensySizePanel } from './components/TeensySizeCard';
 import RegionUsageCard from './components/RegionUsageCard';
 import MemoryMapCard from './components/MemoryMapCard';
 import MemoryTreemapCard from './components/TreemapCard';
 import SymbolScopeTreemapCard from './components/SymbolScopeTreemapCard';
+import ObjectFileTreemapCard from './components/ObjectFileTreemapCard';
+import FlashImageCard from './components/FlashImageCard';
+import SegmentsCard from './components/SegmentsCard';
+import SectionCoverageCard from './components/SectionCoverageCard';
+import LibraryUsageCard from './components/LibraryUsageCard';
 import TreemapFilters from './components/TreemapFilters';
 import RuntimeBankCard from './components/RuntimeBankCard';
 import TemplateGroupsCard from './components/TemplateGroupsCard';
+import ComparisonCard from './components/ComparisonCard';
+import AnalysisHistoryCard from './components/AnalysisHistoryCard';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import ProfileBankComparisonCard from './components/ProfileBankComparisonCard';
+import ExportMenu from './components/ExportMenu';
+import BuildUploadZone from './components/BuildUploadZone';
+import { checkBudgets } from '@analyzer/analysis/budgets';
+import { compareAnalyses } from '@analyzer/analysis/compare';
 import { useRegionUsage } from './hooks/useRegionUsage';
 import { AddressResolutionProvider } from './context/AddressResolverContext';
+import { LinkReasonProvider } from './context/LinkReasonContext';
 import type { TreemapSymbolFilters } from './treemap';
 
 type LatestAnalysisBundle = {
@@ -74,6 +94,30 @@ const parseBundleFromJson = (input: unknown): LatestAnalysisBundle | null => {
     } satisfies LatestAnalysisBundle;
 };
 
+const EMPTY_CONFIG: ServerConfig = {};
+
+const RUN_PHASE_LABELS: Record<RunPhase, string> = {
+    'read-elf': 'reading ELF',
+    'section-classification': 'classifying sections',
+    symbols: 'reading symbols',
+    'symbol-assignment': 'assigning symbols',
+    'debug-info': 'reading debug information',
+    'linker-map': 'reading linker map',
+    'symbol-classification': 'classifying symbols',
+    'flash-image': 'checking flash image',
+    summaries: 'summarizing',
+};
+
+// Keeps the previous config object when it did not change, so a new summary after every run does not
+// reset edits in the config form.
+const mergeProfileSummary = (
+    previous: BuildProfileSummary | undefined,
+    next: BuildProfileSummary,
+): BuildProfileSummary =>
+    previous && JSON.stringify(previous.config) === JSON.stringify(next.config)
+        ? { ...next, config: previous.config }
+        : next;
+
 const getBucketValue = (
     entry: TeensySizeReportEntrySummary | undefined,
     bucket: string,
@@ -94,19 +138,33 @@ const App = (): JSX.Element => {
     const { formatValue } = useSizeFormat();
     const [analysisSummary, setAnalysisSummary] = useState<AnalysisSummaryState | null>(null);
     const [health, setHealth] = useState<HealthResponse | null>(null);
-    const [serverStatus, setServerStatus] = useState<ServerStatusPayload | null>({ state: 'idle' });
     const [connectionState, setConnectionState] = useState<'connecting' | 'connected' | 'error' | 'disconnected'>(
         'connecting',
     );
     const [connectionError, setConnectionError] = useState<string | null>(null);
-    const [config, setConfig] = useState<ServerConfig>({});
+    const [profiles, setProfiles] = useState<BuildProfileSummary[]>([]);
+    const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
+    const [profileError, setProfileError] = useState<string | null>(null);
     const [pendingConfig, setPendingConfig] = useState<ServerConfig>({});
     const [isSavingConfig, setIsSavingConfig] = useState(false);
     const [configError, setConfigError] = useState<string | null>(null);
-    const [isTriggeringRun, setIsTriggeringRun] = useState(false);
     const [runError, setRunError] = useState<string | null>(null);
     const [latestBundle, setLatestBundle] = useState<LatestAnalysisBundle | null>(null);
     const [treemapFilters, setTreemapFilters] = useState<TreemapSymbolFilters>({});
+    const [baseline, setBaseline] = useState<{ name: string; bundle: LatestAnalysisBundle } | null>(null);
+    const [baselineError, setBaselineError] = useState<string | null>(null);
+    const [historyError, setHistoryError] = useState<string | null>(null);
+    const socketRef = useRef<WebSocket | null>(null);
+    const selectedProfileIdRef = useRef<string | null>(null);
+    // The last run the server sent for each profile, which its deltas are applied to; kept across reconnects.
+    const serverPayloadsRef = useRef(new Map<string, AnalysisBroadcastPayload>());
+
+    const selectedProfile = profiles.find((profile) => profile.id === selectedProfileId) ?? null;
+    const serverStatus = selectedProfile?.status ?? null;
+    const config = selectedProfile?.config ?? EMPTY_CONFIG;
+    const history = selectedProfile?.history ?? [];
+    const profileApiPath = (path: string): string =>
+        selectedProfile ? `/api/profiles/${encodeURIComponent(selectedProfile.id)}${path}` : `/api${path}`;
 
     const latestAnalysis = latestBundle?.analysis ?? null;
     const latestSummaries = latestBundle?.summaries ?? null;
@@ -143,6 +201,100 @@ const App = (): JSX.Element => {
         }
     };
 
+    const handleBaselineFileChange = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+        const file = event.target.files?.[0];
+        if (!file) {
+            return;
+        }
+
+        try {
+            const text = await file.text();
+            const bundle = parseBundleFromJson(JSON.parse(text) as unknown);
+            if (!bundle) {
+                throw new Error('File did not contain an analysis bundle.');
+            }
+            setBaseline({ name: file.name, bundle });
+            setBaselineError(null);
+        } catch (error) {
+            console.error('Failed to parse baseline JSON', error);
+            setBaseline(null);
+            setBaselineError('Failed to parse baseline JSON. Please check the file contents.');
+        }
+    };
+
+    // The server analyzes the upload without keeping it, so the result is shown like a loaded JSON file.
+    const handleBuildUpload = async (elf: File, map: File | undefined, targetId: string): Promise<void> => {
+        const form = new FormData();
+        form.append('elf', elf);
+        if (map) {
+            form.append('map', map);
+        }
+        if (targetId) {
+            form.append('targetId', targetId);
+        }
+
+        const response = await fetch('/api/analyze', { method: 'POST', body: form });
+        if (!response.ok) {
+            const data = (await response.json().catch(() => ({}))) as { error?: string };
+            throw new Error(data.error ?? `Analyzing the upload failed with status ${response.status}`);
+        }
+        const bundle = parseBundleFromJson((await response.json()) as unknown);
+        if (!bundle) {
+            throw new Error('The server did not return an analysis bundle.');
+        }
+
+        setLatestBundle(bundle);
+        setAnalysisSummary({
+            kind: 'manual',
+            message: `[Upload] Analyzed ${map ? `${elf.name} and ${map.name}` : elf.name} on the server`,
+            targetName: bundle.analysis.target.name,
+            runtimeBytes: bundle.summaries?.totals?.runtimeBytes,
+            loadImageBytes: bundle.summaries?.totals?.loadImageBytes,
+        });
+    };
+
+    const fetchStoredBundle = async (entry: AnalysisHistoryEntry): Promise<LatestAnalysisBundle> => {
+        const response = await fetch(profileApiPath(`/analyses/${encodeURIComponent(entry.id)}`));
+        if (!response.ok) {
+            throw new Error(`Loading the run from ${entry.generatedAt} failed with status ${response.status}`);
+        }
+        const bundle = parseBundleFromJson((await response.json()) as unknown);
+        if (!bundle) {
+            throw new Error(`The run from ${entry.generatedAt} did not contain an analysis bundle.`);
+        }
+        return bundle;
+    };
+
+    const handleOpenHistoryEntry = async (entry: AnalysisHistoryEntry): Promise<void> => {
+        try {
+            const bundle = await fetchStoredBundle(entry);
+            setLatestBundle(bundle);
+            setAnalysisSummary({
+                kind: 'server',
+                targetName: bundle.analysis.target.name,
+                runtimeBytes: bundle.summaries?.totals?.runtimeBytes,
+                loadImageBytes: bundle.summaries?.totals?.loadImageBytes,
+                generatedAt: bundle.generatedAt,
+            });
+            setHistoryError(null);
+        } catch (error) {
+            console.error('Failed to load stored analysis', error);
+            setHistoryError(error instanceof Error ? error.message : 'Failed to load stored analysis.');
+        }
+    };
+
+    const handleCompareHistoryEntry = async (entry: AnalysisHistoryEntry): Promise<void> => {
+        try {
+            const bundle = await fetchStoredBundle(entry);
+            setBaseline({ name: `run from ${new Date(entry.generatedAt).toLocaleString()}`, bundle });
+            setBaselineError(null);
+            setHistoryError(null);
+        } catch (error) {
+            console.error('Failed to load stored baseline', error);
+            setHistoryError(error instanceof Error ? error.message : 'Failed to load stored analysis.');
+        }
+    };
+
     useEffect(() => {
         let isMounted = true;
 
@@ -155,7 +307,6 @@ const App = (): JSX.Element => {
                 const data = (await response.json()) as HealthResponse;
                 if (isMounted) {
                     setHealth(data);
-                    setServerStatus(data.state);
                     setConnectionState('connected');
                 }
             } catch (error) {
@@ -178,10 +329,111 @@ const App = (): JSX.Element => {
         setPendingConfig(config ? { ...config } : {});
     }, [config]);
 
+    const sendToServer = useCallback((message: ClientMessage): void => {
+        if (socketRef.current?.readyState === WebSocket.OPEN) {
+            socketRef.current.send(JSON.stringify(message));
+        }
+    }, []);
+
+    const showServerPayload = useCallback(
+        (profileId: string, payload: AnalysisBroadcastPayload): void => {
+            serverPayloadsRef.current.set(profileId, payload);
+            const bundle = buildBundle(payload);
+            setLatestBundle(bundle);
+            const totals = bundle.summaries?.totals;
+            setAnalysisSummary({
+                kind: 'server',
+                targetName: bundle.analysis.target.name,
+                runtimeBytes: totals?.runtimeBytes,
+                loadImageBytes: totals?.loadImageBytes,
+                generatedAt: bundle.generatedAt,
+            });
+            sendToServer({ type: 'ack', profileId, generatedAt: payload.generatedAt });
+        },
+        [sendToServer],
+    );
+
+    const subscribeToProfile = useCallback(
+        (profileId: string): void => {
+            sendToServer({
+                type: 'subscribe',
+                profileId,
+                since: serverPayloadsRef.current.get(profileId)?.generatedAt,
+            });
+        },
+        [sendToServer],
+    );
+
+    // Shows the profile's last run right away when this viewer already holds it; the server then sends
+    // only what changed since.
+    const selectProfile = useCallback(
+        (profileId: string): void => {
+            selectedProfileIdRef.current = profileId;
+            setSelectedProfileId(profileId);
+            const held = serverPayloadsRef.current.get(profileId);
+            if (held) {
+                showServerPayload(profileId, held);
+            } else {
+                setLatestBundle(null);
+                setAnalysisSummary(null);
+            }
+            subscribeToProfile(profileId);
+        },
+        [showServerPayload, subscribeToProfile],
+    );
+
+    useEffect(() => {
+        if (profiles.length > 0 && !profiles.some((profile) => profile.id === selectedProfileId)) {
+            selectProfile(profiles[0].id);
+        }
+    }, [profiles, selectedProfileId, selectProfile]);
+
     useEffect(() => {
-        let socket: WebSocket | null = null;
         let reconnectTimeout: number | undefined;
 
+        const handleMessage = (message: ServerMessage): void => {
+            if (message.type === 'hello') {
+                setProfiles(message.payload.profiles);
+                if (selectedProfileIdRef.current) {
+                    subscribeToProfile(selectedProfileIdRef.current);
+                }
+            } else if (message.type === 'profile') {
+                setProfiles((previous) => {
+                    const index = previous.findIndex((profile) => profile.id === message.profileId);
+                    if (index === -1) {
+                        return [...previous, message.payload];
+                    }
+                    const next = [...previous];
+                    next[index] = mergeProfileSummary(previous[index], message.payload);
+                    return next;
+                });
+            } else if (message.type === 'profile-removed') {
+                serverPayloadsRef.current.delete(message.profileId);
+                setProfiles((previous) => previous.filter((profile) => profile.id !== message.profileId));
+            } else if (message.type === 'status') {
+                setProfiles((previous) =>
+                    previous.map((profile) =>
+                        profile.id === message.profileId ? { ...profile, status: message.payload } : profile,
+                    ),
+                );
+            } else if (message.profileId !== selectedProfileIdRef.current) {
+                // An analysis for a profile this viewer has since switched away from.
+            } else if (message.type === 'analysis') {
+                showServerPayload(message.profileId, message.payload);
+            } else if (message.type === 'analysis-delta') {
+                const held = serverPayloadsRef.current.get(message.profileId);
+                try {
+                    if (!held) {
+                        throw new Error('No analysis to apply the delta to.');
+                    }
+                    showServerPayload(message.profileId, applyAnalysisDelta(held, message.payload));
+                } catch (error) {
+                    console.warn('Failed to apply analysis delta, requesting the full analysis', error);
+                    sendToServer({ type: 'resync', profileId: message.profileId });
+                }
+            }
+        };
+
         const connect = (): void => {
             const { protocol, host } = window.location;
             const wsProtocol = protocol === 'https:' ? 'wss' : 'ws';
@@ -189,7 +441,8 @@ const App = (): JSX.Element => {
             const wsHost = customPort ? `${window.location.hostname}:${customPort}` : host;
             const wsUrl = `${wsProtocol}://${wsHost}/ws`;
 
-            socket = new WebSocket(wsUrl);
+            const socket = new WebSocket(wsUrl);
+            socketRef.current = socket;
 
             socket.addEventListener('open', () => {
                 setConnectionState('connected');
@@ -198,24 +451,7 @@ const App = (): JSX.Element => {
 
             socket.addEventListener('message', (event) => {
                 try {
-                    const message = JSON.parse(event.data) as ServerMessage;
-                    if (message.type === 'status') {
-                        setServerStatus(message.payload);
-                    } else if (message.type === 'config') {
-                        setConfig(message.payload ?? {});
-                        setPendingConfig(message.payload ?? {});
-                    } else if (message.type === 'analysis') {
-                        const bundle = buildBundle(message.payload);
-                        setLatestBundle(bundle);
-                        const totals = bundle.summaries?.totals;
-                        setAnalysisSummary({
-                            kind: 'server',
-                            targetName: bundle.analysis.target.name,
-                            runtimeBytes: totals?.runtimeBytes,
-                            loadImageBytes: totals?.loadImageBytes,
-                            generatedAt: bundle.generatedAt,
-                        });
-                    }
+                    handleMessage(JSON.parse(event.data) as ServerMessage);
                 } catch (error) {
                     console.warn('Failed to parse server message', error);
                 }
@@ -239,9 +475,9 @@ const App = (): JSX.Element => {
             if (reconnectTimeout) {
                 window.clearTimeout(reconnectTimeout);
             }
-            socket?.close();
+            socketRef.current?.close();
         };
-    }, []);
+    }, [sendToServer, showServerPayload, subscribeToProfile]);
 
     const statusLabel = useMemo(() => {
         if (!serverStatus) {
@@ -253,7 +489,9 @@ const App = (): JSX.Element => {
             case 'watching':
                 return 'Watching';
             case 'running':
-                return 'Analyzing';
+                return serverStatus.progress
+                    ? `Analyzing: ${RUN_PHASE_LABELS[serverStatus.progress.phase]} (${serverStatus.progress.step}/${serverStatus.progress.totalSteps})`
+                    : 'Analyzing';
             case 'error':
                 return 'Error';
             default:
@@ -284,7 +522,7 @@ const App = (): JSX.Element => {
         setConfigError(null);
 
         try {
-            const response = await fetch('/api/config', {
+            const response = await fetch(profileApiPath('/config'), {
                 method: 'PUT',
                 headers: {
                     'Content-Type': 'application/json',
@@ -293,11 +531,11 @@ const App = (): JSX.Element => {
             });
 
             if (!response.ok) {
-                throw new Error(`Config update failed with status ${response.status}`);
+                const data = (await response.json()) as { error?: string };
+                throw new Error(data.error ?? `Config update failed with status ${response.status}`);
             }
 
             const data = (await response.json()) as { config: ServerConfig };
-            setConfig(data.config);
             setPendingConfig(data.config);
         } catch (error) {
             setConfigError(error instanceof Error ? error.message : 'Failed to update config');
@@ -306,32 +544,91 @@ const App = (): JSX.Element => {
         }
     };
 
+    // A new profile starts as a copy of the selected one, so usually only the ELF and map paths need changing.
+    const handleAddProfile = async (profileId: string): Promise<boolean> => {
+        setProfileError(null);
+        try {
+            const response = await fetch('/api/profiles', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ id: profileId, config }),
+            });
+            if (!response.ok) {
+                const data = (await response.json()) as { error?: string };
+                throw new Error(data.error ?? `Adding the profile failed with status ${response.status}`);
+            }
+            const data = (await response.json()) as { profile: BuildProfileSummary };
+            setProfiles((previous) =>
+                previous.some((profile) => profile.id === data.profile.id) ? previous : [...previous, data.profile],
+            );
+            selectProfile(data.profile.id);
+            return true;
+        } catch (error) {
+            setProfileError(error instanceof Error ? error.message : 'Failed to add profile');
+            return false;
+        }
+    };
+
+    const handleRemoveProfile = async (profileId: string): Promise<void> => {
+        if (!window.confirm(`Remove build profile ${profileId}? Its stored analyses stay on disk.`)) {
+            return;
+        }
+        setProfileError(null);
+        try {
+            const response = await fetch(`/api/profiles/${encodeURIComponent(profileId)}`, { method: 'DELETE' });
+            if (!response.ok) {
+                const data = (await response.json()) as { error?: string };
+                throw new Error(data.error ?? `Removing the profile failed with status ${response.status}`);
+            }
+        } catch (error) {
+            setProfileError(error instanceof Error ? error.message : 'Failed to remove profile');
+        }
+    };
+
     const handleManualRun = async (): Promise<void> => {
         if (connectionState !== 'connected') {
             return;
         }
 
-        setIsTriggeringRun(true);
         setRunError(null);
 
         try {
-            const response = await fetch('/api/run', {
+            const response = await fetch(profileApiPath('/run'), {
                 method: 'POST',
             });
 
-            if (!response.ok) {
+            // 409 means the run was cancelled, which the status already shows.
+            if (!response.ok && response.status !== 409) {
                 throw new Error(`Run request failed with status ${response.status}`);
             }
         } catch (error) {
             setRunError(error instanceof Error ? error.message : 'Failed to trigger analysis');
-        } finally {
-            setIsTriggeringRun(false);
+        }
+    };
+
+    const handleCancelRun = async (): Promise<void> => {
+        setRunError(null);
+
+        try {
+            const response = await fetch(profileApiPath('/run'), {
+                method: 'DELETE',
+            });
+
+            if (!response.ok && response.status !== 409) {
+                throw new Error(`Cancel request failed with status ${response.status}`);
+            }
+        } catch (error) {
+            setRunError(error instanceof Error ? error.message : 'Failed to cancel analysis');
         }
     };
 
     const configReady = Boolean(pendingConfig.targetId && pendingConfig.elfPath);
-    const isRunDisabled =
-        connectionState !== 'connected' || isTriggeringRun || serverStatus?.state === 'running' || !configReady;
+    const isAnalysisRunning = serverStatus?.state === 'running';
+    // While a run is in progress, the button queues one more; further clicks would only join it.
+    const isRunDisabled = connectionState !== 'connected' || Boolean(serverStatus?.queued) || !configReady;
+    const runButtonLabel = !isAnalysisRunning ? 'Run Analysis' : serverStatus?.queued ? 'Run Queued' : 'Queue Another Run';
 
     const { runtimeBanks: runtimeBankUsage, regions: regionUsage } = useRegionUsage({
         analysis: latestAnalysis,
@@ -407,6 +704,32 @@ const App = (): JSX.Element => {
         return ret;
     }, [latestReport]);
 
+    const budgetCheck = useMemo<{ result: BudgetCheckResult | null; error: string | null }>(() => {
+        if (!latestAnalysis || !latestSummaries) {
+            return { result: null, error: null };
+        }
+        try {
+            return { result: checkBudgets(latestAnalysis, latestSummaries, latestReport ?? {}), error: null };
+        } catch (error) {
+            return { result: null, error: error instanceof Error ? error.message : String(error) };
+        }
+    }, [latestAnalysis, latestSummaries, latestReport]);
+
+    const comparison = useMemo<{ result: AnalysisComparison | null; error: string | null }>(() => {
+        if (!latestAnalysis || !latestSummaries || !baseline) {
+            return { result: null, error: null };
+        }
+        try {
+            const result = compareAnalyses(baseline.bundle.analysis, latestAnalysis, {
+                beforeSummaries: baseline.bundle.summaries,
+                afterSummaries: latestSummaries,
+            });
+            return { result, error: null };
+        } catch (error) {
+            return { result: null, error: error instanceof Error ? error.message : String(error) };
+        }
+    }, [baseline, latestAnalysis, latestSummaries]);
+
     const teensySizeError = null;
     const lastRunCompletedAt = serverStatus?.lastRunCompletedAt ? new Date(serverStatus.lastRunCompletedAt) : null;
     const analysisTotals = latestSummaries?.totals ?? null;
@@ -484,256 +807,366 @@ const App = (): JSX.Element => {
 
     return (
         <AddressResolutionProvider analysis={latestAnalysis}>
-            <div className="app-root" style={appRootStyle}>
-                <header>
-                    <h1>Teensy Memory Explorer Viewer</h1>
-                    <p>Select an analyzer JSON output file to explore memory usage visually.</p>
-                </header>
-                <main>
-                    <section className="status-card">
-                        <h2>Companion Service</h2>
-                        <dl>
-                            <div>
-                                <dt>Connection</dt>
-                                <dd className={`chip chip--${connectionState}`}>{connectionState}</dd>
-                            </div>
-                            <div>
-                                <dt>Status</dt>
-                                <dd>{statusLabel}</dd>
-                            </div>
-                            {latestAnalysis ? (
+            <LinkReasonProvider analysis={latestAnalysis}>
+                <div className="app-root" style={appRootStyle}>
+                    <header>
+                        <h1>Teensy Memory Explorer Viewer</h1>
+                        <p>Select an analyzer JSON output file to explore memory usage visually.</p>
+                    </header>
+                    <main>
+                        <section className="status-card">
+                            <h2>Companion Service</h2>
+                            <ProfileSwitcher
+                                profiles={profiles}
+                                selectedProfileId={selectedProfileId}
+                                error={profileError}
+                                disabled={connectionState !== 'connected'}
+                                onSelect={selectProfile}
+                                onAdd={handleAddProfile}
+                                onRemove={handleRemoveProfile}
+                            />
+                            <dl>
                                 <div>
-                                    <dt>Target</dt>
-                                    <dd>{latestAnalysis.target.name}</dd>
+                                    <dt>Connection</dt>
+                                    <dd className={`chip chip--${connectionState}`}>{connectionState}</dd>
                                 </div>
-                            ) : null}
-                            {serverStatus?.lastRunCompletedAt ? (
                                 <div>
-                                    <dt>Last analysis</dt>
-                                    <dd>{new Date(serverStatus.lastRunCompletedAt).toLocaleString()}</dd>
+                                    <dt>Status</dt>
+                                    <dd>{statusLabel}</dd>
                                 </div>
-                            ) : null}
-                            {analysisTotals ? (
-                                <>
+                                {latestAnalysis ? (
                                     <div>
-                                        <dt>Runtime bytes</dt>
-                                        <dd>
-                                            <SizeValue value={analysisTotals.runtimeBytes} />
-                                        </dd>
+                                        <dt>Target</dt>
+                                        <dd>{latestAnalysis.target.name}</dd>
                                     </div>
+                                ) : null}
+                                {serverStatus?.lastRunCompletedAt ? (
                                     <div>
-                                        <dt>Load image bytes</dt>
-                                        <dd>
-                                            <SizeValue value={analysisTotals.loadImageBytes} />
-                                        </dd>
+                                        <dt>Last analysis</dt>
+                                        <dd>{new Date(serverStatus.lastRunCompletedAt).toLocaleString()}</dd>
                                     </div>
+                                ) : null}
+                                {analysisTotals ? (
+                                    <>
+                                        <div>
+                                            <dt>Runtime bytes</dt>
+                                            <dd>
+                                                <SizeValue value={analysisTotals.runtimeBytes} />
+                                            </dd>
+                                        </div>
+                                        <div>
+                                            <dt>Load image bytes</dt>
+                                            <dd>
+                                                <SizeValue value={analysisTotals.loadImageBytes} />
+                                            </dd>
+                                        </div>
+                                        <div>
+                                            <dt>File-only bytes</dt>
+                                            <dd>
+                                                <SizeValue value={analysisTotals.fileOnlyBytes} />
+                                            </dd>
+                                        </div>
+                                    </>
+                                ) : null}
+                                {health?.version ? (
                                     <div>
-                                        <dt>File-only bytes</dt>
-                                        <dd>
-                                            <SizeValue value={analysisTotals.fileOnlyBytes} />
-                                        </dd>
+                                        <dt>Server version</dt>
+                                        <dd>{health.version}</dd>
                                     </div>
-                                </>
-                            ) : null}
-                            {health?.version ? (
-                                <div>
-                                    <dt>Server version</dt>
-                                    <dd>{health.version}</dd>
-                                </div>
-                            ) : null}
-                            {connectionError ? <div className="status-warning">{connectionError}</div> : null}
-                        </dl>
-
-                        <div className="status-actions">
-                            <button type="button" onClick={handleManualRun} disabled={isRunDisabled}>
-                                {isTriggeringRun || serverStatus?.state === 'running' ? 'Running…' : 'Run Analysis'}
-                            </button>
-                            {!configReady ? (
-                                <span className="status-hint">Set target ID and ELF path to enable analysis.</span>
-                            ) : null}
-                            {configReady && !(pendingConfig.autoRun ?? false) ? (
-                                <span className="status-hint">Auto-run is off. Use this button after builds.</span>
-                            ) : null}
-                        </div>
-
-                        {(runError || serverStatus?.errorMessage) && (
-                            <div className="status-error">{runError ?? serverStatus?.errorMessage}</div>
-                        )}
-                    </section>
-
-                    <section className="config-card">
-                        <h2>Watch Configuration</h2>
-                        <form onSubmit={handleConfigSubmit} className="config-form">
-                            <div className="config-grid">
-                                <label>
-                                    <span>Target ID</span>
-                                    <input
-                                        type="text"
-                                        placeholder="teensy40"
-                                        value={pendingConfig.targetId ?? ''}
-                                        onChange={(event) => handleConfigInputChange('targetId', event.target.value)}
-                                    />
-                                </label>
-                                <label>
-                                    <span>ELF Path</span>
-                                    <input
-                                        type="text"
-                                        placeholder="C:\\path\\to\\firmware.elf"
-                                        value={pendingConfig.elfPath ?? ''}
-                                        onChange={(event) => handleConfigInputChange('elfPath', event.target.value)}
-                                    />
-                                </label>
-                                <label>
-                                    <span>MAP Path</span>
-                                    <input
-                                        type="text"
-                                        placeholder="C:\\path\\to\\firmware.map"
-                                        value={pendingConfig.mapPath ?? ''}
-                                        onChange={(event) => handleConfigInputChange('mapPath', event.target.value)}
-                                    />
-                                </label>
-                                <label>
-                                    <span>Toolchain Directory</span>
-                                    <input
-                                        type="text"
-                                        placeholder="C:\\.platformio\\toolchain\\bin"
-                                        value={pendingConfig.toolchainDir ?? ''}
-                                        onChange={(event) => handleConfigInputChange('toolchainDir', event.target.value)}
-                                    />
-                                </label>
-                                <label>
-                                    <span>Toolchain Prefix</span>
-                                    <input
-                                        type="text"
-                                        placeholder="arm-none-eabi-"
-                                        value={pendingConfig.toolchainPrefix ?? ''}
-                                        onChange={(event) => handleConfigInputChange('toolchainPrefix', event.target.value)}
+                                ) : null}
+                                {connectionError ? <div className="status-warning">{connectionError}</div> : null}
+                            </dl>
+
+                            <div className="status-actions">
+                                <button type="button" onClick={handleManualRun} disabled={isRunDisabled}>
+                                    {runButtonLabel}
+                                </button>
+                                {isAnalysisRunning ? (
+                                    <button type="button" className="secondary" onClick={handleCancelRun}>
+                                        Cancel
+                                    </button>
+                                ) : null}
+                                {serverStatus?.progress ? (
+                                    <progress
+                                        className="run-progress"
+                                        value={serverStatus.progress.step}
+                                        max={serverStatus.progress.totalSteps}
                                     />
-                                </label>
-                                <label>
-                                    <span>Debounce (ms)</span>
+                                ) : null}
+                                {!isAnalysisRunning && serverStatus?.lastRunCancelledAt ? (
+                                    <span className="status-hint">
+                                        Last run cancelled at {new Date(serverStatus.lastRunCancelledAt).toLocaleTimeString()}.
+                                    </span>
+                                ) : null}
+                                {!configReady ? (
+                                    <span className="status-hint">Set target ID and ELF path to enable analysis.</span>
+                                ) : null}
+                                {configReady && !(pendingConfig.autoRun ?? false) ? (
+                                    <span className="status-hint">Auto-run is off. Use this button after builds.</span>
+                                ) : null}
+                            </div>
+
+                            {(runError || serverStatus?.errorMessage) && (
+                                <div className="status-error">{runError ?? serverStatus?.errorMessage}</div>
+                            )}
+                        </section>
+
+                        <section className="config-card">
+                            <h2>Watch Configuration</h2>
+                            <form onSubmit={handleConfigSubmit} className="config-form">
+                                <div className="config-grid">
+                                    <label>
+                                        <span>Target ID</span>
+                                        <input
+                                            type="text"
+                                            placeholder="teensy40"
+                                            value={pendingConfig.targetId ?? ''}
+                                            onChange={(event) => handleConfigInputChange('targetId', event.target.value)}
+                                        />
+                                    </label>
+                                    <label>
+                                        <span>ELF Path</span>
+                                        <input
+                                            type="text"
+                                            placeholder="C:\\path\\to\\firmware.elf"
+                                            value={pendingConfig.elfPath ?? ''}
+                                            onChange={(event) => handleConfigInputChange('elfPath', event.target.value)}
+                                        />
+                                    </label>
+                                    <label>
+                                        <span>MAP Path</span>
+                                        <input
+                                            type="text"
+                                            placeholder="C:\\path\\to\\firmware.map"
+                                            value={pendingConfig.mapPath ?? ''}
+                                            onChange={(event) => handleConfigInputChange('mapPath', event.target.value)}
+                                        />
+                                    </label>
+                                    <label>
+                                        <span>HEX Path</span>
+                                        <input
+                                            type="text"
+                                            placeholder="C:\\path\\to\\firmware.hex"
+                                            value={pendingConfig.hexPath ?? ''}
+                                            onChange={(event) => handleConfigInputChange('hexPath', event.target.value)}
+                                        />
+                                    </label>
+                                    <label>
+                                        <span>Toolchain Directory</span>
+                                        <input
+                                            type="text"
+                                            placeholder="C:\\.platformio\\toolchain\\bin"
+                                            value={pendingConfig.toolchainDir ?? ''}
+                                            onChange={(event) => handleConfigInputChange('toolchainDir', event.target.value)}
+                                        />
+                                    </label>
+                                    <label>
+                                        <span>Toolchain Prefix</span>
+                                        <input
+                                            type="text"
+                                            placeholder="arm-none-eabi-"
+                                            value={pendingConfig.toolchainPrefix ?? ''}
+                                            onChange={(event) => handleConfigInputChange('toolchainPrefix', event.target.value)}
+                                        />
+                                    </label>
+                                    <label>
+                                        <span>Debounce (ms)</span>
+                                        <input
+                                            type="number"
+                                            min={250}
+                                            step={250}
+                                            value={pendingConfig.debounceMs ?? 1500}
+                                            onChange={(event) =>
+                                                handleConfigInputChange('debounceMs', Number.parseInt(event.target.value, 10))
+                                            }
+                                        />
+                                    </label>
+                                </div>
+
+                                <label className="toggle">
                                     <input
-                                        type="number"
-                                        min={250}
-                                        step={250}
-                                        value={pendingConfig.debounceMs ?? 1500}
-                                        onChange={(event) =>
-                                            handleConfigInputChange('debounceMs', Number.parseInt(event.target.value, 10))
-                                        }
+                                        type="checkbox"
+                                        checked={pendingConfig.autoRun ?? false}
+                                        onChange={(event) => handleConfigInputChange('autoRun', event.target.checked)}
                                     />
+                                    <span>Automatically run analysis when files change</span>
                                 </label>
-                            </div>
 
-                            <label className="toggle">
-                                <input
-                                    type="checkbox"
-                                    checked={pendingConfig.autoRun ?? false}
-                                    onChange={(event) => handleConfigInputChange('autoRun', event.target.checked)}
-                                />
-                                <span>Automatically run analysis when files change</span>
-                            </label>
+                                {configError ? <p className="config-error">{configError}</p> : null}
+
+                                <div className="config-actions">
+                                    <button type="submit" disabled={isSavingConfig}>
+                                        {isSavingConfig ? 'Saving…' : 'Save Configuration'}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => setPendingConfig(config)}
+                                        disabled={isSavingConfig}
+                                        className="secondary"
+                                    >
+                                        Reset
+                                    </button>
+                                </div>
+                            </form>
+                        </section>
 
-                            {configError ? <p className="config-error">{configError}</p> : null}
+                        <label className="uploader">
+                            <span>Load analysis JSON:</span>
+                            <input type="file" accept="application/json" onChange={handleFileChange} />
+                        </label>
+                        <BuildUploadZone
+                            defaultTargetId={config.targetId}
+                            disabled={connectionState !== 'connected'}
+                            onUpload={handleBuildUpload}
+                        />
+                        {latestBundle ? (
+                            <ExportMenu
+                                analysis={latestBundle.analysis}
+                                summaries={latestBundle.summaries}
+                                report={latestBundle.report}
+                                budgets={budgetCheck.result}
+                                generatedAt={latestBundle.generatedAt}
+                            />
+                        ) : null}
+                        {renderAnalysisSummary()}
+
+                        {latestAnalysis && (
+                            <section className="summary-card">
+                                <dl>
+                                    <dt>Stack / locals available</dt>
+                                    <dd>
+                                        {teensySizeWithExtras.freeStackBytes !== null ? (
+                                            <SizeValue value={teensySizeWithExtras.freeStackBytes} />
+                                        ) : (
+                                            'N/A'
+                                        )}
+                                    </dd>
+                                    <dt>Fast run code size (FASTRUN / default code bloating RAM1)</dt>
+                                    <dd>
+                                        {teensySizeWithExtras.fastRunCodeBytes !== null ? (
+                                            <SizeValue value={teensySizeWithExtras.fastRunCodeBytes} />
+                                        ) : (
+                                            'N/A'
+                                        )}
+                                    </dd>
+                                    <dt>Code only in FLASHMEM (non-performance critical but keeps RAM1 usage down)</dt>
+                                    <dd>
+                                        {teensySizeWithExtras.flashMemCodeBytes !== null ? (
+                                            <SizeValue value={teensySizeWithExtras.flashMemCodeBytes} />
+                                        ) : (
+                                            'N/A'
+                                        )}
+                                    </dd>
+                                    <dt>Total code size</dt>
+                                    <dd>
+                                        {teensySizeWithExtras.totalCodeBytes !== null ? (
+                                            <SizeValue value={teensySizeWithExtras.totalCodeBytes} />
+                                        ) : (
+                                            'N/A'
+                                        )}
+                                    </dd>
+                                </dl>
+                            </section>
 
-                            <div className="config-actions">
-                                <button type="submit" disabled={isSavingConfig}>
-                                    {isSavingConfig ? 'Saving…' : 'Save Configuration'}
-                                </button>
-                                <button
-                                    type="button"
-                                    onClick={() => setPendingConfig(config)}
-                                    disabled={isSavingConfig}
-                                    className="secondary"
-                                >
-                                    Reset
-                                </button>
-                            </div>
-                        </form>
-                    </section>
+                        )}
 
-                    <label className="uploader">
-                        <span>Load analysis JSON:</span>
-                        <input type="file" accept="application/json" onChange={handleFileChange} />
-                    </label>
-                    {renderAnalysisSummary()}
+                        <TeensySizeCard hasAnalysis={Boolean(latestAnalysis)} error={teensySizeError} panels={teensySizeWithExtras.panels} />
 
-                    {latestAnalysis && (
-                        <section className="summary-card">
-                            <dl>
-                                <dt>Stack / locals available</dt>
-                                <dd>
-                                    {teensySizeWithExtras.freeStackBytes !== null ? (
-                                        <SizeValue value={teensySizeWithExtras.freeStackBytes} />
-                                    ) : (
-                                        'N/A'
-                                    )}
-                                </dd>
-                                <dt>Fast run code size (FASTRUN / default code bloating RAM1)</dt>
-                                <dd>
-                                    {teensySizeWithExtras.fastRunCodeBytes !== null ? (
-                                        <SizeValue value={teensySizeWithExtras.fastRunCodeBytes} />
-                                    ) : (
-                                        'N/A'
-                                    )}
-                                </dd>
-                                <dt>Code only in FLASHMEM (non-performance critical but keeps RAM1 usage down)</dt>
-                                <dd>
-                                    {teensySizeWithExtras.flashMemCodeBytes !== null ? (
-                                        <SizeValue value={teensySizeWithExtras.flashMemCodeBytes} />
-                                    ) : (
-                                        'N/A'
-                                    )}
-                                </dd>
-                                <dt>Total code size</dt>
-                                <dd>
-                                    {teensySizeWithExtras.totalCodeBytes !== null ? (
-                                        <SizeValue value={teensySizeWithExtras.totalCodeBytes} />
-                                    ) : (
-                                        'N/A'
-                                    )}
-                                </dd>
-                            </dl>
-                        </section>
+                        <RuntimeBankCard usage={runtimeBankUsage} lastRunCompletedAt={lastRunCompletedAt} />
+
+                        <ProfileBankComparisonCard profiles={profiles} selectedProfileId={selectedProfileId} />
+
+                        <RegionUsageCard
+                            regionUsage={regionUsage}
+                            lastRunCompletedAt={lastRunCompletedAt}
+                            budgets={budgetCheck.result}
+                            budgetError={budgetCheck.error}
+                        />
+
+                        <AnalysisHistoryCard
+                            entries={history}
+                            currentGeneratedAt={latestBundle?.generatedAt ?? null}
+                            baselineGeneratedAt={baseline?.bundle.generatedAt ?? null}
+                            error={historyError}
+                            onOpen={handleOpenHistoryEntry}
+                            onCompare={handleCompareHistoryEntry}
+                        />
 
-                    )}
+                        <ComparisonCard
+                            comparison={comparison.result}
+                            windows={latestAnalysis?.config.addressWindows ?? []}
+                            baselineName={baseline?.name ?? null}
+                            error={baselineError ?? comparison.error}
+                            hasAnalysis={Boolean(latestAnalysis)}
+                            lastRunCompletedAt={lastRunCompletedAt}
+                            onBaselineFileChange={handleBaselineFileChange}
+                            onClearBaseline={() => {
+                                setBaseline(null);
+                                setBaselineError(null);
+                            }}
+                        />
 
-                    <TeensySizeCard hasAnalysis={Boolean(latestAnalysis)} error={teensySizeError} panels={teensySizeWithExtras.panels} />
+                        <FlashImageCard
+                            analysis={latestAnalysis}
+                            summaries={latestSummaries}
+                            lastRunCompletedAt={lastRunCompletedAt}
+                        />
 
-                    <RuntimeBankCard usage={runtimeBankUsage} lastRunCompletedAt={lastRunCompletedAt} />
+                        <SegmentsCard
+                            analysis={latestAnalysis}
+                            summaries={latestSummaries}
+                            lastRunCompletedAt={lastRunCompletedAt}
+                        />
 
-                    <RegionUsageCard regionUsage={regionUsage} lastRunCompletedAt={lastRunCompletedAt} />
+                        <SectionCoverageCard
+                            analysis={latestAnalysis}
+                            summaries={latestSummaries}
+                            lastRunCompletedAt={lastRunCompletedAt}
+                        />
 
-                    <TemplateGroupsCard
-                        groups={latestAnalysis?.templateGroups ?? []}
-                        symbols={latestAnalysis?.symbols ?? []}
-                        lastRunCompletedAt={lastRunCompletedAt}
-                    />
+                        <TemplateGroupsCard
+                            groups={latestAnalysis?.templateGroups ?? []}
+                            symbols={latestAnalysis?.symbols ?? []}
+                            lastRunCompletedAt={lastRunCompletedAt}
+                        />
 
-                    <MemoryMapCard
-                        analysis={latestAnalysis}
-                        summaries={latestSummaries}
-                        lastRunCompletedAt={lastRunCompletedAt}
-                    />
-                    {latestAnalysis ? (
-                        <TreemapFilters
+                        <LibraryUsageCard
                             analysis={latestAnalysis}
+                            summaries={latestSummaries}
+                            lastRunCompletedAt={lastRunCompletedAt}
+                        />
+
+                        <MemoryMapCard
+                            analysis={latestAnalysis}
+                            summaries={latestSummaries}
+                            lastRunCompletedAt={lastRunCompletedAt}
+                        />
+                        {latestAnalysis ? (
+                            <TreemapFilters
+                                analysis={latestAnalysis}
+                                filters={treemapFilters}
+                                onFiltersChange={setTreemapFilters}
+                            />
+                        ) : null}
+                        <MemoryTreemapCard
+                            analysis={latestAnalysis}
+                            lastRunCompletedAt={lastRunCompletedAt}
                             filters={treemapFilters}
-                            onFiltersChange={setTreemapFilters}
                         />
-                    ) : null}
-                    <MemoryTreemapCard
-                        analysis={latestAnalysis}
-                        lastRunCompletedAt={lastRunCompletedAt}
-                        filters={treemapFilters}
-                    />
-                    <SymbolScopeTreemapCard
-                        analysis={latestAnalysis}
-                        lastRunCompletedAt={lastRunCompletedAt}
-                        filters={treemapFilters}
-                    />
-                    <section className="placeholder-grid" />
-                </main>
-            </div>
+                        <SymbolScopeTreemapCard
+                            analysis={latestAnalysis}
+                            lastRunCompletedAt={lastRunCompletedAt}
+                            filters={treemapFilters}
+                        />
+                        <ObjectFileTreemapCard
+                            analysis={latestAnalysis}
+                            lastRunCompletedAt={lastRunCompletedAt}
+                            filters={treemapFilters}
+                        />
+                        <section className="placeholder-grid" />
+                    </main>
+                </div>
+            </LinkReasonProvider>
         </AddressResolutionProvider>
     );
 };
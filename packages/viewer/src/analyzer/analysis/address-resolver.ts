@@ -50,6 +50,11 @@ export interface AddressLookupSymbol {
 
 export interface AddressLookupResult {
   address: number;
+  /**
+   * Where the bytes at a load address live at run time, when the two differ (FASTRUN code, initialised
+   * data). The symbol is looked up at this address.
+   */
+  runtimeAddress?: number;
   region?: AddressLookupRegion;
   section?: AddressLookupSection;
   symbol?: AddressLookupSymbol;
@@ -137,7 +142,8 @@ export const createAddressResolver = (analysis: Analysis): AddressResolver => {
   const sectionSpans: SectionSpan[] = [];
   analysis.sections.forEach((section) => {
     const { size } = section;
-    if (!Number.isFinite(size) || size <= 0) {
+    // Debug info and other file-only sections sit at address 0 and would claim null-pointer lookups.
+    if (!section.flags.alloc || !Number.isFinite(size) || size <= 0) {
       return;
     }
 
@@ -324,11 +330,19 @@ export const createAddressResolver = (analysis: Analysis): AddressResolver => {
     const typePreference = buildTypePreference(options?.addressType);
     const regionSpan = findAssignmentSpan(address, typePreference);
     const sectionSpan = findSectionSpan(address, typePreference);
-    const symbol = findSymbol(address);
+    const matchedSection = sectionSpan?.section;
+    const runtimeAddress =
+      sectionSpan?.addressType === 'load' &&
+      typeof matchedSection?.vmaStart === 'number' &&
+      matchedSection.vmaStart !== sectionSpan.start
+        ? matchedSection.vmaStart + (address - sectionSpan.start)
+        : undefined;
+    const symbolAddress = runtimeAddress ?? address;
+    const symbol = findSymbol(symbolAddress);
 
     const region = regionSpan ? buildRegion(address, regionSpan) : undefined;
     const section = sectionSpan ? buildSection(address, sectionSpan) : undefined;
-    const symbolInfo = symbol ? buildSymbol(address, symbol) : undefined;
+    const symbolInfo = symbol ? buildSymbol(symbolAddress, symbol) : undefined;
 
     if (!region && !section && !symbolInfo) {
       return null;
@@ -336,6 +350,7 @@ export const createAddressResolver = (analysis: Analysis): AddressResolver => {
 
     return {
       address,
+      runtimeAddress,
       region,
       section,
       symbol: symbolInfo,
@@ -1,15 +1,21 @@
 import path from 'path';
 import { loadMemoryMap } from '../config/loader';
-import { Analysis, AnalyzeBuildParams, createEmptyAnalysis } from '../model';
+import { ANALYSIS_PHASES, Analysis, AnalysisPhase, AnalyzeBuildParams, createEmptyAnalysis } from '../model';
 import { resolveToolchain } from '../toolchain/resolver';
-import { runCommand } from '../utils/exec';
-import { parseReadelfSections } from '../parsers/readelf';
-import { parseObjdumpSectionHeaders } from '../parsers/objdump';
-import { parseNmOutput } from '../parsers/nm';
+import { buildSectionsFromElf, buildSegmentsFromElf, buildSymbolTableFromElf, EM_ARM, readElfFile } from '../parsers/elf';
+import { readLinkerMapFile } from '../parsers/map';
+import { readDwarfFromElf, readLineTable } from '../parsers/dwarf';
+import { readIntelHexFile } from '../parsers/hex';
 import { assignSymbolsToSections } from './symbol-assignment';
 import { buildTemplateGroups } from './template-groups';
 import { applySectionCategories } from './section-classification';
 import { assignBlocksToSections } from './block-assignment';
+import { applyToolchainExtras } from './toolchain-extras';
+import { attachLinkerMap } from './linker-map';
+import { applyDebugInfo } from './debug-info';
+import { checkFlashImage } from './flash-image';
+import { applySymbolCategories } from './symbol-classification';
+import { createSourceLineResolver } from './source-lines';
 
 const deriveTargetName = (targetId: string): string => {
   switch (targetId) {
@@ -23,9 +29,20 @@ const deriveTargetName = (targetId: string): string => {
 };
 
 export const analyzeBuild = async (params: AnalyzeBuildParams): Promise<Analysis> => {
-  const { elfPath, mapPath, targetId } = params;
+  const { elfPath, mapPath, hexPath, targetId, configDir, signal, onProgress } = params;
+  const phases = ANALYSIS_PHASES.filter(
+    (phase) => (phase !== 'linker-map' || mapPath) && (phase !== 'flash-image' || hexPath),
+  );
+  // Cancellation takes effect between phases; a toolchain command in flight is killed right away.
+  const startPhase = (phase: AnalysisPhase): void => {
+    if (signal?.aborted) {
+      throw new Error('Analysis cancelled.');
+    }
+    onProgress?.({ phase, step: phases.indexOf(phase) + 1, totalSteps: phases.length });
+  };
+
   const toolchain = await resolveToolchain(params);
-  const memoryMap = await loadMemoryMap(targetId);
+  const memoryMap = await loadMemoryMap(targetId, { baseDir: configDir });
 
   const analysis = createEmptyAnalysis();
 
@@ -38,56 +55,33 @@ export const analyzeBuild = async (params: AnalyzeBuildParams): Promise<Analysis
   analysis.build = {
     elfPath: path.resolve(elfPath),
     mapPath: mapPath ? path.resolve(mapPath) : undefined,
+    hexPath: hexPath ? path.resolve(hexPath) : undefined,
     timestamp: new Date().toISOString(),
   };
   analysis.config = memoryMap;
 
-  const sectionsResult = await runCommand(toolchain.readelf, ['-S', analysis.build.elfPath]);
-  if (sectionsResult.exitCode !== 0) {
-    throw new Error(
-      `Failed to read section headers from ELF.\nCommand: ${toolchain.readelf} -S ${analysis.build.elfPath}\n${sectionsResult.stderr.trim()}`,
-    );
-  }
-
-  const sections = parseReadelfSections(sectionsResult.stdout);
-
-  const objdumpResult = await runCommand(toolchain.objdump, ['-h', analysis.build.elfPath]);
-  if (objdumpResult.exitCode !== 0) {
-    throw new Error(
-      `Failed to read load addresses from ELF.\nCommand: ${toolchain.objdump} -h ${analysis.build.elfPath}\n${objdumpResult.stderr.trim()}`,
-    );
-  }
-
-  const objdumpSections = parseObjdumpSectionHeaders(objdumpResult.stdout);
-  sections.forEach((section) => {
-    const info = objdumpSections.get(section.name);
-    if (info) {
-      section.lmaStart = info.lma;
-    }
-  });
+  startPhase('read-elf');
+  const elf = await readElfFile(analysis.build.elfPath);
+  analysis.build.buildId = elf.buildId;
 
+  startPhase('section-classification');
+  const sections = buildSectionsFromElf(elf);
   const categorizedSections = applySectionCategories(sections, memoryMap.sectionRules);
   const sectionAssignments = assignBlocksToSections(categorizedSections, memoryMap.logicalBlocks);
   analysis.sections = sectionAssignments;
+  analysis.segments = buildSegmentsFromElf(elf);
 
-  const nmResult = await runCommand(toolchain.nm, [
-    '--print-size',
-    '--size-sort',
-    '--numeric-sort',
-    '--demangle',
-    '--line-numbers',
-    analysis.build.elfPath,
-  ]);
-  if (nmResult.exitCode !== 0) {
-    throw new Error(
-      `Failed to read symbols from ELF.\nCommand: ${toolchain.nm} --print-size --size-sort --numeric-sort --demangle ${analysis.build.elfPath}\n${nmResult.stderr.trim()}`,
-    );
-  }
+  startPhase('symbols');
+  const symbolTable = buildSymbolTableFromElf(elf);
+  const toolchainWarnings = await applyToolchainExtras(symbolTable, toolchain, signal);
+  toolchainWarnings.forEach((warning) => {
+    // eslint-disable-next-line no-console
+    console.warn(warning);
+  });
 
-  const nmSymbols = parseNmOutput(nmResult.stdout);
-  const symbolAssignment = assignSymbolsToSections(nmSymbols, analysis.sections);
+  startPhase('symbol-assignment');
+  const symbolAssignment = assignSymbolsToSections(symbolTable, analysis.sections);
   analysis.symbols = symbolAssignment.symbols;
-  analysis.templateGroups = buildTemplateGroups(analysis.symbols);
 
   if (symbolAssignment.warnings.length > 0) {
     symbolAssignment.warnings.forEach((warning) => {
@@ -96,5 +90,36 @@ export const analyzeBuild = async (params: AnalyzeBuildParams): Promise<Analysis
     });
   }
 
+  startPhase('debug-info');
+  try {
+    const dwarf = readDwarfFromElf(elf);
+    if (dwarf) {
+      analysis.compileUnits = applyDebugInfo(analysis.symbols, dwarf);
+      params.onSourceLines?.(createSourceLineResolver(readLineTable(elf, dwarf), elf.machine === EM_ARM));
+    }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.warn(`Failed to read DWARF debug information: ${(error as Error).message} Symbols will not carry source locations.`);
+  }
+
+  if (analysis.build.mapPath) {
+    startPhase('linker-map');
+    analysis.linkerMap = await readLinkerMapFile(analysis.build.mapPath);
+    attachLinkerMap(analysis.linkerMap, analysis.sections, analysis.symbols).forEach((warning) => {
+      // eslint-disable-next-line no-console
+      console.warn(warning);
+    });
+  }
+
+  startPhase('symbol-classification');
+  applySymbolCategories(analysis.symbols, analysis.linkerMap);
+  analysis.templateGroups = buildTemplateGroups(analysis.symbols);
+
+  if (analysis.build.hexPath) {
+    startPhase('flash-image');
+    const hex = await readIntelHexFile(analysis.build.hexPath);
+    analysis.flashImage = checkFlashImage(hex, elf, analysis.sections, memoryMap.addressWindows);
+  }
+
   return analysis;
 };
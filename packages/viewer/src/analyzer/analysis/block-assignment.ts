@@ -12,7 +12,8 @@ const toAddressType = (role: LogicalBlock['role']): AddressUsageKind => {
 
 const resolveAddressForAssignment = (section: Section, addressType: AddressUsageKind): number => {
   if (addressType === 'load') {
-    if (section.lmaStart !== undefined && section.lmaStart !== 0) {
+    // Address 0 is a real load address on targets such as ITCM, so only a missing LMA falls back.
+    if (section.lmaStart !== undefined) {
       return section.lmaStart;
     }
     if (section.vmaStart !== undefined) {
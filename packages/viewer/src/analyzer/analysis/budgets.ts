@@ -0,0 +1,203 @@
+import {
+  Analysis,
+  BudgetCheckEntry,
+  BudgetCheckResult,
+  BudgetScope,
+  BudgetStatus,
+  MemoryBudget,
+  Summaries,
+  Symbol as AnalyzerSymbol,
+  TeensySizeReportSummary,
+} from '../model';
+
+const STATUS_RANK: Record<BudgetStatus, number> = { ok: 0, warning: 1, exceeded: 2 };
+
+interface Measurement {
+  scope: BudgetScope;
+  subject: string;
+  usedBytes: number;
+  symbolIds?: string[];
+  hardwareBankId?: string;
+  windowIds?: string[];
+}
+
+const describeBudget = (budget: MemoryBudget, index: number): string => budget.id ?? `budgets[${index}]`;
+
+const resolveScope = (budget: MemoryBudget, budgetId: string): BudgetScope => {
+  const scopes: BudgetScope[] = [];
+  if (budget.hardwareBankId !== undefined) {
+    scopes.push('hardwareBank');
+  }
+  if (budget.logicalBlockId !== undefined) {
+    scopes.push('logicalBlock');
+  }
+  if (budget.reportBucket !== undefined) {
+    scopes.push('reportBucket');
+  }
+  if (budget.symbolPattern !== undefined) {
+    scopes.push('symbolPattern');
+  }
+  if (scopes.length !== 1) {
+    throw new Error(
+      `Budget ${budgetId} must set exactly one of hardwareBankId, logicalBlockId, reportBucket or symbolPattern.`,
+    );
+  }
+  return scopes[0];
+};
+
+const resolveWarnBytes = (budget: MemoryBudget): number | undefined => {
+  if (budget.warnBytes !== undefined) {
+    return budget.warnBytes;
+  }
+  if (budget.warnPercent !== undefined) {
+    return Math.floor((budget.maxBytes * budget.warnPercent) / 100);
+  }
+  return undefined;
+};
+
+const classify = (usedBytes: number, maxBytes: number, warnBytes: number | undefined): BudgetStatus => {
+  if (usedBytes > maxBytes) {
+    return 'exceeded';
+  }
+  if (warnBytes !== undefined && usedBytes >= warnBytes) {
+    return 'warning';
+  }
+  return 'ok';
+};
+
+const measureHardwareBank = (analysis: Analysis, summaries: Summaries, bankId: string, budgetId: string): Measurement => {
+  const bank = summaries.hardwareBanks.find((entry) => entry.hardwareBankId === bankId);
+  if (!bank) {
+    throw new Error(`Budget ${budgetId} references unknown hardware bank ${bankId}.`);
+  }
+  return {
+    scope: 'hardwareBank',
+    subject: bank.name,
+    // Rounded usage, so FASTRUN granules count the way the bank is actually carved up.
+    usedBytes: bank.adjustedUsedBytes,
+    hardwareBankId: bankId,
+    windowIds: analysis.config.hardwareBanks.find((entry) => entry.id === bankId)?.windowIds,
+  };
+};
+
+const measureLogicalBlock = (analysis: Analysis, summaries: Summaries, blockId: string, budgetId: string): Measurement => {
+  const block = analysis.config.logicalBlocks.find((entry) => entry.id === blockId);
+  if (!block) {
+    throw new Error(`Budget ${budgetId} references unknown logical block ${blockId}.`);
+  }
+  const usedBytes = summaries.byWindow.reduce(
+    (total, window) =>
+      total + window.byBlock.filter((entry) => entry.blockId === blockId).reduce((sum, entry) => sum + entry.bytes, 0),
+    0,
+  );
+  return { scope: 'logicalBlock', subject: block.name, usedBytes, windowIds: [block.windowId] };
+};
+
+const measureReportBucket = (
+  analysis: Analysis,
+  report: TeensySizeReportSummary,
+  reportBucket: NonNullable<MemoryBudget['reportBucket']>,
+  budgetId: string,
+): Measurement => {
+  const entry = report[reportBucket.reportId];
+  if (!entry) {
+    throw new Error(`Budget ${budgetId} references unknown report ${reportBucket.reportId}.`);
+  }
+  const usedBytes = entry.bucketTotals[reportBucket.bucket];
+  if (usedBytes === undefined) {
+    throw new Error(`Budget ${budgetId} references unknown bucket ${reportBucket.bucket} of report ${reportBucket.reportId}.`);
+  }
+  return {
+    scope: 'reportBucket',
+    subject: `${reportBucket.reportId} ${reportBucket.bucket}`,
+    usedBytes,
+    hardwareBankId: entry.hardwareBankId,
+    windowIds: analysis.config.hardwareBanks.find((bank) => bank.id === entry.hardwareBankId)?.windowIds,
+  };
+};
+
+const compilePattern = (pattern: string, budgetId: string): RegExp => {
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    throw new Error(`Budget ${budgetId} has an invalid symbolPattern: ${(error as Error).message}`);
+  }
+};
+
+const measureSymbols = (pattern: string, symbols: AnalyzerSymbol[]): Measurement => ({
+  scope: 'symbolPattern',
+  subject: `symbols matching /${pattern}/`,
+  usedBytes: symbols.reduce((total, symbol) => total + symbol.size, 0),
+  symbolIds: symbols.map((symbol) => symbol.id),
+  windowIds: Array.from(new Set(symbols.flatMap((symbol) => (symbol.windowId ? [symbol.windowId] : [])))),
+});
+
+const measureBudget = (
+  budget: MemoryBudget,
+  budgetId: string,
+  analysis: Analysis,
+  summaries: Summaries,
+  report: TeensySizeReportSummary,
+): Measurement[] => {
+  switch (resolveScope(budget, budgetId)) {
+    case 'hardwareBank':
+      return [measureHardwareBank(analysis, summaries, budget.hardwareBankId as string, budgetId)];
+    case 'logicalBlock':
+      return [measureLogicalBlock(analysis, summaries, budget.logicalBlockId as string, budgetId)];
+    case 'reportBucket':
+      return [measureReportBucket(analysis, report, budget.reportBucket as NonNullable<MemoryBudget['reportBucket']>, budgetId)];
+    case 'symbolPattern':
+    default: {
+      const pattern = budget.symbolPattern as string;
+      const regex = compilePattern(pattern, budgetId);
+      const matching = analysis.symbols.filter((symbol) => regex.test(symbol.name) || regex.test(symbol.nameMangled));
+      if (!budget.perSymbol) {
+        return [measureSymbols(pattern, matching)];
+      }
+      return matching.map((symbol) => ({ ...measureSymbols(pattern, [symbol]), subject: symbol.name }));
+    }
+  }
+};
+
+const formatLabel = (budget: MemoryBudget, measurement: Measurement): string => {
+  if (!budget.label) {
+    return measurement.subject;
+  }
+  return budget.perSymbol ? `${budget.label}: ${measurement.subject}` : budget.label;
+};
+
+/**
+ * Evaluates the target's `budgets` against an analysis. Budgets that reference ids the config does
+ * not define throw, like report entries do; everything else yields one entry per measured subject
+ * (one per matching symbol for `perSymbol` budgets), ordered worst first.
+ */
+export const checkBudgets = (
+  analysis: Analysis,
+  summaries: Summaries,
+  report: TeensySizeReportSummary,
+  budgets: MemoryBudget[] = analysis.config.budgets ?? [],
+): BudgetCheckResult => {
+  const entries: BudgetCheckEntry[] = budgets.flatMap((budget, index) => {
+    const budgetId = describeBudget(budget, index);
+    const warnBytes = resolveWarnBytes(budget);
+    return measureBudget(budget, budgetId, analysis, summaries, report).map((measurement) => ({
+      budgetId,
+      label: formatLabel(budget, measurement),
+      scope: measurement.scope,
+      usedBytes: measurement.usedBytes,
+      maxBytes: budget.maxBytes,
+      warnBytes,
+      status: classify(measurement.usedBytes, budget.maxBytes, warnBytes),
+      symbolIds: measurement.symbolIds,
+      hardwareBankId: measurement.hardwareBankId,
+      windowIds: measurement.windowIds,
+    }));
+  });
+
+  entries.sort((a, b) => STATUS_RANK[b.status] - STATUS_RANK[a.status]);
+  const status = entries.reduce<BudgetStatus>(
+    (worst, entry) => (STATUS_RANK[entry.status] > STATUS_RANK[worst] ? entry.status : worst),
+    'ok',
+  );
+  return { status, entries };
+};
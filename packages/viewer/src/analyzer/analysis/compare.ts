@@ -0,0 +1,281 @@
+import {
+  Analysis,
+  AnalysisComparison,
+  SizeDelta,
+  Summaries,
+  Symbol as AnalyzerSymbol,
+  SymbolComparison,
+  SymbolMatchKind,
+  SymbolSnapshot,
+} from '../model';
+import { generateSummaries } from './summaries';
+
+export interface CompareAnalysesOptions {
+  beforeSummaries?: Summaries;
+  afterSummaries?: Summaries;
+}
+
+// GCC appends these when it clones or splits a function (`foo.constprop.0`, `bar.isra.0.part.1`, `baz.cold`).
+const CLONE_SUFFIX_REGEX = /(?:\.(?:constprop|isra|part|cold|lto_priv|localalias)(?:\.\d+)?)+$/;
+
+export const stripCloneSuffix = (mangledName: string): string => mangledName.replace(CLONE_SUFFIX_REGEX, '');
+
+const toSnapshot = (symbol: AnalyzerSymbol): SymbolSnapshot => ({
+  symbolId: symbol.id,
+  name: symbol.name,
+  nameMangled: symbol.nameMangled,
+  size: symbol.size,
+  addr: symbol.addr,
+  windowId: symbol.windowId,
+  sectionId: symbol.sectionId,
+});
+
+const groupBy = <T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const key = keyOf(item);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  });
+  return groups;
+};
+
+const createObjectPathLookup = (analysis: Analysis): ((symbol: AnalyzerSymbol) => string) => {
+  const pathById = new Map((analysis.linkerMap?.objectFiles ?? []).map((file) => [file.id, file.path] as const));
+  return (symbol) => (symbol.objectFileId ? pathById.get(symbol.objectFileId) ?? '' : '');
+};
+
+interface MatchState {
+  pairs: Array<{ before: AnalyzerSymbol; after: AnalyzerSymbol; matchedBy: SymbolMatchKind }>;
+  unmatchedBefore: AnalyzerSymbol[];
+  unmatchedAfter: AnalyzerSymbol[];
+}
+
+/**
+ * Pairs symbols sharing a key. Local symbols often share a name (`_ZL6buffer` in several files), so
+ * candidates are narrowed by defining object file first and the leftovers are paired in address order.
+ */
+const matchByKey = (
+  before: AnalyzerSymbol[],
+  after: AnalyzerSymbol[],
+  keyOf: (symbol: AnalyzerSymbol) => string,
+  objectPathBefore: (symbol: AnalyzerSymbol) => string,
+  objectPathAfter: (symbol: AnalyzerSymbol) => string,
+  matchedBy: SymbolMatchKind,
+): MatchState => {
+  const state: MatchState = { pairs: [], unmatchedBefore: [], unmatchedAfter: [] };
+  const afterByKey = groupBy(after, keyOf);
+
+  groupBy(before, keyOf).forEach((beforeGroup, key) => {
+    const afterGroup = afterByKey.get(key) ?? [];
+    afterByKey.delete(key);
+    if (beforeGroup.length === 1 && afterGroup.length === 1) {
+      state.pairs.push({ before: beforeGroup[0], after: afterGroup[0], matchedBy });
+      return;
+    }
+
+    const afterByObject = groupBy(afterGroup, objectPathAfter);
+    const leftoverBefore: AnalyzerSymbol[] = [];
+    groupBy(beforeGroup, objectPathBefore).forEach((candidates, objectPath) => {
+      const counterparts = afterByObject.get(objectPath) ?? [];
+      if (candidates.length === 1 && counterparts.length === 1) {
+        state.pairs.push({ before: candidates[0], after: counterparts[0], matchedBy });
+        afterByObject.delete(objectPath);
+      } else {
+        leftoverBefore.push(...candidates);
+      }
+    });
+
+    const byAddress = (a: AnalyzerSymbol, b: AnalyzerSymbol) => a.addr - b.addr;
+    const remainingBefore = leftoverBefore.sort(byAddress);
+    const remainingAfter = Array.from(afterByObject.values()).flat().sort(byAddress);
+    const pairCount = Math.min(remainingBefore.length, remainingAfter.length);
+    for (let index = 0; index < pairCount; index += 1) {
+      state.pairs.push({ before: remainingBefore[index], after: remainingAfter[index], matchedBy });
+    }
+    state.unmatchedBefore.push(...remainingBefore.slice(pairCount));
+    state.unmatchedAfter.push(...remainingAfter.slice(pairCount));
+  });
+
+  afterByKey.forEach((afterGroup) => state.unmatchedAfter.push(...afterGroup));
+  return state;
+};
+
+const byMagnitude = (a: SymbolComparison, b: SymbolComparison) =>
+  Math.abs(b.deltaBytes) - Math.abs(a.deltaBytes) || a.name.localeCompare(b.name);
+
+const compareSymbols = (before: Analysis, after: Analysis): AnalysisComparison['symbols'] => {
+  // Zero-sized labels and section markers carry no cost and only add noise to the lists.
+  const sized = (symbols: AnalyzerSymbol[]) => symbols.filter((symbol) => symbol.size > 0);
+  const objectPathBefore = createObjectPathLookup(before);
+  const objectPathAfter = createObjectPathLookup(after);
+
+  const exact = matchByKey(
+    sized(before.symbols),
+    sized(after.symbols),
+    (symbol) => symbol.nameMangled,
+    objectPathBefore,
+    objectPathAfter,
+    'mangledName',
+  );
+  const clones = matchByKey(
+    exact.unmatchedBefore,
+    exact.unmatchedAfter,
+    (symbol) => stripCloneSuffix(symbol.nameMangled),
+    objectPathBefore,
+    objectPathAfter,
+    'cloneBase',
+  );
+
+  const result: AnalysisComparison['symbols'] = {
+    added: clones.unmatchedAfter.map((symbol) => ({ name: symbol.name, after: toSnapshot(symbol), deltaBytes: symbol.size })),
+    removed: clones.unmatchedBefore.map((symbol) => ({
+      name: symbol.name,
+      before: toSnapshot(symbol),
+      deltaBytes: -symbol.size,
+    })),
+    grown: [],
+    shrunk: [],
+    movedWindow: [],
+    unchangedCount: 0,
+  };
+
+  [...exact.pairs, ...clones.pairs].forEach((pair) => {
+    const entry: SymbolComparison = {
+      name: pair.after.name,
+      before: toSnapshot(pair.before),
+      after: toSnapshot(pair.after),
+      deltaBytes: pair.after.size - pair.before.size,
+      matchedBy: pair.matchedBy,
+    };
+    const moved = pair.before.windowId !== pair.after.windowId;
+    if (entry.deltaBytes > 0) {
+      result.grown.push(entry);
+    } else if (entry.deltaBytes < 0) {
+      result.shrunk.push(entry);
+    }
+    if (moved) {
+      result.movedWindow.push(entry);
+    }
+    if (entry.deltaBytes === 0 && !moved) {
+      result.unchangedCount += 1;
+    }
+  });
+
+  result.added.sort(byMagnitude);
+  result.removed.sort(byMagnitude);
+  result.grown.sort(byMagnitude);
+  result.shrunk.sort(byMagnitude);
+  result.movedWindow.sort((a, b) => (b.after?.size ?? 0) - (a.after?.size ?? 0) || a.name.localeCompare(b.name));
+  return result;
+};
+
+const createDelta = (id: string, label: string, beforeBytes: number, afterBytes: number): SizeDelta => ({
+  id,
+  label,
+  beforeBytes,
+  afterBytes,
+  deltaBytes: afterBytes - beforeBytes,
+});
+
+/**
+ * Builds one delta per id present on either side, keeping the after build's order and appending ids
+ * that only the before build had. Missing sides count as zero bytes.
+ */
+const diffEntries = <T>(
+  beforeEntries: T[],
+  afterEntries: T[],
+  idOf: (entry: T) => string,
+  bytesOf: (entry: T) => number,
+  labelOf: (entry: T) => string,
+): SizeDelta[] => {
+  const beforeById = new Map(beforeEntries.map((entry) => [idOf(entry), entry] as const));
+  const afterById = new Map(afterEntries.map((entry) => [idOf(entry), entry] as const));
+  const ids = [...afterById.keys(), ...[...beforeById.keys()].filter((id) => !afterById.has(id))];
+
+  return ids.map((id) => {
+    const beforeEntry = beforeById.get(id);
+    const afterEntry = afterById.get(id);
+    return createDelta(
+      id,
+      labelOf((afterEntry ?? beforeEntry) as T),
+      beforeEntry ? bytesOf(beforeEntry) : 0,
+      afterEntry ? bytesOf(afterEntry) : 0,
+    );
+  });
+};
+
+/**
+ * Compares two analyses of the same target — typically the builds before and after a commit. Symbols
+ * are matched by mangled name, then by mangled name with GCC clone suffixes stripped, so a function
+ * that became `foo.constprop.0` is reported as changed rather than removed and re-added.
+ */
+export const compareAnalyses = (
+  before: Analysis,
+  after: Analysis,
+  options: CompareAnalysesOptions = {},
+): AnalysisComparison => {
+  const beforeSummaries = options.beforeSummaries ?? generateSummaries(before);
+  const afterSummaries = options.afterSummaries ?? generateSummaries(after);
+
+  const windowNames = new Map(
+    [...before.config.addressWindows, ...after.config.addressWindows].map((window) => [window.id, window.name] as const),
+  );
+
+  return {
+    totals: {
+      runtime: createDelta(
+        'runtime',
+        'Runtime',
+        beforeSummaries.totals.runtimeBytes,
+        afterSummaries.totals.runtimeBytes,
+      ),
+      loadImage: createDelta(
+        'loadImage',
+        'Load image',
+        beforeSummaries.totals.loadImageBytes,
+        afterSummaries.totals.loadImageBytes,
+      ),
+      fileOnly: createDelta(
+        'fileOnly',
+        'File only',
+        beforeSummaries.totals.fileOnlyBytes,
+        afterSummaries.totals.fileOnlyBytes,
+      ),
+    },
+    symbols: compareSymbols(before, after),
+    windows: diffEntries(
+      beforeSummaries.byWindow,
+      afterSummaries.byWindow,
+      (window) => window.windowId,
+      (window) => window.totalBytes,
+      (window) => windowNames.get(window.windowId) ?? window.windowId,
+    ),
+    hardwareBanks: diffEntries(
+      beforeSummaries.hardwareBanks,
+      afterSummaries.hardwareBanks,
+      (bank) => bank.hardwareBankId,
+      (bank) => bank.adjustedUsedBytes,
+      (bank) => bank.name,
+    ),
+    tagBuckets: diffEntries(
+      beforeSummaries.tagTotals,
+      afterSummaries.tagTotals,
+      (entry) => entry.tag,
+      (entry) => entry.bytes,
+      (entry) => entry.tag,
+    ),
+    // Non-template symbols each get a singleton group; those are already covered by the symbol lists.
+    templateGroups: diffEntries(
+      before.templateGroups.filter((group) => group.isTemplate),
+      after.templateGroups.filter((group) => group.isTemplate),
+      (group) => group.id,
+      (group) => group.totals.sizeBytes,
+      (group) => group.displayName,
+    ),
+  };
+};
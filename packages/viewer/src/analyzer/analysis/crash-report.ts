@@ -0,0 +1,42 @@
+export interface CrashReportAddress {
+  address: number;
+  /** What the address is, from the text around it, e.g. `faulting instruction`. */
+  label: string;
+  /** The report line the address was found on, trimmed. */
+  line: string;
+}
+
+const HEX_ADDRESS_REGEX = /0x([0-9a-f]+)/gi;
+
+const LINE_LABELS: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /executing from address|check code at|addr2line/i, label: 'faulting instruction' },
+  { pattern: /accessed address/i, label: 'accessed data' },
+];
+
+// Breadcrumbs are user-chosen values printed in decimal and hex; they are not addresses.
+const IGNORED_LINE_REGEX = /breadcrumb/i;
+
+/**
+ * Pulls the addresses out of the text Teensy's `CrashReport` prints (for example
+ * `Code was executing from address 0x1A2` and `(BFARVALID) Accessed Address: 0x20001000`). Other
+ * output around the report is tolerated; each address is returned once, labelled by its first mention.
+ */
+export const parseCrashReport = (text: string): CrashReportAddress[] => {
+  const addresses = new Map<number, CrashReportAddress>();
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (IGNORED_LINE_REGEX.test(line)) {
+      return;
+    }
+    const label = LINE_LABELS.find((entry) => entry.pattern.test(line))?.label ?? 'address';
+    for (const match of line.matchAll(HEX_ADDRESS_REGEX)) {
+      const address = Number.parseInt(match[1], 16);
+      if (Number.isFinite(address) && !addresses.has(address)) {
+        addresses.set(address, { address, label, line });
+      }
+    }
+  });
+
+  return Array.from(addresses.values());
+};
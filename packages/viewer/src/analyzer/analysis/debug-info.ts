@@ -0,0 +1,129 @@
+import { CompileUnit, SourceLocation, Symbol as AnalyzerSymbol } from '../model';
+import { DwarfEntry, DwarfInfo } from '../parsers/dwarf';
+
+// Out-of-line instances point at an abstract instance, which may in turn point at an in-class declaration.
+const MAX_REFERENCE_DEPTH = 8;
+
+const indexByAddress = (entries: DwarfEntry[], addressOf: (entry: DwarfEntry) => number | undefined): Map<number, DwarfEntry[]> => {
+  const index = new Map<number, DwarfEntry[]>();
+  entries.forEach((entry) => {
+    const address = addressOf(entry);
+    if (address === undefined || entry.isDeclaration) {
+      return;
+    }
+    const bucket = index.get(address);
+    if (bucket) {
+      bucket.push(entry);
+    } else {
+      index.set(address, [entry]);
+    }
+  });
+  return index;
+};
+
+/**
+ * Attaches compile units, declaration locations and inlining relationships from DWARF to symbols,
+ * matching functions by entry address and variables by their static location. Returns the compile
+ * units referenced by `Symbol.compileUnitId`.
+ */
+export const applyDebugInfo = (symbols: AnalyzerSymbol[], dwarf: DwarfInfo): CompileUnit[] => {
+  const compileUnits: CompileUnit[] = dwarf.units.map((unit, index) => ({
+    id: `cu_${index}`,
+    name: unit.name ?? `<unit at 0x${unit.offset.toString(16)}>`,
+    compDir: unit.compDir,
+    producer: unit.producer,
+  }));
+
+  const entriesByOffset = new Map(dwarf.entries.map((entry) => [entry.offset, entry] as const));
+  const functionsByAddress = indexByAddress(
+    dwarf.entries.filter((entry) => entry.tag === 'subprogram'),
+    (entry) => entry.lowPc,
+  );
+  const variablesByAddress = indexByAddress(
+    dwarf.entries.filter((entry) => entry.tag === 'variable'),
+    (entry) => entry.address,
+  );
+
+  const followReferences = <T>(entry: DwarfEntry, pick: (candidate: DwarfEntry) => T | undefined): T | undefined => {
+    let current: DwarfEntry | undefined = entry;
+    for (let depth = 0; current && depth < MAX_REFERENCE_DEPTH; depth += 1) {
+      const value = pick(current);
+      if (value !== undefined) {
+        return value;
+      }
+      const next: number | undefined = current.abstractOriginOffset ?? current.specificationOffset;
+      current = next !== undefined ? entriesByOffset.get(next) : undefined;
+    }
+    return undefined;
+  };
+
+  const resolveOrigin = (entry: DwarfEntry): number => {
+    let current = entry;
+    for (let depth = 0; depth < MAX_REFERENCE_DEPTH; depth += 1) {
+      const nextOffset = current.abstractOriginOffset ?? current.specificationOffset;
+      const next = nextOffset !== undefined ? entriesByOffset.get(nextOffset) : undefined;
+      if (!next) {
+        break;
+      }
+      current = next;
+    }
+    return current.offset;
+  };
+
+  // A definition usually carries its own decl_line but inherits decl_file from the declaration it completes.
+  const resolveSource = (entry: DwarfEntry): SourceLocation | undefined => {
+    const file = followReferences(entry, (candidate) => candidate.declFile);
+    const line = followReferences(entry, (candidate) => candidate.declLine);
+    return file && line ? { file, line } : undefined;
+  };
+
+  const selectEntry = (candidates: DwarfEntry[], symbol: AnalyzerSymbol): DwarfEntry => {
+    if (candidates.length === 1) {
+      return candidates[0];
+    }
+    const named = candidates.find(
+      (candidate) => followReferences(candidate, (entry) => entry.linkageName ?? entry.name) === symbol.nameMangled,
+    );
+    return named ?? candidates[0];
+  };
+
+  const symbolIdByConcreteOffset = new Map<number, string>();
+  const symbolsByOrigin = new Map<number, AnalyzerSymbol[]>();
+
+  symbols.forEach((symbol) => {
+    const primary = symbol.kind === 'func' ? functionsByAddress : variablesByAddress;
+    const fallback = symbol.kind === 'func' ? variablesByAddress : functionsByAddress;
+    const candidates = primary.get(symbol.addr) ?? fallback.get(symbol.addr);
+    if (!candidates) {
+      return;
+    }
+
+    const entry = selectEntry(candidates, symbol);
+    symbol.compileUnitId = compileUnits[entry.unitIndex]?.id;
+    symbol.source = resolveSource(entry) ?? symbol.source;
+
+    if (entry.tag === 'subprogram') {
+      symbolIdByConcreteOffset.set(entry.offset, symbol.id);
+      const origin = resolveOrigin(entry);
+      symbolsByOrigin.set(origin, [...(symbolsByOrigin.get(origin) ?? []), symbol]);
+    }
+  });
+
+  dwarf.entries.forEach((entry) => {
+    if (entry.tag !== 'inlinedSubroutine' || entry.enclosingSubprogramOffset === undefined) {
+      return;
+    }
+    const hostId = symbolIdByConcreteOffset.get(entry.enclosingSubprogramOffset);
+    if (!hostId) {
+      return;
+    }
+    (symbolsByOrigin.get(resolveOrigin(entry)) ?? []).forEach((symbol) => {
+      if (symbol.id === hostId || symbol.inlinedInto?.includes(hostId)) {
+        return;
+      }
+      symbol.inlinedInto = [...(symbol.inlinedInto ?? []), hostId];
+    });
+  });
+
+  return compileUnits;
+};
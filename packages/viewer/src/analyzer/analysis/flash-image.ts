@@ -0,0 +1,183 @@
+import {
+  AddressWindow,
+  FlashImage,
+  FlashImageFillRange,
+  FlashImageMismatch,
+  FlashImageMismatchKind,
+  FlashImageRange,
+  Section,
+} from '../model';
+import { ElfFile, getSectionData, toSectionId } from '../parsers/elf';
+import { IntelHexChunk, IntelHexImage } from '../parsers/hex';
+
+const MAX_REPORTED_MISMATCHES = 64;
+
+interface ExpectedPlacement {
+  sectionId: string;
+  address: number;
+  data: Buffer;
+}
+
+const windowContains = (window: AddressWindow, address: number): boolean =>
+  window.baseAddress !== undefined &&
+  window.sizeBytes !== undefined &&
+  address >= window.baseAddress &&
+  address < window.baseAddress + window.sizeBytes;
+
+const findChunk = (chunks: IntelHexChunk[], address: number): IntelHexChunk | undefined => {
+  let low = 0;
+  let high = chunks.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >>> 1;
+    const chunk = chunks[mid];
+    if (address < chunk.address) {
+      high = mid - 1;
+    } else if (address >= chunk.address + chunk.data.length) {
+      low = mid + 1;
+    } else {
+      return chunk;
+    }
+  }
+  return undefined;
+};
+
+const byteAt = (chunks: IntelHexChunk[], address: number): number | undefined => {
+  const chunk = findChunk(chunks, address);
+  return chunk ? chunk.data[address - chunk.address] : undefined;
+};
+
+/**
+ * Subtracts the (sorted, possibly overlapping) covered ranges from a chunk, returning the bytes the
+ * HEX programs that no ELF section accounts for.
+ */
+const uncoveredRanges = (chunk: IntelHexChunk, covered: FlashImageRange[]): FlashImageRange[] => {
+  const ranges: FlashImageRange[] = [];
+  const chunkEnd = chunk.address + chunk.data.length;
+  let cursor = chunk.address;
+
+  covered.forEach((range) => {
+    const rangeEnd = range.start + range.size;
+    if (rangeEnd <= cursor || range.start >= chunkEnd) {
+      return;
+    }
+    if (range.start > cursor) {
+      ranges.push({ start: cursor, size: range.start - cursor });
+    }
+    cursor = Math.max(cursor, rangeEnd);
+  });
+
+  if (cursor < chunkEnd) {
+    ranges.push({ start: cursor, size: chunkEnd - cursor });
+  }
+  return ranges;
+};
+
+const describeFill = (chunk: IntelHexChunk, range: FlashImageRange): FlashImageFillRange => {
+  const bytes = chunk.data.subarray(range.start - chunk.address, range.start - chunk.address + range.size);
+  const first = bytes[0];
+  return { ...range, fillByte: bytes.every((byte) => byte === first) ? first : undefined };
+};
+
+/**
+ * Rebuilds what the ELF says should be flashed (every section assignment inside the windows the HEX
+ * covers, at its load address) and compares it byte-for-byte with the HEX image.
+ */
+export const checkFlashImage = (
+  hex: IntelHexImage,
+  elf: ElfFile,
+  sections: Section[],
+  windows: AddressWindow[],
+): FlashImage => {
+  const imageWindows = windows.filter((window) => hex.chunks.some((chunk) => windowContains(window, chunk.address)));
+  const imageWindowIds = new Set(imageWindows.map((window) => window.id));
+  const headersById = new Map(elf.sections.map((header) => [toSectionId(header), header] as const));
+
+  const placements = new Map<string, ExpectedPlacement>();
+  sections.forEach((section) => {
+    const header = headersById.get(section.id);
+    if (!header) {
+      return;
+    }
+    section.blockAssignments
+      .filter((assignment) => imageWindowIds.has(assignment.windowId))
+      .forEach((assignment) => {
+        const data = getSectionData(elf, header);
+        if (data.length > 0) {
+          placements.set(`${section.id}:${assignment.address}`, { sectionId: section.id, address: assignment.address, data });
+        }
+      });
+  });
+
+  const mismatches: FlashImageMismatch[] = [];
+  let missingBytes = 0;
+  let differingBytes = 0;
+  let expectedBytes = 0;
+
+  placements.forEach((placement) => {
+    expectedBytes += placement.data.length;
+    let runKind: FlashImageMismatchKind | undefined;
+    let runStart = 0;
+
+    const flush = (end: number): void => {
+      if (!runKind) {
+        return;
+      }
+      const size = end - runStart;
+      if (runKind === 'missing') {
+        missingBytes += size;
+      } else {
+        differingBytes += size;
+      }
+      if (mismatches.length < MAX_REPORTED_MISMATCHES) {
+        mismatches.push({ kind: runKind, sectionId: placement.sectionId, start: placement.address + runStart, size });
+      }
+    };
+
+    for (let offset = 0; offset < placement.data.length; offset += 1) {
+      const actual = byteAt(hex.chunks, placement.address + offset);
+      let kind: FlashImageMismatchKind | undefined;
+      if (actual === undefined) {
+        kind = 'missing';
+      } else if (actual !== placement.data[offset]) {
+        kind = 'different';
+      }
+      if (kind !== runKind) {
+        flush(offset);
+        runKind = kind;
+        runStart = offset;
+      }
+    }
+    flush(placement.data.length);
+  });
+
+  const covered = Array.from(placements.values())
+    .map((placement) => ({ start: placement.address, size: placement.data.length }))
+    .sort((a, b) => a.start - b.start);
+
+  const ranges: FlashImageRange[] = hex.chunks.map((chunk) => ({ start: chunk.address, size: chunk.data.length }));
+  const gaps: FlashImageRange[] = [];
+  ranges.forEach((range, index) => {
+    const next = ranges[index + 1];
+    if (next) {
+      gaps.push({ start: range.start + range.size, size: next.start - (range.start + range.size) });
+    }
+  });
+
+  const fill = hex.chunks.flatMap((chunk) =>
+    uncoveredRanges(chunk, covered).map((range) => describeFill(chunk, range)),
+  );
+
+  return {
+    windowIds: imageWindows.map((window) => window.id),
+    ranges,
+    gaps,
+    fill,
+    mismatches,
+    programmedBytes: ranges.reduce((total, range) => total + range.size, 0),
+    expectedBytes,
+    missingBytes,
+    differingBytes,
+    startAddress: hex.startAddress,
+    elfEntryAddress: elf.entry,
+  };
+};
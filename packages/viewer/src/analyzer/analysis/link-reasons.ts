@@ -0,0 +1,118 @@
+import type { Analysis, LinkerArchiveMember, LinkerObjectFile, Symbol as AnalyzerSymbol } from '../model';
+
+export interface LinkReasonStep {
+  objectFileId: string;
+  objectFileName: string;
+  referencedByObjectFileId?: string;
+  referencedByName?: string;
+  symbol: string;
+}
+
+/**
+ * Where a chain ends: an object file handed to the linker directly (`input`), a symbol required by the
+ * linker script or command line (`script`), an archive member ld did not record a reason for
+ * (`unrecorded`, e.g. `--whole-archive`), or a reference loop (`cycle`).
+ */
+export type LinkReasonOrigin = 'input' | 'script' | 'unrecorded' | 'cycle';
+
+export interface LinkReason {
+  objectFileId: string;
+  objectFileName: string;
+  steps: LinkReasonStep[];
+  origin: LinkReasonOrigin;
+  originObjectFileId?: string;
+}
+
+export interface LinkReasonResolver {
+  explainObjectFile(objectFileId: string): LinkReason | null;
+  explainSymbol(symbol: AnalyzerSymbol): LinkReason | null;
+}
+
+export const createLinkReasonResolver = (analysis: Analysis): LinkReasonResolver => {
+  const objectFiles = new Map<string, LinkerObjectFile>(
+    (analysis.linkerMap?.objectFiles ?? []).map((file) => [file.id, file] as const),
+  );
+  const inclusionByObjectFile = new Map<string, LinkerArchiveMember>();
+  (analysis.linkerMap?.archiveMembers ?? []).forEach((member) => {
+    if (!inclusionByObjectFile.has(member.objectFileId)) {
+      inclusionByObjectFile.set(member.objectFileId, member);
+    }
+  });
+
+  const nameOf = (objectFileId: string): string => objectFiles.get(objectFileId)?.displayName ?? objectFileId;
+
+  const explainObjectFile = (objectFileId: string): LinkReason | null => {
+    const objectFile = objectFiles.get(objectFileId);
+    if (!objectFile) {
+      return null;
+    }
+
+    const steps: LinkReasonStep[] = [];
+    const visited = new Set<string>();
+    let currentId: string | undefined = objectFileId;
+
+    while (currentId) {
+      if (visited.has(currentId)) {
+        return { objectFileId, objectFileName: objectFile.displayName, steps, origin: 'cycle', originObjectFileId: currentId };
+      }
+      visited.add(currentId);
+
+      const inclusion = inclusionByObjectFile.get(currentId);
+      if (!inclusion) {
+        const isArchiveMember = Boolean(objectFiles.get(currentId)?.archivePath);
+        return {
+          objectFileId,
+          objectFileName: objectFile.displayName,
+          steps,
+          origin: isArchiveMember ? 'unrecorded' : 'input',
+          originObjectFileId: currentId,
+        };
+      }
+
+      steps.push({
+        objectFileId: currentId,
+        objectFileName: nameOf(currentId),
+        referencedByObjectFileId: inclusion.referencedByObjectFileId,
+        referencedByName: inclusion.referencedByObjectFileId ? nameOf(inclusion.referencedByObjectFileId) : undefined,
+        symbol: inclusion.symbol,
+      });
+      currentId = inclusion.referencedByObjectFileId;
+    }
+
+    return { objectFileId, objectFileName: objectFile.displayName, steps, origin: 'script' };
+  };
+
+  return {
+    explainObjectFile,
+    explainSymbol: (symbol) => (symbol.objectFileId ? explainObjectFile(symbol.objectFileId) : null),
+  };
+};
+
+/**
+ * Renders a reason as a single line, innermost object first, e.g.
+ * `libAudio.a(imxrt_hw.cpp.o) ← libAudio.a(output_i2s.cpp.o) [set_audioClock(...)] ← main.cpp.o [AudioOutputI2S::begin()]`.
+ */
+export const describeLinkReason = (reason: LinkReason): string => {
+  const parts = [reason.objectFileName];
+  reason.steps.forEach((step) => {
+    parts.push(`${step.referencedByName ?? 'linker script'} [${step.symbol}]`);
+  });
+
+  switch (reason.origin) {
+    case 'input':
+      if (reason.steps.length === 0) {
+        parts.push('linker command line');
+      }
+      break;
+    case 'unrecorded':
+      parts.push('(no inclusion reason recorded)');
+      break;
+    case 'cycle':
+      parts.push('(reference cycle)');
+      break;
+    default:
+      break;
+  }
+
+  return parts.join(' ← ');
+};
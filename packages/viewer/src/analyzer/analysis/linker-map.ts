@@ -0,0 +1,61 @@
+import { LinkerInputSection, LinkerMap, Section, Symbol as AnalyzerSymbol } from '../model';
+
+const findContainingInput = (inputs: LinkerInputSection[], address: number): LinkerInputSection | undefined => {
+  let low = 0;
+  let high = inputs.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >>> 1;
+    const input = inputs[mid];
+    if (address < input.address) {
+      high = mid - 1;
+    } else if (address >= input.address + input.size) {
+      low = mid + 1;
+    } else {
+      return input;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Links the parsed map to the ELF view: output sections learn which `Section` they describe, and
+ * symbols learn which input section they live in and which object file contributed it.
+ */
+export const attachLinkerMap = (linkerMap: LinkerMap, sections: Section[], symbols: AnalyzerSymbol[]): string[] => {
+  const warnings: string[] = [];
+  const sectionsByName = new Map(sections.map((section) => [section.name, section] as const));
+  const inputsBySectionId = new Map<string, LinkerInputSection[]>();
+
+  linkerMap.outputSections.forEach((outputSection) => {
+    const section = sectionsByName.get(outputSection.name);
+    if (!section) {
+      if (outputSection.size > 0) {
+        warnings.push(`Linker map output section ${outputSection.name} does not exist in the ELF.`);
+      }
+      return;
+    }
+
+    if (section.vmaStart !== outputSection.address || section.size !== outputSection.size) {
+      warnings.push(
+        `Linker map places ${outputSection.name} at 0x${outputSection.address.toString(16)} (${outputSection.size} bytes) but the ELF has 0x${section.vmaStart.toString(16)} (${section.size} bytes); the map may be stale.`,
+      );
+    }
+
+    outputSection.sectionId = section.id;
+    inputsBySectionId.set(
+      section.id,
+      outputSection.inputSections
+        .filter((input) => !input.isFill && input.size > 0 && input.objectFileId)
+        .sort((a, b) => a.address - b.address),
+    );
+  });
+
+  symbols.forEach((symbol) => {
+    const inputs = symbol.sectionId ? inputsBySectionId.get(symbol.sectionId) : undefined;
+    const input = inputs ? findContainingInput(inputs, symbol.addr) : undefined;
+    symbol.objectFileId = input?.objectFileId;
+    symbol.inputSectionName = input?.name;
+  });
+
+  return warnings;
+};
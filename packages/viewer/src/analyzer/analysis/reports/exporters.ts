@@ -0,0 +1,406 @@
+import {
+  Analysis,
+  BudgetCheckResult,
+  BudgetStatus,
+  Summaries,
+  Symbol as AnalyzerSymbol,
+  TeensySizeReportSummary,
+} from '../../model';
+import { checkBudgets } from '../budgets';
+import { renderTeensySizeText } from './teensy-size-text';
+
+export type ExportFormat =
+  | 'symbols-csv'
+  | 'markdown'
+  | 'bloaty-compileunits'
+  | 'bloaty-symbols'
+  | 'bloaty-sections'
+  | 'size-a'
+  | 'junit';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  /** Appended to the ELF's base name when the export is saved to a file. */
+  fileSuffix: string;
+  mimeType: string;
+}
+
+export interface ExportInput {
+  analysis: Analysis;
+  summaries: Summaries;
+  report: TeensySizeReportSummary;
+  /** Budget results to report; checked against the config's budgets when omitted. */
+  budgets?: BudgetCheckResult;
+}
+
+export interface ExportOptions {
+  /** Number of largest symbols listed in the Markdown summary. */
+  topSymbols?: number;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { id: 'symbols-csv', label: 'Symbols (CSV)', fileSuffix: '-symbols.csv', mimeType: 'text/csv' },
+  { id: 'markdown', label: 'Summary (Markdown)', fileSuffix: '-summary.md', mimeType: 'text/markdown' },
+  {
+    id: 'bloaty-compileunits',
+    label: 'Bloaty compile units (CSV)',
+    fileSuffix: '-bloaty-compileunits.csv',
+    mimeType: 'text/csv',
+  },
+  { id: 'bloaty-symbols', label: 'Bloaty symbols (CSV)', fileSuffix: '-bloaty-symbols.csv', mimeType: 'text/csv' },
+  { id: 'bloaty-sections', label: 'Bloaty sections (CSV)', fileSuffix: '-bloaty-sections.csv', mimeType: 'text/csv' },
+  { id: 'size-a', label: 'size -A sections', fileSuffix: '-size.txt', mimeType: 'text/plain' },
+  { id: 'junit', label: 'Budgets (JUnit XML)', fileSuffix: '-junit.xml', mimeType: 'application/xml' },
+];
+
+const DEFAULT_MARKDOWN_TOP_SYMBOLS = 10;
+
+// Sections `size -A` leaves out: BFD treats the symbol and string tables as file structure, not sections.
+const SIZE_HIDDEN_SECTIONS = new Set(['.symtab', '.strtab', '.shstrtab']);
+
+const basename = (filePath: string): string => filePath.split(/[\\/]/).pop() ?? filePath;
+
+const formatHex = (value: number): string => `0x${value.toString(16).toUpperCase().padStart(8, '0')}`;
+
+const formatBytes = (value: number): string => value.toLocaleString('en-US');
+
+const formatPercent = (part: number, whole: number): string =>
+  whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : '—';
+
+// RFC 4180: quote fields holding a separator, quote or line break, doubling embedded quotes.
+const escapeCsvField = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** Joins fields into one CSV record, quoting where needed. */
+export const toCsvLine = (fields: Array<string | number>): string =>
+  fields.map((field) => escapeCsvField(String(field))).join(',');
+
+const toCsv = (header: string[], records: Array<Array<string | number>>): string =>
+  `${[header, ...records].map(toCsvLine).join('\n')}\n`;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const escapeMarkdownCell = (value: string): string => value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|');
+
+const renderMarkdownTable = (header: string[], alignRight: boolean[], rows: string[][]): string[] => [
+  `| ${header.join(' | ')} |`,
+  `|${alignRight.map((right) => (right ? ' ---: ' : ' --- ')).join('|')}|`,
+  ...rows.map((row) => `| ${row.map(escapeMarkdownCell).join(' | ')} |`),
+];
+
+const createHardwareBankLookup = (analysis: Analysis): ((windowId: string | undefined) => string | undefined) => {
+  const bankByWindowId = new Map<string, string>();
+  analysis.config.hardwareBanks.forEach((bank) => {
+    bank.windowIds.forEach((windowId) => {
+      if (!bankByWindowId.has(windowId)) {
+        bankByWindowId.set(windowId, bank.name);
+      }
+    });
+  });
+  return (windowId) => (windowId ? bankByWindowId.get(windowId) : undefined);
+};
+
+/** One row per symbol with a size, in address order, with everything the viewer knows about its placement. */
+export const renderSymbolCsv = (analysis: Analysis): string => {
+  const sectionNameById = new Map(analysis.sections.map((section) => [section.id, section.name] as const));
+  const blockNameById = new Map(analysis.config.logicalBlocks.map((block) => [block.id, block.name] as const));
+  const windowNameById = new Map(analysis.config.addressWindows.map((window) => [window.id, window.name] as const));
+  const objectPathById = new Map((analysis.linkerMap?.objectFiles ?? []).map((file) => [file.id, file.path] as const));
+  const bankNameOf = createHardwareBankLookup(analysis);
+
+  const records = analysis.symbols
+    .filter((symbol) => symbol.size > 0)
+    .sort((a, b) => a.addr - b.addr || a.name.localeCompare(b.name))
+    .map((symbol) => {
+      const windowId = symbol.primaryLocation?.windowId ?? symbol.windowId;
+      const blockId = symbol.primaryLocation?.blockId ?? symbol.blockId;
+      return [
+        formatHex(symbol.addr),
+        symbol.size,
+        symbol.kind,
+        symbol.category ?? '',
+        symbol.sectionId ? sectionNameById.get(symbol.sectionId) ?? symbol.sectionId : '',
+        blockId ? blockNameById.get(blockId) ?? blockId : '',
+        windowId ? windowNameById.get(windowId) ?? windowId : '',
+        bankNameOf(windowId) ?? '',
+        symbol.objectFileId ? objectPathById.get(symbol.objectFileId) ?? '' : '',
+        symbol.source ? `${symbol.source.file}:${symbol.source.line}` : '',
+        symbol.name,
+        symbol.nameMangled,
+      ];
+    });
+
+  return toCsv(
+    ['address', 'size', 'kind', 'category', 'section', 'block', 'window', 'bank', 'object_file', 'source', 'name', 'mangled_name'],
+    records,
+  );
+};
+
+const BUDGET_STATUS_MARKERS: Record<BudgetStatus, string> = {
+  ok: '✅ ok',
+  warning: '⚠️ warning',
+  exceeded: '❌ exceeded',
+};
+
+/**
+ * A short summary sized for a pull-request comment: bank usage, totals, the teensy_size lines, budget
+ * results and the largest symbols folded into a `<details>` block.
+ */
+export const renderMarkdownSummary = (input: ExportInput, options: ExportOptions = {}): string => {
+  const { analysis, summaries, report } = input;
+  const budgets = input.budgets ?? checkBudgets(analysis, summaries, report);
+  const topSymbols = options.topSymbols ?? DEFAULT_MARKDOWN_TOP_SYMBOLS;
+  const lines = [`### Memory usage: ${analysis.target.name} (\`${basename(analysis.build.elfPath)}\`)`, ''];
+
+  if (summaries.hardwareBanks.length > 0) {
+    lines.push(
+      ...renderMarkdownTable(
+        ['Bank', 'Used', 'Capacity', 'Use', 'Free'],
+        [false, true, true, true, true],
+        summaries.hardwareBanks.map((bank) => [
+          bank.name,
+          formatBytes(bank.adjustedUsedBytes),
+          formatBytes(bank.capacityBytes),
+          formatPercent(bank.adjustedUsedBytes, bank.capacityBytes),
+          formatBytes(bank.freeBytes),
+        ]),
+      ),
+      '',
+    );
+  }
+
+  const { totals } = summaries;
+  lines.push(
+    `Runtime ${formatBytes(totals.runtimeBytes)} bytes · load image ${formatBytes(totals.loadImageBytes)} bytes · ` +
+      `file only ${formatBytes(totals.fileOnlyBytes)} bytes`,
+    '',
+  );
+
+  const teensySizeText = analysis.config.reports?.teensySizeText;
+  if (teensySizeText && Object.keys(report).length > 0) {
+    lines.push('```', ...renderTeensySizeText(report, teensySizeText), '```', '');
+  }
+
+  if (budgets.entries.length > 0) {
+    lines.push(
+      `**Budgets: ${BUDGET_STATUS_MARKERS[budgets.status]}**`,
+      '',
+      ...renderMarkdownTable(
+        ['Budget', 'Used', 'Limit', 'Use', 'Status'],
+        [false, true, true, true, false],
+        budgets.entries.map((entry) => [
+          entry.label,
+          formatBytes(entry.usedBytes),
+          formatBytes(entry.maxBytes),
+          formatPercent(entry.usedBytes, entry.maxBytes),
+          BUDGET_STATUS_MARKERS[entry.status],
+        ]),
+      ),
+      '',
+    );
+  }
+
+  const largest = [...analysis.symbols].sort((a, b) => b.size - a.size).slice(0, topSymbols);
+  if (largest.length > 0) {
+    const bankNameOf = createHardwareBankLookup(analysis);
+    lines.push(
+      '<details>',
+      `<summary>Largest ${largest.length} symbols</summary>`,
+      '',
+      ...renderMarkdownTable(
+        ['Symbol', 'Bank', 'Bytes'],
+        [false, false, true],
+        largest.map((symbol) => [
+          symbol.name,
+          bankNameOf(symbol.primaryLocation?.windowId ?? symbol.windowId) ?? '—',
+          formatBytes(symbol.size),
+        ]),
+      ),
+      '',
+      '</details>',
+      '',
+    );
+  }
+
+  return lines.join('\n');
+};
+
+interface BloatyRow {
+  label: string;
+  vmsize: number;
+  filesize: number;
+}
+
+export type BloatyDataSource = 'compileunits' | 'symbols' | 'sections';
+
+/**
+ * Mirrors `bloaty --csv -d <source>`: `vmsize` is what a section occupies in memory and `filesize` what
+ * it occupies in the ELF, so `.bss` counts only toward `vmsize` and debug sections only toward `filesize`.
+ * Bytes no symbol accounts for are reported as `[section <name>]`, as Bloaty does.
+ */
+export const renderBloatyCsv = (analysis: Analysis, summaries: Summaries, source: BloatyDataSource): string => {
+  const zeroFillSectionIds = new Set(summaries.zeroFill.flatMap((entry) => entry.sectionIds));
+  const sectionById = new Map(analysis.sections.map((section) => [section.id, section] as const));
+  const rows = new Map<string, BloatyRow>();
+  const add = (label: string, bytes: number, sectionId: string | undefined) => {
+    const section = sectionId ? sectionById.get(sectionId) : undefined;
+    const row = rows.get(label) ?? { label, vmsize: 0, filesize: 0 };
+    row.vmsize += section?.flags.alloc ? bytes : 0;
+    row.filesize += section && zeroFillSectionIds.has(section.id) ? 0 : bytes;
+    rows.set(label, row);
+  };
+
+  if (source === 'sections') {
+    analysis.sections.forEach((section) => add(section.name, section.size, section.id));
+  } else {
+    const compileUnitNameById = new Map((analysis.compileUnits ?? []).map((unit) => [unit.id, unit.name] as const));
+    const objectPathById = new Map((analysis.linkerMap?.objectFiles ?? []).map((file) => [file.id, file.path] as const));
+    const labelOf = (symbol: AnalyzerSymbol): string | undefined =>
+      source === 'symbols'
+        ? symbol.name
+        : (symbol.compileUnitId ? compileUnitNameById.get(symbol.compileUnitId) : undefined) ??
+          (symbol.objectFileId ? objectPathById.get(symbol.objectFileId) : undefined);
+
+    analysis.symbols.forEach((symbol) => {
+      const section = symbol.sectionId ? sectionById.get(symbol.sectionId) : undefined;
+      if (!(symbol.size > 0) || !section?.flags.alloc) {
+        return;
+      }
+      add(labelOf(symbol) ?? `[section ${section.name}]`, symbol.size, section.id);
+    });
+
+    const attributionById = new Map(summaries.bySection.map((entry) => [entry.sectionId, entry] as const));
+    analysis.sections.forEach((section) => {
+      const remainder = section.flags.alloc
+        ? attributionById.get(section.id)?.unattributedBytes ?? section.size
+        : section.size;
+      if (remainder > 0) {
+        add(`[section ${section.name}]`, remainder, section.id);
+      }
+    });
+  }
+
+  const records = [...rows.values()]
+    .filter((row) => row.vmsize > 0 || row.filesize > 0)
+    .sort((a, b) => Math.max(b.vmsize, b.filesize) - Math.max(a.vmsize, a.filesize) || a.label.localeCompare(b.label))
+    .map((row) => [row.label, row.vmsize, row.filesize]);
+  return toCsv([source, 'vmsize', 'filesize'], records);
+};
+
+/** The section listing `size -A` prints, decimal sizes and addresses included, for diffing against it. */
+export const renderSizeSectionListing = (analysis: Analysis): string => {
+  const sections = analysis.sections.filter((section) => !SIZE_HIDDEN_SECTIONS.has(section.name));
+  const total = sections.reduce((sum, section) => sum + section.size, 0);
+  const nameWidth = Math.max('section'.length, 'Total'.length, ...sections.map((section) => section.name.length));
+  const sizeWidth = Math.max('size'.length, String(total).length);
+  const addrWidth = Math.max('addr'.length, ...sections.map((section) => String(section.vmaStart).length));
+
+  return [
+    `${analysis.build.elfPath}  :`,
+    `${'section'.padEnd(nameWidth)}   ${'size'.padStart(sizeWidth)}   ${'addr'.padStart(addrWidth)}`,
+    ...sections.map(
+      (section) =>
+        `${section.name.padEnd(nameWidth)}   ${String(section.size).padStart(sizeWidth)}   ${String(section.vmaStart).padStart(addrWidth)}`,
+    ),
+    `${'Total'.padEnd(nameWidth)}   ${String(total).padStart(sizeWidth)}`,
+    '',
+    '',
+    '',
+  ].join('\n');
+};
+
+interface JUnitCase {
+  name: string;
+  failure?: string;
+  note?: string;
+}
+
+const renderJUnitSuite = (name: string, classname: string, cases: JUnitCase[]): string[] => {
+  const failures = cases.filter((entry) => entry.failure).length;
+  return [
+    `  <testsuite name="${escapeXml(name)}" tests="${cases.length}" failures="${failures}" errors="0" skipped="0">`,
+    ...cases.flatMap((entry) => {
+      const open = `    <testcase classname="${escapeXml(classname)}" name="${escapeXml(entry.name)}"`;
+      if (!entry.failure && !entry.note) {
+        return [`${open}/>`];
+      }
+      return [
+        `${open}>`,
+        ...(entry.failure ? [`      <failure message="${escapeXml(entry.failure)}"/>`] : []),
+        ...(entry.note ? [`      <system-out>${escapeXml(entry.note)}</system-out>`] : []),
+        '    </testcase>',
+      ];
+    }),
+    '  </testsuite>',
+  ];
+};
+
+/**
+ * Budget results as JUnit XML for CI test dashboards: one test case per budget, failing when it is
+ * exceeded, plus one per hardware bank failing when the bank overflows its capacity.
+ */
+export const renderBudgetJUnit = (input: ExportInput): string => {
+  const { analysis, summaries, report } = input;
+  const budgets = input.budgets ?? checkBudgets(analysis, summaries, report);
+  const classPrefix = `teensy-mem-explorer.${analysis.config.targetId}`;
+
+  const budgetCases: JUnitCase[] = budgets.entries.map((entry) => {
+    const usage = `${entry.usedBytes} of ${entry.maxBytes} bytes used (${formatPercent(entry.usedBytes, entry.maxBytes)})`;
+    if (entry.status === 'exceeded') {
+      return { name: entry.label, failure: `Budget exceeded: ${usage}` };
+    }
+    if (entry.status === 'warning') {
+      return { name: entry.label, note: `Near limit: ${usage}, warning at ${entry.warnBytes ?? entry.maxBytes} bytes` };
+    }
+    return { name: entry.label, note: usage };
+  });
+  const bankCases: JUnitCase[] = summaries.hardwareBanks.map((bank) => {
+    const usage = `${bank.adjustedUsedBytes} of ${bank.capacityBytes} bytes used (${formatPercent(bank.adjustedUsedBytes, bank.capacityBytes)})`;
+    return bank.adjustedUsedBytes > bank.capacityBytes
+      ? { name: bank.name, failure: `Bank overflows its capacity: ${usage}` }
+      : { name: bank.name, note: usage };
+  });
+
+  const suites = [
+    ...(budgetCases.length > 0 ? [renderJUnitSuite('Memory budgets', `${classPrefix}.budgets`, budgetCases)] : []),
+    renderJUnitSuite('Hardware banks', `${classPrefix}.hardwareBanks`, bankCases),
+  ];
+  const allCases = [...budgetCases, ...bankCases];
+  const failures = allCases.filter((entry) => entry.failure).length;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(`${analysis.target.name} memory`)}" tests="${allCases.length}" failures="${failures}">`,
+    ...suites.flat(),
+    '</testsuites>',
+    '',
+  ].join('\n');
+};
+
+/** Renders `input` in one of the `EXPORT_FORMATS`. */
+export const renderExport = (format: ExportFormat, input: ExportInput, options: ExportOptions = {}): string => {
+  switch (format) {
+    case 'symbols-csv':
+      return renderSymbolCsv(input.analysis);
+    case 'markdown':
+      return renderMarkdownSummary(input, options);
+    case 'bloaty-compileunits':
+      return renderBloatyCsv(input.analysis, input.summaries, 'compileunits');
+    case 'bloaty-symbols':
+      return renderBloatyCsv(input.analysis, input.summaries, 'symbols');
+    case 'bloaty-sections':
+      return renderBloatyCsv(input.analysis, input.summaries, 'sections');
+    case 'size-a':
+      return renderSizeSectionListing(input.analysis);
+    case 'junit':
+      return renderBudgetJUnit(input);
+    default:
+      throw new Error(`Unknown export format ${String(format)}.`);
+  }
+};
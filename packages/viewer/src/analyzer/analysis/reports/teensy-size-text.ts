@@ -0,0 +1,167 @@
+import { TeensySizeReportEntrySummary, TeensySizeReportSummary, TeensySizeTextConfig } from '../../model';
+
+export interface TeensySizeFieldComparison {
+  reportId: string;
+  label: string;
+  expression: string;
+  expected?: number;
+  actual: number;
+  matches: boolean;
+}
+
+export interface TeensySizeParityResult {
+  matches: boolean;
+  fields: TeensySizeFieldComparison[];
+  /** Report ids whose line could not be found in the captured log. */
+  missingLines: string[];
+}
+
+interface FormatPart {
+  literal: string;
+  expression?: string;
+}
+
+const PLACEHOLDER_REGEX = /\{([^{}]+)\}/g;
+
+const SUMMARY_FIELDS = {
+  capacityBytes: (entry: TeensySizeReportEntrySummary) => entry.capacityBytes,
+  rawUsedBytes: (entry: TeensySizeReportEntrySummary) => entry.rawUsedBytes,
+  adjustedUsedBytes: (entry: TeensySizeReportEntrySummary) => entry.adjustedUsedBytes,
+  freeBytes: (entry: TeensySizeReportEntrySummary) => entry.freeBytes,
+  roundingBytes: (entry: TeensySizeReportEntrySummary) => entry.adjustedUsedBytes - entry.rawUsedBytes,
+  codeBytes: (entry: TeensySizeReportEntrySummary) => entry.codeBytes,
+  dataBytes: (entry: TeensySizeReportEntrySummary) => entry.dataBytes,
+  blockBytes: (entry: TeensySizeReportEntrySummary) => entry.blockBytes,
+} satisfies Record<string, (entry: TeensySizeReportEntrySummary) => number | undefined>;
+
+const isSummaryField = (term: string): term is keyof typeof SUMMARY_FIELDS =>
+  Object.prototype.hasOwnProperty.call(SUMMARY_FIELDS, term);
+
+// Splits a line format into literal text, each followed by at most one placeholder expression.
+const parseFormat = (format: string): FormatPart[] => {
+  const parts: FormatPart[] = [];
+  let lastIndex = 0;
+  for (const match of format.matchAll(PLACEHOLDER_REGEX)) {
+    parts.push({ literal: format.slice(lastIndex, match.index), expression: match[1].trim() });
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  parts.push({ literal: format.slice(lastIndex) });
+  return parts;
+};
+
+const evaluateTerm = (term: string, reportId: string, entry: TeensySizeReportEntrySummary): number => {
+  if (isSummaryField(term)) {
+    const value = SUMMARY_FIELDS[term](entry);
+    if (value === undefined) {
+      throw new Error(`teensy_size line for ${reportId} uses ${term}, which the report entry does not compute.`);
+    }
+    return value;
+  }
+  const bucket = entry.bucketTotals[term];
+  if (bucket === undefined) {
+    throw new Error(`teensy_size line for ${reportId} references unknown bucket ${term}.`);
+  }
+  return bucket;
+};
+
+const evaluateExpression = (expression: string, reportId: string, entry: TeensySizeReportEntrySummary): number =>
+  expression
+    .split('+')
+    .map((term) => term.trim())
+    .reduce((total, term) => total + evaluateTerm(term, reportId, entry), 0);
+
+const getReportEntry = (report: TeensySizeReportSummary, reportId: string): TeensySizeReportEntrySummary => {
+  const entry = report[reportId];
+  if (!entry) {
+    throw new Error(`teensy_size line references report ${reportId}, which is not configured for this target.`);
+  }
+  return entry;
+};
+
+// The field name is the label printed before the value, e.g. `free for files` in `   free for files:{freeBytes}`.
+const deriveFieldLabel = (literal: string, expression: string): string => {
+  const match = /([A-Za-z][\w /-]*?)\s*:\s*$/.exec(literal.replace(/^.*,/, ''));
+  return match ? match[1].trim() : expression;
+};
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Renders the report exactly as `teensy_size` prints it after a PlatformIO / Arduino build, using the
+ * line formats declared in the target's `reports.teensySizeText`.
+ */
+export const renderTeensySizeText = (report: TeensySizeReportSummary, config: TeensySizeTextConfig): string[] => {
+  const prefix = config.linePrefix ?? '';
+  const lines = config.title !== undefined ? [`${prefix}${config.title}`] : [];
+
+  config.lines.forEach((line) => {
+    const entry = getReportEntry(report, line.reportId);
+    const text = parseFormat(line.format)
+      .map((part) =>
+        part.expression !== undefined
+          ? `${part.literal}${evaluateExpression(part.expression, line.reportId, entry)}`
+          : part.literal,
+      )
+      .join('');
+    lines.push(`${prefix}${text}`);
+  });
+
+  return lines;
+};
+
+/**
+ * Compares the report against a captured `teensy_size` log field by field. Lines are located by their
+ * literal text, so the log may carry other build output and any line prefix; runs of whitespace in
+ * the format match any run of whitespace in the log.
+ */
+export const checkTeensySizeParity = (
+  report: TeensySizeReportSummary,
+  config: TeensySizeTextConfig,
+  capturedLog: string,
+): TeensySizeParityResult => {
+  const logLines = capturedLog.split(/\r?\n/);
+  const fields: TeensySizeFieldComparison[] = [];
+  const missingLines: string[] = [];
+
+  config.lines.forEach((line) => {
+    const entry = getReportEntry(report, line.reportId);
+    const parts = parseFormat(line.format);
+    const pattern = parts
+      .map((part, index) => {
+        const literal = index === 0 ? part.literal.trimStart() : part.literal;
+        const escaped = literal
+          .split(/\s+/)
+          .map(escapeRegex)
+          .join('\\s+');
+        return part.expression !== undefined ? `${escaped}(\\d+)` : escaped;
+      })
+      .join('');
+    const regex = new RegExp(pattern);
+    const captured = logLines.map((logLine) => regex.exec(logLine)).find((match) => match !== null);
+    if (!captured) {
+      missingLines.push(line.reportId);
+    }
+
+    parts
+      .filter((part) => part.expression !== undefined)
+      .forEach((part, index) => {
+        const expression = part.expression as string;
+        const actual = evaluateExpression(expression, line.reportId, entry);
+        const expected = captured ? Number.parseInt(captured[index + 1], 10) : undefined;
+        fields.push({
+          reportId: line.reportId,
+          label: deriveFieldLabel(part.literal, expression),
+          expression,
+          expected,
+          actual,
+          matches: expected === actual,
+        });
+      });
+  });
+
+  return {
+    matches: missingLines.length === 0 && fields.every((field) => field.matches),
+    fields,
+    missingLines,
+  };
+};
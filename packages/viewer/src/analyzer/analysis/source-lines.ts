@@ -0,0 +1,14 @@
+import { SourceLineResolver } from '../model';
+import { DwarfLineRange, findLineRange } from '../parsers/dwarf';
+
+/**
+ * Maps code addresses to `file:line` through a DWARF line table, the way `addr2line` does. On ARM the
+ * Thumb bit is ignored, so return addresses can be passed as printed.
+ */
+export const createSourceLineResolver = (ranges: DwarfLineRange[], isArm: boolean): SourceLineResolver => ({
+  hasLineTable: ranges.length > 0,
+  resolve: (address) => {
+    const range = findLineRange(ranges, isArm ? (address & ~1) >>> 0 : address);
+    return range?.file !== undefined ? { file: range.file, line: range.line } : undefined;
+  },
+});
@@ -1,8 +1,20 @@
+import path from 'path';
 import {
   AddressUsageKind,
   AddressWindowReservation,
   Analysis,
+  ArchiveSummary,
+  ContributorBankUsage,
+  ContributorBlockUsage,
+  FlashImageSummary,
+  LinkerInputSection,
   HardwareBankSummary,
+  ObjectFileSummary,
+  SectionAttributionSummary,
+  SegmentZeroFillSummary,
+  Symbol as AnalyzerSymbol,
+  SymbolCategory,
+  SymbolCategorySummary,
   Summaries,
   TagUsageSummary,
   WindowSummary,
@@ -581,6 +593,273 @@ const buildHardwareBankSummaries = (
   });
 };
 
+interface ContributorAccumulator {
+  sizeBytes: number;
+  bankMap: Map<string, number>;
+  blockMap: Map<string, { windowId: string; bytes: number }>;
+}
+
+const createContributorAccumulator = (): ContributorAccumulator => ({
+  sizeBytes: 0,
+  bankMap: new Map(),
+  blockMap: new Map(),
+});
+
+const finalizeContributor = (
+  accumulator: ContributorAccumulator,
+): Pick<ObjectFileSummary, 'sizeBytes' | 'byHardwareBank' | 'byBlock'> => ({
+  sizeBytes: accumulator.sizeBytes,
+  byHardwareBank: Array.from(accumulator.bankMap.entries())
+    .map(([hardwareBankId, bytes]): ContributorBankUsage => ({ hardwareBankId, bytes }))
+    .sort((a, b) => b.bytes - a.bytes),
+  byBlock: Array.from(accumulator.blockMap.entries())
+    .map(([blockId, { windowId, bytes }]): ContributorBlockUsage => ({ blockId, windowId, bytes }))
+    .sort((a, b) => b.bytes - a.bytes),
+});
+
+/**
+ * The address range each input section actually owns. Merged string sections (`.rodata.*.str1.*`) list
+ * their size before merging, so later inputs overlap earlier ones; every input is capped at the next
+ * input's start, or at the section end for the last one, and inputs sharing an address do not claim the
+ * same bytes twice, so contributor totals never exceed the section.
+ */
+const ownedInputSpans = (
+  inputs: LinkerInputSection[],
+  sectionEnd: number,
+): Map<LinkerInputSection, { address: number; size: number }> => {
+  const owned = new Map<LinkerInputSection, { address: number; size: number }>();
+  const sorted = inputs
+    .map((input, order) => ({ input, order }))
+    .sort((a, b) => a.input.address - b.input.address || a.order - b.order)
+    .map(({ input }) => input);
+  let coveredUntil = -Infinity;
+  sorted.forEach((input, index) => {
+    const next = sorted.slice(index + 1).find((candidate) => candidate.address > input.address);
+    const start = Math.max(input.address, coveredUntil);
+    const end = Math.min(input.address + input.size, next?.address ?? sectionEnd, sectionEnd);
+    owned.set(input, { address: start, size: Math.max(0, end - start) });
+    coveredUntil = Math.max(coveredUntil, end);
+  });
+  return owned;
+};
+
+const buildContributorSummaries = (
+  analysis: Analysis,
+): { byArchive: ArchiveSummary[]; byObjectFile: ObjectFileSummary[] } => {
+  const { linkerMap } = analysis;
+  if (!linkerMap) {
+    return { byArchive: [], byObjectFile: [] };
+  }
+
+  const sectionById = new Map(analysis.sections.map((section) => [section.id, section] as const));
+  const bankIdsByWindow = new Map<string, string[]>();
+  analysis.config.hardwareBanks.forEach((bank) => {
+    bank.windowIds.forEach((windowId) => {
+      bankIdsByWindow.set(windowId, [...(bankIdsByWindow.get(windowId) ?? []), bank.id]);
+    });
+  });
+
+  const objectAccumulators = new Map<string, ContributorAccumulator>();
+
+  linkerMap.outputSections.forEach((outputSection) => {
+    const section = outputSection.sectionId ? sectionById.get(outputSection.sectionId) : undefined;
+    if (!section || !section.flags.alloc || section.blockAssignments.length === 0) {
+      return;
+    }
+
+    const ownedSpans = ownedInputSpans(outputSection.inputSections, section.vmaStart + section.size);
+    outputSection.inputSections.forEach((input) => {
+      const owned = ownedSpans.get(input);
+      if (!input.objectFileId || !owned || owned.size <= 0) {
+        return;
+      }
+
+      let accumulator = objectAccumulators.get(input.objectFileId);
+      if (!accumulator) {
+        accumulator = createContributorAccumulator();
+        objectAccumulators.set(input.objectFileId, accumulator);
+      }
+      accumulator.sizeBytes += owned.size;
+
+      const offset = owned.address - section.vmaStart;
+      section.blockAssignments.forEach((assignment) => {
+        // Assignments cover the section from its start; clip inputs that run past a partial assignment.
+        const bytes = Math.min(offset + owned.size, assignment.size) - Math.max(offset, 0);
+        if (bytes <= 0) {
+          return;
+        }
+        const blockEntry = accumulator.blockMap.get(assignment.blockId);
+        if (blockEntry) {
+          blockEntry.bytes += bytes;
+        } else {
+          accumulator.blockMap.set(assignment.blockId, { windowId: assignment.windowId, bytes });
+        }
+        (bankIdsByWindow.get(assignment.windowId) ?? []).forEach((bankId) => {
+          accumulateMap(accumulator.bankMap, bankId, bytes);
+        });
+      });
+    });
+  });
+
+  const byObjectFile: ObjectFileSummary[] = linkerMap.objectFiles
+    .filter((file) => objectAccumulators.has(file.id))
+    .map((file) => ({
+      objectFileId: file.id,
+      displayName: file.displayName,
+      archivePath: file.archivePath,
+      ...finalizeContributor(objectAccumulators.get(file.id) as ContributorAccumulator),
+    }))
+    .sort((a, b) => b.sizeBytes - a.sizeBytes);
+
+  const archiveGroups = new Map<string, { archivePath?: string; objectFileIds: string[]; accumulator: ContributorAccumulator }>();
+  byObjectFile.forEach((summary) => {
+    const key = summary.archivePath ?? '';
+    let group = archiveGroups.get(key);
+    if (!group) {
+      group = { archivePath: summary.archivePath, objectFileIds: [], accumulator: createContributorAccumulator() };
+      archiveGroups.set(key, group);
+    }
+    group.objectFileIds.push(summary.objectFileId);
+    group.accumulator.sizeBytes += summary.sizeBytes;
+    summary.byHardwareBank.forEach(({ hardwareBankId, bytes }) => accumulateMap(group.accumulator.bankMap, hardwareBankId, bytes));
+    summary.byBlock.forEach(({ blockId, windowId, bytes }) => {
+      const blockEntry = group.accumulator.blockMap.get(blockId);
+      if (blockEntry) {
+        blockEntry.bytes += bytes;
+      } else {
+        group.accumulator.blockMap.set(blockId, { windowId, bytes });
+      }
+    });
+  });
+
+  const byArchive: ArchiveSummary[] = Array.from(archiveGroups.values())
+    .map(({ archivePath, objectFileIds, accumulator }) => ({
+      archivePath,
+      displayName: archivePath ? path.win32.basename(archivePath) : 'Object files outside archives',
+      objectFileIds,
+      ...finalizeContributor(accumulator),
+    }))
+    .sort((a, b) => b.sizeBytes - a.sizeBytes);
+
+  return { byArchive, byObjectFile };
+};
+
+const buildSymbolCategorySummaries = (analysis: Analysis): SymbolCategorySummary[] => {
+  const totals = new Map<SymbolCategory, SymbolCategorySummary>();
+  analysis.symbols.forEach((symbol) => {
+    if (!symbol.category) {
+      return;
+    }
+    const entry = totals.get(symbol.category) ?? { category: symbol.category, symbolCount: 0, sizeBytes: 0 };
+    entry.symbolCount += 1;
+    entry.sizeBytes += Math.max(symbol.size, 0);
+    totals.set(symbol.category, entry);
+  });
+  return Array.from(totals.values()).sort((a, b) => b.sizeBytes - a.sizeBytes);
+};
+
+/**
+ * Length of the union of the symbol ranges, clipped to `[start, end)`. Expects symbols sorted by address.
+ */
+const measureCoverage = (symbols: AnalyzerSymbol[], start: number, end: number): number => {
+  let covered = 0;
+  let cursor = start;
+  symbols.forEach((symbol) => {
+    const symbolStart = Math.max(symbol.addr, cursor);
+    const symbolEnd = Math.min(symbol.addr + symbol.size, end);
+    if (symbolEnd > symbolStart) {
+      covered += symbolEnd - symbolStart;
+      cursor = symbolEnd;
+    }
+  });
+  return covered;
+};
+
+const buildSectionAttributionSummaries = (analysis: Analysis): SectionAttributionSummary[] => {
+  const symbolsBySection = new Map<string, AnalyzerSymbol[]>();
+  analysis.symbols.forEach((symbol) => {
+    if (!symbol.sectionId || symbol.size <= 0) {
+      return;
+    }
+    const bucket = symbolsBySection.get(symbol.sectionId);
+    if (bucket) {
+      bucket.push(symbol);
+    } else {
+      symbolsBySection.set(symbol.sectionId, [symbol]);
+    }
+  });
+
+  return analysis.sections
+    .filter((section) => section.flags.alloc && section.size > 0)
+    .map((section) => {
+      const symbols = (symbolsBySection.get(section.id) ?? []).slice().sort((a, b) => a.addr - b.addr);
+      const end = section.vmaStart + section.size;
+      const attributedBytes = measureCoverage(symbols, section.vmaStart, end);
+      return {
+        sectionId: section.id,
+        sizeBytes: section.size,
+        symbolCount: symbols.length,
+        attributedBytes,
+        inferredBytes: measureCoverage(
+          symbols.filter((symbol) => symbol.isSizeInferred),
+          section.vmaStart,
+          end,
+        ),
+        unattributedBytes: section.size - attributedBytes,
+      };
+    });
+};
+
+/**
+ * Segments whose memory size exceeds their file size are zero-filled at startup; the sections in
+ * that tail are `.bss`-style and cost RAM but no flash.
+ */
+const buildZeroFillSummaries = (analysis: Analysis): SegmentZeroFillSummary[] =>
+  (analysis.segments ?? [])
+    .filter((segment) => segment.zeroFillBytes > 0)
+    .map((segment) => {
+      const start = segment.vaddr + segment.filesz;
+      const end = segment.vaddr + segment.memsz;
+      return {
+        segmentId: segment.id,
+        start,
+        bytes: segment.zeroFillBytes,
+        sectionIds: analysis.sections
+          .filter((section) => section.size > 0 && section.vmaStart >= start && section.vmaStart < end)
+          .map((section) => section.id),
+      };
+    });
+
+const buildFlashImageSummary = (analysis: Analysis): FlashImageSummary | undefined => {
+  const { flashImage } = analysis;
+  if (!flashImage) {
+    return undefined;
+  }
+
+  const firstRange = flashImage.ranges[0];
+  const lastRange = flashImage.ranges[flashImage.ranges.length - 1];
+  const firstAddress = firstRange?.start ?? 0;
+  const endAddress = lastRange ? lastRange.start + lastRange.size : 0;
+  const startAddressMatches =
+    flashImage.startAddress !== undefined && flashImage.elfEntryAddress !== undefined
+      ? flashImage.startAddress === flashImage.elfEntryAddress
+      : undefined;
+
+  return {
+    matchesElf: flashImage.missingBytes === 0 && flashImage.differingBytes === 0 && startAddressMatches !== false,
+    firstAddress,
+    endAddress,
+    spanBytes: endAddress - firstAddress,
+    programmedBytes: flashImage.programmedBytes,
+    expectedBytes: flashImage.expectedBytes,
+    gapBytes: flashImage.gaps.reduce((total, gap) => total + gap.size, 0),
+    fillBytes: flashImage.fill.reduce((total, range) => total + range.size, 0),
+    missingBytes: flashImage.missingBytes,
+    differingBytes: flashImage.differingBytes,
+    startAddressMatches,
+  };
+};
+
 export const generateSummaries = (analysis: Analysis): Summaries => {
   const { sections, config } = analysis;
   let runtimeBytes = 0;
@@ -667,6 +946,7 @@ export const generateSummaries = (analysis: Analysis): Summaries => {
       fileOnlyBytes,
     },
     byCategory: categorySummary,
+    bySymbolCategory: buildSymbolCategorySummaries(analysis),
     byWindow,
     hardwareBanks,
     fileOnly: {
@@ -674,5 +954,9 @@ export const generateSummaries = (analysis: Analysis): Summaries => {
       sections: fileOnlySections,
     },
     tagTotals: tagTotalsSummary,
+    ...buildContributorSummaries(analysis),
+    flashImage: buildFlashImageSummary(analysis),
+    zeroFill: buildZeroFillSummaries(analysis),
+    bySection: buildSectionAttributionSummaries(analysis),
   };
 };
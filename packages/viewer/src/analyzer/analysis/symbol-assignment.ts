@@ -1,5 +1,5 @@
 import { Section, SectionBlockAssignment, Symbol, SymbolLocation } from '../model';
-import { NmSymbolInfo } from '../parsers/nm';
+import { SymbolTableEntry } from '../parsers/elf';
 
 const withinSection = (section: Section, address: number): boolean =>
   address >= section.vmaStart && address < section.vmaStart + section.size;
@@ -41,12 +41,12 @@ const selectPrimaryAssignment = (section: Section | undefined): SectionBlockAssi
 };
 
 export const assignSymbolsToSections = (
-  nmSymbols: NmSymbolInfo[],
+  symbolTable: SymbolTableEntry[],
   sections: Section[],
 ): SymbolAssignmentResult => {
   const warnings: string[] = [];
 
-  const assigned: Symbol[] = nmSymbols.map((symbolInfo, index) => {
+  const assigned: Symbol[] = symbolTable.map((symbolInfo, index) => {
     const section = sections.find((entry) => withinSection(entry, symbolInfo.address));
     if (!section) {
       warnings.push(
@@ -101,7 +101,8 @@ export const assignSymbolsToSections = (
       isWeak: isWeak(symbolInfo.typeCode) || undefined,
       isStatic: isStatic(symbolInfo.typeCode) || undefined,
       isTls: undefined,
-      source: symbolInfo.source,
+      isSizeInferred: symbolInfo.sizeInferred,
+      demangled: symbolInfo.demangled,
       primaryLocation,
       locations: locations.length > 0 ? locations : undefined,
     };
@@ -139,10 +140,6 @@ export const assignSymbolsToSections = (
       existing.primaryLocation = symbol.primaryLocation;
     }
 
-    if (!existing.source && symbol.source) {
-      existing.source = symbol.source;
-    }
-
     if (symbol.locations && symbol.locations.length > 0) {
       if (existing.locations && existing.locations.length > 0) {
         const mergedLocations = new Map<string, SymbolLocation>();
@@ -0,0 +1,113 @@
+import { LinkerMap, Symbol as AnalyzerSymbol, SymbolCategory } from '../model';
+
+export const SYMBOL_CATEGORY_LABELS: Record<SymbolCategory, string> = {
+  vtable: 'Vtable',
+  typeinfo: 'Typeinfo',
+  typeinfoName: 'Typeinfo name',
+  guardVariable: 'Guard variable',
+  staticInitializer: 'Static initialization',
+  thunk: 'Thunk',
+  stringLiteral: 'String literal',
+  lambda: 'Lambda',
+  interruptHandler: 'Interrupt handler',
+  runtimeBuiltin: 'libc / libgcc builtin',
+};
+
+interface CategoryRule {
+  category: SymbolCategory;
+  mangledPrefixes?: string[];
+  demangledPrefixes?: string[];
+  namePattern?: RegExp;
+  inputSectionPattern?: RegExp;
+  kinds?: Array<AnalyzerSymbol['kind']>;
+}
+
+// Checked in order: a thunk to a lambda is a thunk, and a guard variable for a string is a guard variable.
+const CATEGORY_RULES: CategoryRule[] = [
+  {
+    category: 'thunk',
+    mangledPrefixes: ['_ZTh', '_ZTv', '_ZTc'],
+    demangledPrefixes: ['non-virtual thunk to ', 'virtual thunk to ', 'covariant return thunk to '],
+  },
+  {
+    category: 'vtable',
+    mangledPrefixes: ['_ZTV', '_ZTT'],
+    demangledPrefixes: ['vtable for ', 'VTT for ', 'construction vtable for '],
+  },
+  { category: 'typeinfoName', mangledPrefixes: ['_ZTS'], demangledPrefixes: ['typeinfo name for '] },
+  { category: 'typeinfo', mangledPrefixes: ['_ZTI'], demangledPrefixes: ['typeinfo for '] },
+  { category: 'guardVariable', mangledPrefixes: ['_ZGV'], demangledPrefixes: ['guard variable for '] },
+  {
+    category: 'staticInitializer',
+    // Not `.text.startup`: GCC puts `main` there too.
+    namePattern: /^(?:_GLOBAL__(?:sub_)?[ID]_|__static_initialization_and_destruction_\d+)/,
+    kinds: ['func'],
+  },
+  { category: 'lambda', namePattern: /\{lambda\(|'lambda\d*'\(/ },
+  {
+    category: 'interruptHandler',
+    namePattern: /(?:_isr|_IRQHandler|_Handler)$|^(?:__vector_\d+|unused_interrupt_vector)$/,
+    kinds: ['func'],
+  },
+  {
+    category: 'stringLiteral',
+    namePattern: /^(?:__func__|__FUNCTION__|__PRETTY_FUNCTION__|__c)(?:\.\d+)?$/,
+    inputSectionPattern: /\.str\d+\.\d+$/,
+    kinds: ['object', 'other'],
+  },
+  {
+    category: 'runtimeBuiltin',
+    namePattern:
+      /^(?:__aeabi_|__gnu_|__ieee754_|__kernel_|__libc_)|^__[a-z]+(?:qi|hi|si|di|ti|sf|df|tf)\d$|^_(?:impure_ptr|global_impure_ptr)$|^_[a-z][a-z0-9_]*_r$/,
+  },
+];
+
+// Archives from the C runtime and compiler support library, with or without the nano/hard-float variants.
+const RUNTIME_ARCHIVE_REGEX = /^lib(?:c|g|m|gcc|nosys|c_nano|g_nano|stdc\+\+|stdc\+\+_nano|supc\+\+|supc\+\+_nano)\.a$/i;
+
+// Map paths are whatever the toolchain wrote, so accept both separators regardless of the host.
+const basename = (filePath: string): string => filePath.split(/[\\/]/).pop() ?? filePath;
+
+const startsWithAny = (value: string, prefixes: string[] | undefined): boolean =>
+  Boolean(prefixes?.some((prefix) => value.startsWith(prefix)));
+
+const matchesRule = (rule: CategoryRule, symbol: AnalyzerSymbol): boolean => {
+  if (rule.kinds && !rule.kinds.includes(symbol.kind)) {
+    return false;
+  }
+  return (
+    startsWithAny(symbol.nameMangled, rule.mangledPrefixes) ||
+    startsWithAny(symbol.name, rule.demangledPrefixes) ||
+    Boolean(rule.namePattern?.test(symbol.name) || rule.namePattern?.test(symbol.nameMangled)) ||
+    Boolean(symbol.inputSectionName && rule.inputSectionPattern?.test(symbol.inputSectionName))
+  );
+};
+
+/**
+ * Derives the secondary category of a symbol from its mangled and demangled names, the input section
+ * it came from (when a linker map is loaded) and whether its object file came from a runtime archive.
+ */
+export const classifySymbolCategory = (
+  symbol: AnalyzerSymbol,
+  archivePath?: string,
+): SymbolCategory | undefined => {
+  const rule = CATEGORY_RULES.find((candidate) => matchesRule(candidate, symbol));
+  if (rule) {
+    return rule.category;
+  }
+  if (archivePath && RUNTIME_ARCHIVE_REGEX.test(basename(archivePath))) {
+    return 'runtimeBuiltin';
+  }
+  return undefined;
+};
+
+export const applySymbolCategories = (symbols: AnalyzerSymbol[], linkerMap?: LinkerMap): void => {
+  const archivePathByObjectFileId = new Map(
+    (linkerMap?.objectFiles ?? []).map((objectFile) => [objectFile.id, objectFile.archivePath] as const),
+  );
+
+  symbols.forEach((symbol) => {
+    const archivePath = symbol.objectFileId ? archivePathByObjectFileId.get(symbol.objectFileId) : undefined;
+    symbol.category = classifySymbolCategory(symbol, archivePath);
+  });
+};
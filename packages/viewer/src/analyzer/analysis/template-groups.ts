@@ -1,4 +1,4 @@
-import type { Symbol } from '../model';
+import type { DemangledName, Symbol } from '../model';
 import type {
   TemplateGroupSpecializationSummary,
   TemplateGroupSummary,
@@ -12,6 +12,28 @@ interface TemplateParseResult {
   specializationKey: string | null;
 }
 
+/**
+ * Groups by the outermost templated scope of the demangled tree, so `ns::Foo<int>::bar()` and
+ * `ns::Foo<int>::baz()` both belong to `ns::Foo` with specialization `int`.
+ */
+const parseDemangledTemplate = (demangled: DemangledName): TemplateParseResult | null => {
+  const templateIndex = demangled.path.findIndex((segment) => segment.templateArgs !== undefined);
+  if (templateIndex === -1) {
+    return null;
+  }
+
+  const scope = demangled.path
+    .slice(0, templateIndex + 1)
+    .map((segment) => segment.name)
+    .join('::');
+  const specialization = demangled.path[templateIndex].templateArgs?.join(', ') ?? '';
+  return {
+    groupName: demangled.special ? `${demangled.special} ${scope}` : scope,
+    specializationKey: specialization.length > 0 ? specialization : null,
+  };
+};
+
+// Fallback for names without a demangle tree (C symbols, or names only c++filt could demangle).
 const parseTemplateSignature = (name: string): TemplateParseResult | null => {
   const ltIndex = name.indexOf('<');
   if (ltIndex === -1) {
@@ -116,6 +138,7 @@ const toTemplateGroupSymbolSummary = (
   mangledName: symbol.nameMangled || undefined,
   sizeBytes: Number.isFinite(symbol.size) ? symbol.size : 0,
   specializationKey,
+  category: symbol.category,
   sectionId: symbol.sectionId,
   blockId: symbol.blockId,
   windowId: symbol.windowId,
@@ -137,7 +160,9 @@ export const buildTemplateGroups = (symbols: Symbol[]): TemplateGroupSummary[] =
   const groups = new Map<string, GroupAccumulator>();
 
   symbols.forEach((symbol) => {
-    const parsed = parseTemplateSignature(symbol.name ?? '');
+    const parsed = symbol.demangled
+      ? parseDemangledTemplate(symbol.demangled)
+      : parseTemplateSignature(symbol.name ?? '');
     const isTemplate = parsed !== null;
     const groupId = isTemplate ? parsed.groupName : `${NON_TEMPLATE_GROUP_PREFIX} ${symbol.name}`;
     const displayName = isTemplate ? parsed!.groupName : symbol.name;
@@ -0,0 +1,87 @@
+import { ToolchainCommands } from '../toolchain/resolver';
+import { runCommand } from '../utils/exec';
+import { SymbolTableEntry } from '../parsers/elf';
+import { demangle, isMangledName } from '../parsers/demangle';
+
+const describeFailure = (command: string, error: unknown): string =>
+  `Toolchain command ${command} is unavailable (${error instanceof Error ? error.message : String(error)}).`;
+
+/**
+ * Demangles C++ names in-process. `rawName` keeps the mangled name exactly as it appears in `.symtab`,
+ * so aliases such as complete and base object constructors (`C1`/`C2`) remain distinguishable.
+ * Returns the names the in-process demangler could not handle.
+ */
+const demangleInProcess = (symbols: SymbolTableEntry[]): SymbolTableEntry[] => {
+  const cache = new Map<string, ReturnType<typeof demangle>>();
+  const unresolved: SymbolTableEntry[] = [];
+
+  symbols.forEach((symbol) => {
+    if (!isMangledName(symbol.rawName)) {
+      return;
+    }
+    if (!cache.has(symbol.rawName)) {
+      cache.set(symbol.rawName, demangle(symbol.rawName));
+    }
+    const result = cache.get(symbol.rawName);
+    if (!result) {
+      unresolved.push(symbol);
+      return;
+    }
+    symbol.name = result.text;
+    symbol.demangled = result.name;
+  });
+
+  return unresolved;
+};
+
+// c++filt is only a fallback for constructs the in-process demangler does not cover; those names get no structure.
+const demangleWithCxxfilt = async (
+  symbols: SymbolTableEntry[],
+  toolchain: ToolchainCommands,
+  signal?: AbortSignal,
+): Promise<string[]> => {
+  const mangledNames = Array.from(new Set(symbols.map((symbol) => symbol.rawName)));
+  if (mangledNames.length === 0) {
+    return [];
+  }
+
+  try {
+    const result = await runCommand(toolchain.cxxfilt, [], { input: `${mangledNames.join('\n')}\n`, signal });
+    if (result.exitCode !== 0) {
+      return [`Failed to demangle symbol names.\nCommand: ${toolchain.cxxfilt}\n${result.stderr.trim()}`];
+    }
+
+    const demangled = result.stdout.split(/\r?\n/);
+    const lookup = new Map<string, string>();
+    mangledNames.forEach((name, index) => {
+      const value = demangled[index]?.trim();
+      if (value) {
+        lookup.set(name, value);
+      }
+    });
+
+    symbols.forEach((symbol) => {
+      symbol.name = lookup.get(symbol.rawName) ?? symbol.name;
+    });
+    return [];
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    return [`${describeFailure(toolchain.cxxfilt, error)} ${mangledNames.length} symbol names will stay mangled.`];
+  }
+};
+
+/**
+ * Demangles symbols read from the ELF, falling back to binutils for names the built-in demangler
+ * rejects. The fallback is optional: a missing toolchain yields warnings, never a failed analysis; only an
+ * aborted `signal` makes it reject.
+ */
+export const applyToolchainExtras = async (
+  symbols: SymbolTableEntry[],
+  toolchain: ToolchainCommands,
+  signal?: AbortSignal,
+): Promise<string[]> => {
+  const unresolved = demangleInProcess(symbols);
+  return demangleWithCxxfilt(unresolved, toolchain, signal);
+};
@@ -2,7 +2,7 @@ import { readFile } from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'node:url';
 import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
-import { MemoryMapConfig } from '../model';
+import { MemoryBudget, MemoryMapConfig } from '../model';
 
 export interface LoadMemoryMapOptions {
   /**
@@ -91,3 +91,48 @@ export const getMemoryMapConfigPath = (
   const configDir = options.baseDir ?? DEFAULT_CONFIG_DIR;
   return path.join(configDir, `${targetId}.json`);
 };
+
+const getBudgetFileValidator = async (schemaPath: string): Promise<ValidateFunction> => {
+  const cacheKey = `${schemaPath}#budgets`;
+  const cached = validatorCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const schemaJson = JSON.parse(await readFile(schemaPath, 'utf8'));
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  const validator = ajv.compile({
+    type: 'object',
+    required: ['budgets'],
+    properties: {
+      $schema: { type: 'string' },
+      budgets: { $ref: '#/definitions/budgets' },
+    },
+    additionalProperties: false,
+    definitions: schemaJson.definitions,
+  });
+  validatorCache.set(cacheKey, validator);
+  return validator;
+};
+
+/**
+ * Loads budgets kept outside the memory-map config: a JSON file of the form `{ "budgets": [...] }`,
+ * validated against the same schema definition as the config's `budgets` section.
+ */
+export const loadBudgetFile = async (
+  filePath: string,
+  options: LoadMemoryMapOptions = {},
+): Promise<MemoryBudget[]> => {
+  const configDir = options.baseDir ?? DEFAULT_CONFIG_DIR;
+  const schemaPath = options.schemaPath ?? getDefaultSchemaPath(configDir);
+
+  const validator = await getBudgetFileValidator(schemaPath);
+  const data = await parseJsonFile(filePath);
+
+  if (!validator(data)) {
+    const details = formatValidationErrors(validator.errors);
+    throw new Error(`Budget file at ${filePath} failed validation:\n${details}`.trim());
+  }
+
+  return (data as { budgets: MemoryBudget[] }).budgets;
+};
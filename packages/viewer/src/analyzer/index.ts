@@ -3,5 +3,13 @@ export * from './config/loader';
 export * from './analysis/analyzer';
 export * from './analysis/summaries';
 export * from './analysis/reports/teensy-size';
+export * from './analysis/reports/teensy-size-text';
+export * from './analysis/reports/exporters';
+export * from './analysis/budgets';
+export * from './analysis/compare';
 export * from './analysis/address-resolver';
+export * from './analysis/crash-report';
+export * from './analysis/source-lines';
 export * from './analysis/template-groups';
+export * from './analysis/link-reasons';
+export * from './analysis/symbol-classification';
@@ -80,8 +80,47 @@ export interface TeensySizeReportEntryConfig {
   tagBuckets?: TagBucketsConfig;
 }
 
+/**
+ * One `teensy_size` output line. `format` is the text after the line prefix, with `{...}` placeholders
+ * naming a tag bucket of the report entry or one of `capacityBytes`, `rawUsedBytes`, `adjustedUsedBytes`,
+ * `freeBytes`, `roundingBytes`, `codeBytes`, `dataBytes` and `blockBytes`; `{data+bss}` sums several.
+ */
+export interface TeensySizeLineConfig {
+  reportId: string;
+  format: string;
+}
+
+export interface TeensySizeTextConfig {
+  /** Written before every line, e.g. `teensy_size: `. */
+  linePrefix?: string;
+  /** First line, after the prefix, e.g. `Memory Usage on Teensy 4.0:`. */
+  title?: string;
+  lines: TeensySizeLineConfig[];
+}
+
 export interface ReportsConfig {
   teensySize?: Record<string, TeensySizeReportEntryConfig>;
+  teensySizeText?: TeensySizeTextConfig;
+}
+
+/**
+ * A size limit on one thing the analysis measures. Exactly one of `hardwareBankId`, `logicalBlockId`,
+ * `reportBucket` or `symbolPattern` says what is measured; a budget warns once usage reaches
+ * `warnBytes` (or `warnPercent` of `maxBytes`) and fails above `maxBytes`.
+ */
+export interface MemoryBudget {
+  id?: string;
+  label?: string;
+  hardwareBankId?: string;
+  logicalBlockId?: string;
+  reportBucket?: { reportId: string; bucket: string };
+  /** Regular expression tested against demangled and mangled symbol names. */
+  symbolPattern?: string;
+  /** For `symbolPattern`: check each matching symbol on its own instead of their total. */
+  perSymbol?: boolean;
+  maxBytes: number;
+  warnBytes?: number;
+  warnPercent?: number;
 }
 
 export interface MemoryMapConfig {
@@ -94,6 +133,7 @@ export interface MemoryMapConfig {
   logicalBlocks: LogicalBlock[];
   sectionRules: SectionRule[];
   reports?: ReportsConfig;
+  budgets?: MemoryBudget[];
 }
 
 export interface SectionFlags {
@@ -131,33 +171,106 @@ export interface Section {
   blockAssignments: SectionBlockAssignment[];
   primaryBlockId?: string;
   primaryWindowId?: string;
+  segmentId?: string;
+}
+
+export interface SegmentFlags {
+  read: boolean;
+  write: boolean;
+  exec: boolean;
+}
+
+/**
+ * A PT_LOAD program header. `paddr` is where the loader (or flasher) puts the bytes and `vaddr` is
+ * where they run; `memsz` beyond `filesz` is zero-filled at startup.
+ */
+export interface Segment {
+  id: string;
+  index: number;
+  vaddr: number;
+  paddr: number;
+  filesz: number;
+  memsz: number;
+  align: number;
+  flags: SegmentFlags;
+  sectionIds: string[];
+  zeroFillBytes: number;
 }
 
 export type SymbolKind = 'func' | 'object' | 'section' | 'file' | 'other';
 
+/**
+ * What a symbol is for, beyond its `SymbolKind`: compiler-generated C++ support data, startup and
+ * runtime helpers, and similar. Ordinary functions and variables have no category.
+ */
+export type SymbolCategory =
+  | 'vtable'
+  | 'typeinfo'
+  | 'typeinfoName'
+  | 'guardVariable'
+  | 'staticInitializer'
+  | 'thunk'
+  | 'stringLiteral'
+  | 'lambda'
+  | 'interruptHandler'
+  | 'runtimeBuiltin';
+
 export interface SourceLocation {
   file: string;
   line: number;
 }
 
+export interface DemangledNameSegment {
+  name: string;
+  templateArgs?: string[];
+}
+
+/**
+ * The structure of an Itanium C++ ABI name. `path` runs from the outermost namespace or class to the
+ * entity itself; an enclosing function of a local entity is one segment that includes its parameter
+ * list. `special` holds prefixes such as `vtable for` or `non-virtual thunk to`.
+ */
+export interface DemangledName {
+  special?: string;
+  path: DemangledNameSegment[];
+  returnType?: string;
+  parameters?: string[];
+  qualifiers?: string;
+  clones?: string[];
+}
+
 export interface Symbol {
   id: string;
   nameMangled: string;
   name: string;
   kind: SymbolKind;
+  category?: SymbolCategory;
   addr: number;
   size: number;
   sectionId?: string;
+  inputSectionName?: string;
   blockId?: string;
   windowId?: string;
   isWeak?: boolean;
   isStatic?: boolean;
   isTls?: boolean;
+  isSizeInferred?: boolean;
+  demangled?: DemangledName;
   source?: SourceLocation;
   logicalPath?: string[];
   aliases?: string[];
   primaryLocation?: SymbolLocation;
   locations?: SymbolLocation[];
+  objectFileId?: string;
+  compileUnitId?: string;
+  inlinedInto?: string[];
+}
+
+export interface CompileUnit {
+  id: string;
+  name: string;
+  compDir?: string;
+  producer?: string;
 }
 
 export interface TemplateGroupSymbolSummary {
@@ -166,6 +279,7 @@ export interface TemplateGroupSymbolSummary {
   mangledName?: string;
   sizeBytes: number;
   specializationKey?: string | null;
+  category?: SymbolCategory;
   sectionId?: string;
   blockId?: string;
   windowId?: string;
@@ -201,6 +315,65 @@ export interface TemplateGroupSummary {
   totals: TemplateGroupTotals;
 }
 
+export interface LinkerObjectFile {
+  id: string;
+  path: string;
+  archivePath?: string;
+  memberName?: string;
+  displayName: string;
+}
+
+export interface LinkerArchiveMember {
+  objectFileId: string;
+  referencedByObjectFileId?: string;
+  symbol: string;
+}
+
+export interface LinkerMemoryRegion {
+  name: string;
+  origin: number;
+  length: number;
+  attributes?: string;
+}
+
+export interface LinkerMapSymbol {
+  name: string;
+  address: number;
+}
+
+export interface LinkerInputSection {
+  name: string;
+  address: number;
+  size: number;
+  objectFileId?: string;
+  isFill: boolean;
+  fillPattern?: string;
+  symbols: LinkerMapSymbol[];
+}
+
+export interface LinkerDiscardedSection {
+  name: string;
+  size: number;
+  objectFileId: string;
+}
+
+export interface LinkerOutputSection {
+  name: string;
+  address: number;
+  size: number;
+  loadAddress?: number;
+  sectionId?: string;
+  inputSections: LinkerInputSection[];
+}
+
+export interface LinkerMap {
+  objectFiles: LinkerObjectFile[];
+  archiveMembers: LinkerArchiveMember[];
+  discardedSections: LinkerDiscardedSection[];
+  memoryRegions: LinkerMemoryRegion[];
+  outputSections: LinkerOutputSection[];
+}
+
 export interface TargetInfo {
   name: string;
   addressModel: 'flat';
@@ -210,6 +383,7 @@ export interface TargetInfo {
 export interface BuildInfo {
   elfPath: string;
   mapPath?: string;
+  hexPath?: string;
   buildId?: string;
   timestamp?: string;
 }
@@ -226,6 +400,12 @@ export interface CategorySummary {
   loadImageBytes: number;
 }
 
+export interface SymbolCategorySummary {
+  category: SymbolCategory;
+  symbolCount: number;
+  sizeBytes: number;
+}
+
 export interface FileOnlySectionSummary {
   sectionId: string;
   name: string;
@@ -356,13 +536,83 @@ export interface TagUsageSummary {
   bytes: number;
 }
 
+export interface ContributorBankUsage {
+  hardwareBankId: string;
+  bytes: number;
+}
+
+export interface ContributorBlockUsage {
+  blockId: string;
+  windowId: string;
+  bytes: number;
+}
+
+export interface ObjectFileSummary {
+  objectFileId: string;
+  displayName: string;
+  archivePath?: string;
+  sizeBytes: number;
+  byHardwareBank: ContributorBankUsage[];
+  byBlock: ContributorBlockUsage[];
+}
+
+export interface ArchiveSummary {
+  archivePath?: string;
+  displayName: string;
+  objectFileIds: string[];
+  sizeBytes: number;
+  byHardwareBank: ContributorBankUsage[];
+  byBlock: ContributorBlockUsage[];
+}
+
+/**
+ * How much of a section the symbol table accounts for. `attributedBytes` counts overlapping symbols
+ * (aliases, nested labels) once and includes `inferredBytes`, the share covered by symbols whose
+ * size was inferred from the next symbol.
+ */
+export interface SectionAttributionSummary {
+  sectionId: string;
+  sizeBytes: number;
+  symbolCount: number;
+  attributedBytes: number;
+  inferredBytes: number;
+  unattributedBytes: number;
+}
+
+export interface SegmentZeroFillSummary {
+  segmentId: string;
+  start: number;
+  bytes: number;
+  sectionIds: string[];
+}
+
+export interface FlashImageSummary {
+  matchesElf: boolean;
+  firstAddress: number;
+  endAddress: number;
+  spanBytes: number;
+  programmedBytes: number;
+  expectedBytes: number;
+  gapBytes: number;
+  fillBytes: number;
+  missingBytes: number;
+  differingBytes: number;
+  startAddressMatches?: boolean;
+}
+
 export interface Summaries {
   totals: TotalsSummary;
   byCategory: CategorySummary[];
+  bySymbolCategory: SymbolCategorySummary[];
   byWindow: WindowSummary[];
   hardwareBanks: HardwareBankSummary[];
   fileOnly: FileOnlySummary;
   tagTotals: TagUsageSummary[];
+  byArchive: ArchiveSummary[];
+  byObjectFile: ObjectFileSummary[];
+  flashImage?: FlashImageSummary;
+  zeroFill: SegmentZeroFillSummary[];
+  bySection: SectionAttributionSummary[];
 }
 
 export interface TeensySizeReportEntrySummary {
@@ -379,13 +629,126 @@ export interface TeensySizeReportEntrySummary {
 
 export type TeensySizeReportSummary = Record<string, TeensySizeReportEntrySummary>;
 
+export type BudgetScope = 'hardwareBank' | 'logicalBlock' | 'reportBucket' | 'symbolPattern';
+
+export type BudgetStatus = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetCheckEntry {
+  budgetId: string;
+  label: string;
+  scope: BudgetScope;
+  usedBytes: number;
+  maxBytes: number;
+  warnBytes?: number;
+  status: BudgetStatus;
+  /** The symbols measured, for `symbolPattern` budgets. */
+  symbolIds?: string[];
+  hardwareBankId?: string;
+  windowIds?: string[];
+}
+
+export interface BudgetCheckResult {
+  /** The worst status across all entries; `ok` when no budgets are configured. */
+  status: BudgetStatus;
+  entries: BudgetCheckEntry[];
+}
+
+export interface FlashImageRange {
+  start: number;
+  size: number;
+}
+
+export interface FlashImageFillRange extends FlashImageRange {
+  fillByte?: number;
+}
+
+export type FlashImageMismatchKind = 'missing' | 'different';
+
+export interface FlashImageMismatch extends FlashImageRange {
+  kind: FlashImageMismatchKind;
+  sectionId: string;
+}
+
+/**
+ * The flashed Intel HEX image compared against the ELF sections placed in the windows it covers.
+ * `mismatches` is capped; `missingBytes`/`differingBytes` always hold the full totals.
+ */
+export interface FlashImage {
+  windowIds: string[];
+  ranges: FlashImageRange[];
+  gaps: FlashImageRange[];
+  fill: FlashImageFillRange[];
+  mismatches: FlashImageMismatch[];
+  programmedBytes: number;
+  expectedBytes: number;
+  missingBytes: number;
+  differingBytes: number;
+  startAddress?: number;
+  elfEntryAddress?: number;
+}
+
 export interface Analysis {
   target: TargetInfo;
   build: BuildInfo;
   config: MemoryMapConfig;
   sections: Section[];
+  segments: Segment[];
   symbols: Symbol[];
   templateGroups: TemplateGroupSummary[];
+  linkerMap?: LinkerMap;
+  compileUnits?: CompileUnit[];
+  flashImage?: FlashImage;
+}
+
+export type SymbolMatchKind = 'mangledName' | 'cloneBase';
+
+export interface SymbolSnapshot {
+  symbolId: string;
+  name: string;
+  nameMangled: string;
+  size: number;
+  addr: number;
+  windowId?: string;
+  sectionId?: string;
+}
+
+/** One symbol across two builds; `before` or `after` is missing for removed and added symbols. */
+export interface SymbolComparison {
+  name: string;
+  before?: SymbolSnapshot;
+  after?: SymbolSnapshot;
+  deltaBytes: number;
+  /** How the two sides were paired: by identical mangled name, or with GCC clone suffixes stripped. */
+  matchedBy?: SymbolMatchKind;
+}
+
+export interface SizeDelta {
+  id: string;
+  label: string;
+  beforeBytes: number;
+  afterBytes: number;
+  deltaBytes: number;
+}
+
+export interface AnalysisComparison {
+  totals: {
+    runtime: SizeDelta;
+    loadImage: SizeDelta;
+    fileOnly: SizeDelta;
+  };
+  symbols: {
+    added: SymbolComparison[];
+    removed: SymbolComparison[];
+    grown: SymbolComparison[];
+    shrunk: SymbolComparison[];
+    movedWindow: SymbolComparison[];
+    unchangedCount: number;
+  };
+  windows: SizeDelta[];
+  hardwareBanks: SizeDelta[];
+  /** One entry per report tag, from `Summaries.tagTotals`. */
+  tagBuckets: SizeDelta[];
+  templateGroups: SizeDelta[];
 }
 
 export const createEmptyAnalysis = (): Analysis => ({
@@ -407,6 +770,7 @@ export const createEmptyAnalysis = (): Analysis => ({
     reports: {},
   },
   sections: [],
+  segments: [],
   symbols: [],
   templateGroups: [],
 });
@@ -414,7 +778,50 @@ export const createEmptyAnalysis = (): Analysis => ({
 export interface AnalyzeBuildParams {
   elfPath: string;
   mapPath?: string;
+  hexPath?: string;
   targetId: string;
   toolchainPrefix?: string;
   toolchainDir?: string;
+  /** Directory holding the target memory-map JSON files; defaults to the repo-level `config/` folder. */
+  configDir?: string;
+  /** Stops the analysis at the next phase and kills any toolchain command still running. */
+  signal?: AbortSignal;
+  /** Called as each phase of the analysis starts. */
+  onProgress?: (progress: AnalysisProgress) => void;
+  /**
+   * Called with a resolver for the ELF's DWARF line table, built from the debug information the analysis
+   * reads anyway. Not called when the ELF has none.
+   */
+  onSourceLines?: (resolver: SourceLineResolver) => void;
+}
+
+export interface SourceLineResolver {
+  /** True when the ELF carries a DWARF line table; otherwise every lookup returns undefined. */
+  hasLineTable: boolean;
+  resolve(address: number): SourceLocation | undefined;
+}
+
+/**
+ * Phases of `analyzeBuild` in the order they run. The ELF is parsed in-process, so reading it stands in
+ * for `readelf`, and reading its symbol table, demangled with `c++filt` where needed, for `nm`.
+ * `linker-map` and `flash-image` only run when a map or HEX file is given.
+ */
+export const ANALYSIS_PHASES = [
+  'read-elf',
+  'section-classification',
+  'symbols',
+  'symbol-assignment',
+  'debug-info',
+  'linker-map',
+  'symbol-classification',
+  'flash-image',
+] as const;
+
+export type AnalysisPhase = (typeof ANALYSIS_PHASES)[number];
+
+/** `step` counts from 1 up to `totalSteps`, the number of phases this analysis runs. */
+export interface AnalysisProgress {
+  phase: AnalysisPhase;
+  step: number;
+  totalSteps: number;
 }
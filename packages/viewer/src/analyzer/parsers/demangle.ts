@@ -0,0 +1,1099 @@
+import { DemangledName, DemangledNameSegment } from '../model';
+
+interface NameSegment {
+  name: string;
+  templateArgs?: DemangleNode[];
+}
+
+type DemangleNode =
+  | { kind: 'name'; segments: NameSegment[] }
+  | { kind: 'builtin'; text: string }
+  | { kind: 'text'; text: string }
+  | { kind: 'qualified'; inner: DemangleNode; qualifiers: string }
+  | { kind: 'pointer' | 'lvalueReference' | 'rvalueReference'; inner: DemangleNode }
+  | { kind: 'function'; returnType?: DemangleNode; parameters: DemangleNode[]; qualifiers: string; refQualifier: string }
+  | { kind: 'array'; inner: DemangleNode; dimension: string }
+  | { kind: 'memberPointer'; classType: DemangleNode; inner: DemangleNode }
+  | { kind: 'pack'; items: DemangleNode[] }
+  | { kind: 'expansion'; inner: DemangleNode };
+
+interface ParsedName {
+  node: DemangleNode;
+  qualifiers: string;
+  refQualifier: string;
+  isTemplated: boolean;
+  isCtorDtorOrConversion: boolean;
+}
+
+interface ParsedEncoding {
+  special: string[];
+  name: DemangleNode;
+  signature?: {
+    returnType?: DemangleNode;
+    parameters: DemangleNode[];
+    qualifiers: string;
+    refQualifier: string;
+  };
+}
+
+interface DemangleState {
+  input: string;
+  pos: number;
+  substitutions: DemangleNode[];
+  templateParams?: DemangleNode[];
+  depth: number;
+}
+
+interface RenderContext {
+  packIndex?: number;
+}
+
+export interface DemangleResult {
+  text: string;
+  name: DemangledName;
+}
+
+const BUILTIN_TYPES: Record<string, string> = {
+  v: 'void',
+  w: 'wchar_t',
+  b: 'bool',
+  c: 'char',
+  a: 'signed char',
+  h: 'unsigned char',
+  s: 'short',
+  t: 'unsigned short',
+  i: 'int',
+  j: 'unsigned int',
+  l: 'long',
+  m: 'unsigned long',
+  x: 'long long',
+  y: 'unsigned long long',
+  n: '__int128',
+  o: 'unsigned __int128',
+  f: 'float',
+  d: 'double',
+  e: 'long double',
+  g: '__float128',
+  z: '...',
+};
+
+const EXTENDED_BUILTIN_TYPES: Record<string, string> = {
+  Dd: 'decimal64',
+  De: 'decimal128',
+  Df: 'decimal32',
+  Dh: 'half',
+  Di: 'char32_t',
+  Ds: 'char16_t',
+  Du: 'char8_t',
+  Da: 'auto',
+  Dc: 'decltype(auto)',
+  Dn: 'decltype(nullptr)',
+};
+
+// Operator names with their arity, used both for `operator+` names and for expressions in template arguments.
+const OPERATORS: Record<string, { symbol: string; arity: number }> = {
+  nw: { symbol: 'new', arity: 1 },
+  na: { symbol: 'new[]', arity: 1 },
+  dl: { symbol: 'delete', arity: 1 },
+  da: { symbol: 'delete[]', arity: 1 },
+  ps: { symbol: '+', arity: 1 },
+  ng: { symbol: '-', arity: 1 },
+  ad: { symbol: '&', arity: 1 },
+  de: { symbol: '*', arity: 1 },
+  co: { symbol: '~', arity: 1 },
+  pl: { symbol: '+', arity: 2 },
+  mi: { symbol: '-', arity: 2 },
+  ml: { symbol: '*', arity: 2 },
+  dv: { symbol: '/', arity: 2 },
+  rm: { symbol: '%', arity: 2 },
+  an: { symbol: '&', arity: 2 },
+  or: { symbol: '|', arity: 2 },
+  eo: { symbol: '^', arity: 2 },
+  aS: { symbol: '=', arity: 2 },
+  pL: { symbol: '+=', arity: 2 },
+  mI: { symbol: '-=', arity: 2 },
+  mL: { symbol: '*=', arity: 2 },
+  dV: { symbol: '/=', arity: 2 },
+  rM: { symbol: '%=', arity: 2 },
+  aN: { symbol: '&=', arity: 2 },
+  oR: { symbol: '|=', arity: 2 },
+  eO: { symbol: '^=', arity: 2 },
+  ls: { symbol: '<<', arity: 2 },
+  rs: { symbol: '>>', arity: 2 },
+  lS: { symbol: '<<=', arity: 2 },
+  rS: { symbol: '>>=', arity: 2 },
+  eq: { symbol: '==', arity: 2 },
+  ne: { symbol: '!=', arity: 2 },
+  lt: { symbol: '<', arity: 2 },
+  gt: { symbol: '>', arity: 2 },
+  le: { symbol: '<=', arity: 2 },
+  ge: { symbol: '>=', arity: 2 },
+  ss: { symbol: '<=>', arity: 2 },
+  nt: { symbol: '!', arity: 1 },
+  aa: { symbol: '&&', arity: 2 },
+  oo: { symbol: '||', arity: 2 },
+  pp: { symbol: '++', arity: 1 },
+  mm: { symbol: '--', arity: 1 },
+  cm: { symbol: ',', arity: 2 },
+  pm: { symbol: '->*', arity: 2 },
+  pt: { symbol: '->', arity: 2 },
+  cl: { symbol: '()', arity: 2 },
+  ix: { symbol: '[]', arity: 2 },
+  qu: { symbol: '?', arity: 3 },
+};
+
+const INTEGER_LITERAL_SUFFIXES: Record<string, string> = {
+  i: '',
+  j: 'u',
+  l: 'l',
+  m: 'ul',
+  x: 'll',
+  y: 'ull',
+};
+
+const STD_SEGMENT: NameSegment = { name: 'std' };
+
+const textNode = (text: string): DemangleNode => ({ kind: 'text', text });
+
+const charTraits = (charType: string): DemangleNode =>
+  ({ kind: 'name', segments: [STD_SEGMENT, { name: 'char_traits', templateArgs: [textNode(charType)] }] });
+
+const allocator = (charType: string): DemangleNode =>
+  ({ kind: 'name', segments: [STD_SEGMENT, { name: 'allocator', templateArgs: [textNode(charType)] }] });
+
+// `Ss`, `Si`, ... are printed in full, as c++filt does.
+const STANDARD_SUBSTITUTIONS: Record<string, DemangleNode> = {
+  a: { kind: 'name', segments: [STD_SEGMENT, { name: 'allocator' }] },
+  b: { kind: 'name', segments: [STD_SEGMENT, { name: 'basic_string' }] },
+  s: {
+    kind: 'name',
+    segments: [STD_SEGMENT, { name: 'basic_string', templateArgs: [textNode('char'), charTraits('char'), allocator('char')] }],
+  },
+  i: { kind: 'name', segments: [STD_SEGMENT, { name: 'basic_istream', templateArgs: [textNode('char'), charTraits('char')] }] },
+  o: { kind: 'name', segments: [STD_SEGMENT, { name: 'basic_ostream', templateArgs: [textNode('char'), charTraits('char')] }] },
+  d: { kind: 'name', segments: [STD_SEGMENT, { name: 'basic_iostream', templateArgs: [textNode('char'), charTraits('char')] }] },
+};
+
+// GCC function clones: `.constprop.0`, `.isra.0`, `.part.0`, `.cold`, `.lto_priv.0`, ...
+const CLONE_SUFFIX_REGEX = /\.[a-z0-9_]+(?:\.\d+)*/y;
+
+const fail = (state: DemangleState, message: string): never => {
+  throw new Error(`${message} at offset ${state.pos} of ${state.input}`);
+};
+
+const peek = (state: DemangleState, offset = 0): string => state.input[state.pos + offset] ?? '';
+
+const consume = (state: DemangleState, prefix: string): boolean => {
+  if (state.input.startsWith(prefix, state.pos)) {
+    state.pos += prefix.length;
+    return true;
+  }
+  return false;
+};
+
+const expect = (state: DemangleState, prefix: string): void => {
+  if (!consume(state, prefix)) {
+    fail(state, `Expected '${prefix}'`);
+  }
+};
+
+const isDigit = (char: string): boolean => char >= '0' && char <= '9';
+
+const parseDigits = (state: DemangleState): string => {
+  const start = state.pos;
+  while (isDigit(peek(state))) {
+    state.pos += 1;
+  }
+  if (state.pos === start) {
+    fail(state, 'Expected a number');
+  }
+  return state.input.slice(start, state.pos);
+};
+
+const parseNumber = (state: DemangleState): number => {
+  const negative = consume(state, 'n');
+  const value = Number.parseInt(parseDigits(state), 10);
+  return negative ? -value : value;
+};
+
+// <seq-id> is base 36 using digits and upper-case letters.
+const parseSeqId = (state: DemangleState): number => {
+  const start = state.pos;
+  while (/[0-9A-Z]/.test(peek(state))) {
+    state.pos += 1;
+  }
+  if (state.pos === start) {
+    fail(state, 'Expected a sequence id');
+  }
+  return Number.parseInt(state.input.slice(start, state.pos), 36);
+};
+
+const parseSourceName = (state: DemangleState): string => {
+  const length = Number.parseInt(parseDigits(state), 10);
+  if (state.pos + length > state.input.length) {
+    fail(state, 'Source name runs past the end');
+  }
+  const name = state.input.slice(state.pos, state.pos + length);
+  state.pos += length;
+  return name.startsWith('_GLOBAL__N') ? '(anonymous namespace)' : name;
+};
+
+const parseDiscriminator = (state: DemangleState): void => {
+  if (consume(state, '__')) {
+    parseDigits(state);
+    expect(state, '_');
+  } else if (consume(state, '_')) {
+    parseDigits(state);
+  }
+};
+
+const parseCvQualifiers = (state: DemangleState): string => {
+  const restrict = consume(state, 'r');
+  const isVolatile = consume(state, 'V');
+  const isConst = consume(state, 'K');
+  return `${isConst ? ' const' : ''}${isVolatile ? ' volatile' : ''}${restrict ? ' restrict' : ''}`;
+};
+
+const parseRefQualifier = (state: DemangleState): string => {
+  if (consume(state, 'R')) {
+    return ' &';
+  }
+  if (consume(state, 'O')) {
+    return ' &&';
+  }
+  return '';
+};
+
+// ---------------------------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------------------------
+
+const findPack = (node: DemangleNode): Extract<DemangleNode, { kind: 'pack' }> | undefined => {
+  switch (node.kind) {
+    case 'pack':
+      return node;
+    case 'qualified':
+    case 'pointer':
+    case 'lvalueReference':
+    case 'rvalueReference':
+    case 'array':
+      return findPack(node.inner);
+    case 'memberPointer':
+      return findPack(node.classType) ?? findPack(node.inner);
+    case 'function':
+      return [node.returnType, ...node.parameters]
+        .map((entry) => (entry ? findPack(entry) : undefined))
+        .find((entry) => entry !== undefined);
+    case 'name':
+      return node.segments
+        .flatMap((segment) => segment.templateArgs ?? [])
+        .map(findPack)
+        .find((entry) => entry !== undefined);
+    default:
+      return undefined;
+  }
+};
+
+// Renders a list element, flattening argument packs and pack expansions into their items.
+const renderListItems = (node: DemangleNode, context: RenderContext): string[] => {
+  if (node.kind === 'pack' && context.packIndex === undefined) {
+    return node.items.flatMap((item) => renderListItems(item, context));
+  }
+  if (node.kind === 'expansion') {
+    const pack = findPack(node.inner);
+    if (!pack) {
+      return [renderType(node.inner, context)];
+    }
+    return pack.items.map((_item, packIndex) => renderType(node.inner, { packIndex }));
+  }
+  return [renderType(node, context)];
+};
+
+const renderList = (nodes: DemangleNode[], context: RenderContext): string[] =>
+  nodes.flatMap((node) => renderListItems(node, context));
+
+const renderTemplateArgs = (args: DemangleNode[], context: RenderContext): string => {
+  const rendered = renderList(args, context).join(', ');
+  return `<${rendered}${rendered.endsWith('>') ? ' ' : ''}>`;
+};
+
+const renderSegment = (segment: NameSegment, context: RenderContext): string => {
+  if (!segment.templateArgs) {
+    return segment.name;
+  }
+  // `operator<` followed by `<...>` needs a space to stay readable, as c++filt prints it.
+  const separator = segment.name.endsWith('<') ? ' ' : '';
+  return `${segment.name}${separator}${renderTemplateArgs(segment.templateArgs, context)}`;
+};
+
+const renderName = (segments: NameSegment[], context: RenderContext): string =>
+  segments.map((segment) => renderSegment(segment, context)).join('::');
+
+const renderFunctionSuffix = (
+  node: Extract<DemangleNode, { kind: 'function' }>,
+  context: RenderContext,
+): string => `(${renderList(node.parameters, context).join(', ')})${node.qualifiers}${node.refQualifier}`;
+
+/**
+ * Renders a type C-declarator style: `declarator` is what has been wrapped around the type so far
+ * (`*`, ` const`, `&`, `Foo::*`) and ends up after the base type or inside `(...)` for functions and arrays.
+ */
+const renderDeclarator = (node: DemangleNode, declarator: string, context: RenderContext): string => {
+  switch (node.kind) {
+    case 'qualified':
+      return renderDeclarator(node.inner, `${node.qualifiers}${declarator}`, context);
+    case 'pointer':
+      return renderDeclarator(node.inner, `*${declarator}`, context);
+    case 'lvalueReference':
+      return renderDeclarator(node.inner, `&${declarator}`, context);
+    case 'rvalueReference':
+      return renderDeclarator(node.inner, `&&${declarator}`, context);
+    case 'memberPointer': {
+      const classText = renderType(node.classType, context);
+      return node.inner.kind === 'function'
+        ? renderDeclarator(node.inner, `${classText}::*${declarator}`, context)
+        : renderDeclarator(node.inner, ` ${classText}::*${declarator}`, context);
+    }
+    case 'function': {
+      const returnText = node.returnType ? renderType(node.returnType, context) : '';
+      const inner = declarator ? `(${declarator.trimStart()})` : '';
+      return `${returnText} ${inner}${renderFunctionSuffix(node, context)}`;
+    }
+    case 'array': {
+      const inner = declarator ? `(${declarator.trimStart()}) ` : '';
+      return `${renderType(node.inner, context)} ${inner}[${node.dimension}]`;
+    }
+    default:
+      return `${renderAtom(node, context)}${declarator}`;
+  }
+};
+
+const renderAtom = (node: DemangleNode, context: RenderContext): string => {
+  switch (node.kind) {
+    case 'name':
+      return renderName(node.segments, context);
+    case 'builtin':
+    case 'text':
+      return node.text;
+    case 'pack':
+      return context.packIndex !== undefined && node.items[context.packIndex]
+        ? renderType(node.items[context.packIndex], context)
+        : renderList(node.items, context).join(', ');
+    case 'expansion':
+      return renderListItems(node, context).join(', ');
+    default:
+      return renderDeclarator(node, '', context);
+  }
+};
+
+function renderType(node: DemangleNode, context: RenderContext = {}): string {
+  return renderDeclarator(node, '', context);
+}
+
+const segmentsOf = (node: DemangleNode): NameSegment[] =>
+  node.kind === 'name' ? node.segments : [{ name: renderType(node) }];
+
+const renderEncodingBody = (encoding: ParsedEncoding): string => {
+  const name = renderType(encoding.name);
+  const { signature } = encoding;
+  if (!signature) {
+    return name;
+  }
+  const returnText = signature.returnType ? `${renderType(signature.returnType)} ` : '';
+  const parameters = renderList(signature.parameters, {}).join(', ');
+  return `${returnText}${name}(${parameters})${signature.qualifiers}${signature.refQualifier}`;
+};
+
+const renderEncoding = (encoding: ParsedEncoding): string =>
+  [...encoding.special, renderEncodingBody(encoding)].join(' ');
+
+// ---------------------------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------------------------
+
+const withTemplateArgs = (node: DemangleNode, templateArgs: DemangleNode[]): DemangleNode => {
+  const segments = segmentsOf(node);
+  const last = segments[segments.length - 1];
+  return { kind: 'name', segments: [...segments.slice(0, -1), { ...last, templateArgs }] };
+};
+
+const makeReference = (kind: 'lvalueReference' | 'rvalueReference', inner: DemangleNode): DemangleNode => {
+  // Reference collapsing: only `&& &&` stays an rvalue reference.
+  if (inner.kind === 'lvalueReference') {
+    return inner;
+  }
+  if (inner.kind === 'rvalueReference') {
+    return kind === 'lvalueReference' ? { kind, inner: inner.inner } : inner;
+  }
+  return { kind, inner };
+};
+
+const qualify = (inner: DemangleNode, qualifiers: string): DemangleNode => {
+  if (!qualifiers) {
+    return inner;
+  }
+  if (inner.kind === 'function') {
+    return { ...inner, qualifiers: `${inner.qualifiers}${qualifiers}` };
+  }
+  return { kind: 'qualified', inner, qualifiers };
+};
+
+const parseSubstitution = (state: DemangleState): DemangleNode => {
+  expect(state, 'S');
+  const standard = STANDARD_SUBSTITUTIONS[peek(state)];
+  if (standard) {
+    state.pos += 1;
+    return standard;
+  }
+  const index = consume(state, '_') ? 0 : parseSeqId(state) + 1;
+  if (index > 0) {
+    expect(state, '_');
+  }
+  const node = state.substitutions[index];
+  if (!node) {
+    fail(state, `Unknown substitution ${index}`);
+  }
+  return node;
+};
+
+const parseTemplateParam = (state: DemangleState): DemangleNode => {
+  expect(state, 'T');
+  const index = consume(state, '_') ? 0 : Number.parseInt(parseDigits(state), 10) + 1;
+  if (index > 0) {
+    expect(state, '_');
+  }
+  const param = state.templateParams?.[index];
+  if (!param) {
+    fail(state, `Unknown template parameter ${index}`);
+  }
+  return param as DemangleNode;
+};
+
+const parseTemplateArgs = (state: DemangleState): DemangleNode[] => {
+  expect(state, 'I');
+  // Only the arguments of the encoded name itself are what `T_` in its signature refers to.
+  const isOuterName = state.depth === 0;
+  state.depth += 1;
+  const args: DemangleNode[] = [];
+  while (!consume(state, 'E')) {
+    args.push(parseTemplateArg(state));
+  }
+  state.depth -= 1;
+  if (isOuterName) {
+    state.templateParams = args;
+  }
+  return args;
+};
+
+function parseTemplateArg(state: DemangleState): DemangleNode {
+  switch (peek(state)) {
+    case 'X': {
+      state.pos += 1;
+      const expression = parseExpression(state);
+      expect(state, 'E');
+      return textNode(expression);
+    }
+    case 'L':
+      return textNode(parseExprPrimary(state));
+    case 'J': {
+      state.pos += 1;
+      const items: DemangleNode[] = [];
+      while (!consume(state, 'E')) {
+        items.push(parseTemplateArg(state));
+      }
+      return { kind: 'pack', items };
+    }
+    default:
+      return parseType(state);
+  }
+}
+
+function parseExprPrimary(state: DemangleState): string {
+  expect(state, 'L');
+  if (consume(state, '_Z') || consume(state, 'Z')) {
+    const encoding = parseEncoding(state);
+    expect(state, 'E');
+    return renderEncoding(encoding);
+  }
+
+  const type = parseType(state);
+  const start = state.pos;
+  while (peek(state) && peek(state) !== 'E') {
+    state.pos += 1;
+  }
+  const raw = state.input.slice(start, state.pos);
+  expect(state, 'E');
+  const value = raw.startsWith('n') ? `-${raw.slice(1)}` : raw;
+
+  if (type.kind === 'builtin') {
+    if (type.text === 'bool') {
+      return value === '0' ? 'false' : 'true';
+    }
+    const code = Object.keys(BUILTIN_TYPES).find((key) => BUILTIN_TYPES[key] === type.text);
+    const suffix = code !== undefined ? INTEGER_LITERAL_SUFFIXES[code] : undefined;
+    if (suffix !== undefined) {
+      return `${value}${suffix}`;
+    }
+  }
+  return `(${renderType(type)})${value}`;
+}
+
+function parseExpression(state: DemangleState): string {
+  if (peek(state) === 'L') {
+    return parseExprPrimary(state);
+  }
+  if (peek(state) === 'T') {
+    return renderType(parseTemplateParam(state));
+  }
+  if (consume(state, 'fp')) {
+    parseCvQualifiers(state);
+    const index = consume(state, '_') ? 1 : Number.parseInt(parseDigits(state), 10) + 2;
+    if (index > 1) {
+      expect(state, '_');
+    }
+    return `{parm#${index}}`;
+  }
+  if (consume(state, 'st')) {
+    return `sizeof (${renderType(parseType(state))})`;
+  }
+  if (consume(state, 'sz')) {
+    return `sizeof (${parseExpression(state)})`;
+  }
+  if (consume(state, 'sr')) {
+    const scope = renderType(parseType(state));
+    let name = parseSourceName(state);
+    if (peek(state) === 'I') {
+      name += renderTemplateArgs(parseTemplateArgs(state), {});
+    }
+    return `${scope}::${name}`;
+  }
+  if (consume(state, 'cv')) {
+    const type = renderType(parseType(state));
+    return `(${type})(${parseExpression(state)})`;
+  }
+
+  const operator = OPERATORS[state.input.slice(state.pos, state.pos + 2)];
+  if (!operator) {
+    return fail(state, 'Unsupported expression');
+  }
+  state.pos += 2;
+  const operands = Array.from({ length: operator.arity }, () => parseExpression(state));
+  if (operator.arity === 1) {
+    return `${operator.symbol}(${operands[0]})`;
+  }
+  if (operator.arity === 3) {
+    return `(${operands[0]})?(${operands[1]}):(${operands[2]})`;
+  }
+  return `(${operands[0]})${operator.symbol}(${operands[1]})`;
+}
+
+const parseFunctionType = (state: DemangleState): DemangleNode => {
+  expect(state, 'F');
+  consume(state, 'Y');
+  const returnType = parseType(state);
+  const parameters: DemangleNode[] = [];
+  let refQualifier = '';
+  while (!consume(state, 'E')) {
+    if (peek(state) === 'R' && peek(state, 1) === 'E') {
+      refQualifier = parseRefQualifier(state);
+      continue;
+    }
+    if (peek(state) === 'O' && peek(state, 1) === 'E') {
+      refQualifier = parseRefQualifier(state);
+      continue;
+    }
+    parameters.push(parseType(state));
+  }
+  const isVoid = parameters.length === 1 && parameters[0].kind === 'builtin' && parameters[0].text === 'void';
+  return { kind: 'function', returnType, parameters: isVoid ? [] : parameters, qualifiers: '', refQualifier };
+};
+
+function parseType(state: DemangleState): DemangleNode {
+  state.depth += 1;
+  const node = parseTypeInner(state);
+  state.depth -= 1;
+  return node;
+}
+
+function parseTypeInner(state: DemangleState): DemangleNode {
+  const char = peek(state);
+  const builtin = BUILTIN_TYPES[char];
+  if (builtin) {
+    state.pos += 1;
+    return { kind: 'builtin', text: builtin };
+  }
+
+  let node: DemangleNode;
+  switch (char) {
+    case 'D': {
+      const code = state.input.slice(state.pos, state.pos + 2);
+      const extended = EXTENDED_BUILTIN_TYPES[code];
+      if (extended) {
+        state.pos += 2;
+        return { kind: 'builtin', text: extended };
+      }
+      if (consume(state, 'DF')) {
+        const bits = parseDigits(state);
+        expect(state, '_');
+        return { kind: 'builtin', text: `_Float${bits}` };
+      }
+      if (consume(state, 'Dp')) {
+        node = { kind: 'expansion', inner: parseType(state) };
+        break;
+      }
+      if (consume(state, 'Do') || consume(state, 'DO') || consume(state, 'Dw') || consume(state, 'Dx')) {
+        // Exception specifications are part of function types since C++17 but c++filt omits them.
+        if (state.input[state.pos - 1] === 'O') {
+          parseExpression(state);
+          expect(state, 'E');
+        } else if (state.input[state.pos - 1] === 'w') {
+          while (!consume(state, 'E')) {
+            parseType(state);
+          }
+        }
+        node = parseFunctionType(state);
+        break;
+      }
+      return fail(state, `Unsupported type ${code}`);
+    }
+    case 'u':
+      state.pos += 1;
+      node = { kind: 'builtin', text: parseSourceName(state) };
+      break;
+    case 'r':
+    case 'V':
+    case 'K': {
+      const qualifiers = parseCvQualifiers(state);
+      node = qualify(parseType(state), qualifiers);
+      break;
+    }
+    case 'U': {
+      state.pos += 1;
+      const vendorQualifier = parseSourceName(state);
+      if (peek(state) === 'I') {
+        parseTemplateArgs(state);
+      }
+      node = qualify(parseType(state), ` ${vendorQualifier}`);
+      break;
+    }
+    case 'P':
+      state.pos += 1;
+      node = { kind: 'pointer', inner: parseType(state) };
+      break;
+    case 'R':
+      state.pos += 1;
+      node = makeReference('lvalueReference', parseType(state));
+      break;
+    case 'O':
+      state.pos += 1;
+      node = makeReference('rvalueReference', parseType(state));
+      break;
+    case 'F':
+      node = parseFunctionType(state);
+      break;
+    case 'A': {
+      state.pos += 1;
+      const dimension = isDigit(peek(state)) ? parseDigits(state) : peek(state) === '_' ? '' : parseExpression(state);
+      expect(state, '_');
+      node = { kind: 'array', inner: parseType(state), dimension };
+      break;
+    }
+    case 'M': {
+      state.pos += 1;
+      const classType = parseType(state);
+      node = { kind: 'memberPointer', classType, inner: parseType(state) };
+      break;
+    }
+    case 'T':
+      node = parseTemplateParam(state);
+      if (peek(state) === 'I') {
+        state.substitutions.push(node);
+        node = withTemplateArgs(node, parseTemplateArgs(state));
+      }
+      break;
+    case 'S':
+      if (peek(state, 1) !== 't') {
+        const substitution = parseSubstitution(state);
+        if (peek(state) !== 'I') {
+          // A bare substitution is already in the table.
+          return substitution;
+        }
+        node = withTemplateArgs(substitution, parseTemplateArgs(state));
+        break;
+      }
+      node = parseName(state).node;
+      break;
+    default:
+      if (char === 'N' || char === 'Z' || isDigit(char)) {
+        node = parseName(state).node;
+        break;
+      }
+      return fail(state, `Unsupported type '${char}'`);
+  }
+
+  state.substitutions.push(node);
+  return node;
+}
+
+interface UnqualifiedName {
+  segment: NameSegment;
+  isCtorDtorOrConversion: boolean;
+}
+
+const parseAbiTags = (state: DemangleState, name: string): string => {
+  let tagged = name;
+  while (consume(state, 'B')) {
+    tagged += `[abi:${parseSourceName(state)}]`;
+  }
+  return tagged;
+};
+
+const parseUnqualifiedName = (state: DemangleState, scope: NameSegment[]): UnqualifiedName => {
+  const char = peek(state);
+  const enclosingName = scope[scope.length - 1]?.name ?? '';
+  let name: string;
+  let isCtorDtorOrConversion = false;
+
+  if (isDigit(char)) {
+    name = parseSourceName(state);
+  } else if (char === 'C' && /[1-5I]/.test(peek(state, 1))) {
+    state.pos += 1;
+    if (consume(state, 'I')) {
+      state.pos += 1;
+      parseType(state);
+    } else {
+      state.pos += 1;
+    }
+    name = enclosingName;
+    isCtorDtorOrConversion = true;
+  } else if (char === 'D' && /[0-5]/.test(peek(state, 1))) {
+    state.pos += 2;
+    name = `~${enclosingName}`;
+    isCtorDtorOrConversion = true;
+  } else if (consume(state, 'Ut')) {
+    const index = peek(state) === '_' ? 1 : Number.parseInt(parseDigits(state), 10) + 2;
+    expect(state, '_');
+    name = `{unnamed type#${index}}`;
+  } else if (consume(state, 'Ul')) {
+    const parameters: DemangleNode[] = [];
+    while (!consume(state, 'E')) {
+      parameters.push(parseType(state));
+    }
+    const index = peek(state) === '_' ? 1 : Number.parseInt(parseDigits(state), 10) + 2;
+    expect(state, '_');
+    const isVoid = parameters.length === 1 && parameters[0].kind === 'builtin' && parameters[0].text === 'void';
+    name = `{lambda(${isVoid ? '' : renderList(parameters, {}).join(', ')})#${index}}`;
+  } else if (consume(state, 'cv')) {
+    name = `operator ${renderType(parseType(state))}`;
+    isCtorDtorOrConversion = true;
+  } else if (consume(state, 'li')) {
+    name = `operator"" ${parseSourceName(state)}`;
+  } else if (char === 'v' && isDigit(peek(state, 1))) {
+    state.pos += 2;
+    name = `operator ${parseSourceName(state)}`;
+  } else {
+    const operator = OPERATORS[state.input.slice(state.pos, state.pos + 2)];
+    if (!operator) {
+      return fail(state, 'Unsupported unqualified name');
+    }
+    state.pos += 2;
+    name = /^[a-z]/.test(operator.symbol) ? `operator ${operator.symbol}` : `operator${operator.symbol}`;
+  }
+
+  return { segment: { name: parseAbiTags(state, name) }, isCtorDtorOrConversion };
+};
+
+const parseNestedName = (state: DemangleState): ParsedName => {
+  expect(state, 'N');
+  const qualifiers = parseCvQualifiers(state);
+  const refQualifier = parseRefQualifier(state);
+
+  let segments: NameSegment[] = consume(state, 'St') ? [STD_SEGMENT] : [];
+  let isTemplated = false;
+  let isCtorDtorOrConversion = false;
+  let pushed = 0;
+
+  while (!consume(state, 'E')) {
+    consume(state, 'L');
+    const char = peek(state);
+    if (char === 'S' && peek(state, 1) !== 't') {
+      segments = segmentsOf(parseSubstitution(state));
+      continue;
+    }
+
+    if (char === 'T') {
+      segments = segmentsOf(parseTemplateParam(state));
+      isTemplated = false;
+      isCtorDtorOrConversion = false;
+    } else if (char === 'I') {
+      segments = segmentsOf(withTemplateArgs({ kind: 'name', segments }, parseTemplateArgs(state)));
+      isTemplated = true;
+    } else {
+      const unqualified = parseUnqualifiedName(state, segments);
+      segments = [...segments, unqualified.segment];
+      isTemplated = false;
+      isCtorDtorOrConversion = unqualified.isCtorDtorOrConversion;
+    }
+
+    state.substitutions.push({ kind: 'name', segments });
+    pushed += 1;
+    consume(state, 'M');
+  }
+
+  if (pushed > 0) {
+    // The complete name is only substitutable as a type, which `parseType` records itself.
+    state.substitutions.pop();
+  }
+  return { node: { kind: 'name', segments }, qualifiers, refQualifier, isTemplated, isCtorDtorOrConversion };
+};
+
+const parseLocalName = (state: DemangleState): ParsedName => {
+  expect(state, 'Z');
+  const encoding = parseEncoding(state);
+  expect(state, 'E');
+
+  const enclosing = segmentsOf(encoding.name);
+  const last = enclosing[enclosing.length - 1];
+  const { signature } = encoding;
+  const functionSegment: NameSegment = signature
+    ? {
+      ...last,
+      name: `${renderSegment(last, {})}(${renderList(signature.parameters, {}).join(', ')})${signature.qualifiers}`,
+      templateArgs: undefined,
+    }
+    : last;
+  const scope = [...enclosing.slice(0, -1), functionSegment];
+
+  if (consume(state, 's')) {
+    parseDiscriminator(state);
+    return {
+      node: { kind: 'name', segments: [...scope, { name: 'string literal' }] },
+      qualifiers: '',
+      refQualifier: '',
+      isTemplated: false,
+      isCtorDtorOrConversion: false,
+    };
+  }
+
+  if (consume(state, 'd')) {
+    const index = peek(state) === '_' ? 1 : Number.parseInt(parseDigits(state), 10) + 2;
+    expect(state, '_');
+    const entity = parseName(state);
+    return { ...entity, node: { kind: 'name', segments: [...scope, { name: `{default arg#${index}}` }, ...segmentsOf(entity.node)] } };
+  }
+
+  const entity = parseName(state);
+  parseDiscriminator(state);
+  return { ...entity, node: { kind: 'name', segments: [...scope, ...segmentsOf(entity.node)] } };
+};
+
+function parseName(state: DemangleState): ParsedName {
+  const char = peek(state);
+  if (char === 'N') {
+    return parseNestedName(state);
+  }
+  if (char === 'Z') {
+    return parseLocalName(state);
+  }
+
+  if (char === 'S' && peek(state, 1) !== 't') {
+    const substitution = parseSubstitution(state);
+    if (peek(state) !== 'I') {
+      return fail(state, 'Expected template arguments after a substituted name');
+    }
+    return {
+      node: withTemplateArgs(substitution, parseTemplateArgs(state)),
+      qualifiers: '',
+      refQualifier: '',
+      isTemplated: true,
+      isCtorDtorOrConversion: false,
+    };
+  }
+
+  const scope = consume(state, 'St') ? [STD_SEGMENT] : [];
+  consume(state, 'L');
+  const unqualified = parseUnqualifiedName(state, scope);
+  let node: DemangleNode = { kind: 'name', segments: [...scope, unqualified.segment] };
+  let isTemplated = false;
+  if (peek(state) === 'I') {
+    state.substitutions.push(node);
+    node = withTemplateArgs(node, parseTemplateArgs(state));
+    isTemplated = true;
+  }
+  return {
+    node,
+    qualifiers: '',
+    refQualifier: '',
+    isTemplated,
+    isCtorDtorOrConversion: unqualified.isCtorDtorOrConversion,
+  };
+}
+
+const parseCallOffset = (state: DemangleState): void => {
+  if (consume(state, 'h')) {
+    parseNumber(state);
+    expect(state, '_');
+    return;
+  }
+  expect(state, 'v');
+  parseNumber(state);
+  expect(state, '_');
+  parseNumber(state);
+  expect(state, '_');
+};
+
+const withSpecial = (special: string, encoding: ParsedEncoding): ParsedEncoding => ({
+  ...encoding,
+  special: [special, ...encoding.special],
+});
+
+const parseSpecialName = (state: DemangleState): ParsedEncoding => {
+  const typeSpecials: Record<string, string> = {
+    TV: 'vtable for',
+    TT: 'VTT for',
+    TI: 'typeinfo for',
+    TS: 'typeinfo name for',
+  };
+  const code = state.input.slice(state.pos, state.pos + 2);
+  if (typeSpecials[code]) {
+    state.pos += 2;
+    return { special: [typeSpecials[code]], name: parseType(state) };
+  }
+
+  if (consume(state, 'Th')) {
+    parseNumber(state);
+    expect(state, '_');
+    return withSpecial('non-virtual thunk to', parseEncoding(state));
+  }
+  if (consume(state, 'Tv')) {
+    parseNumber(state);
+    expect(state, '_');
+    parseNumber(state);
+    expect(state, '_');
+    return withSpecial('virtual thunk to', parseEncoding(state));
+  }
+  if (consume(state, 'Tc')) {
+    parseCallOffset(state);
+    parseCallOffset(state);
+    return withSpecial('covariant return thunk to', parseEncoding(state));
+  }
+  if (consume(state, 'TC')) {
+    const derived = parseType(state);
+    parseNumber(state);
+    expect(state, '_');
+    const base = parseType(state);
+    return {
+      special: ['construction vtable for'],
+      name: textNode(`${renderType(base)}-in-${renderType(derived)}`),
+    };
+  }
+  if (consume(state, 'TH')) {
+    return { special: ['TLS init function for'], name: parseName(state).node };
+  }
+  if (consume(state, 'TW')) {
+    return { special: ['TLS wrapper function for'], name: parseName(state).node };
+  }
+  if (consume(state, 'GV')) {
+    return { special: ['guard variable for'], name: parseName(state).node };
+  }
+  if (consume(state, 'GR')) {
+    const name = parseName(state).node;
+    const index = peek(state) === '_' ? 0 : parseSeqId(state) + 1;
+    expect(state, '_');
+    return { special: [`reference temporary #${index} for`], name };
+  }
+  if (consume(state, 'GTt')) {
+    return withSpecial('transaction clone for', parseEncoding(state));
+  }
+  if (consume(state, 'GTn')) {
+    return withSpecial('non-transaction clone for', parseEncoding(state));
+  }
+  if (consume(state, 'GA')) {
+    return withSpecial('hidden alias for', parseEncoding(state));
+  }
+  return fail(state, `Unsupported special name ${code}`);
+};
+
+function parseEncoding(state: DemangleState): ParsedEncoding {
+  const char = peek(state);
+  if (char === 'T' || (char === 'G' && /[VRTA]/.test(peek(state, 1)))) {
+    return parseSpecialName(state);
+  }
+
+  const name = parseName(state);
+  const next = peek(state);
+  if (!next || next === 'E' || next === '.') {
+    return { special: [], name: name.node };
+  }
+
+  const returnType = name.isTemplated && !name.isCtorDtorOrConversion ? parseType(state) : undefined;
+  const parameters: DemangleNode[] = [];
+  while (peek(state) && peek(state) !== 'E' && peek(state) !== '.') {
+    parameters.push(parseType(state));
+  }
+  const isVoid = parameters.length === 1 && parameters[0].kind === 'builtin' && parameters[0].text === 'void';
+
+  return {
+    special: [],
+    name: name.node,
+    signature: {
+      returnType,
+      parameters: isVoid ? [] : parameters,
+      qualifiers: name.qualifiers,
+      refQualifier: name.refQualifier,
+    },
+  };
+}
+
+const parseCloneSuffixes = (state: DemangleState): string[] => {
+  const clones: string[] = [];
+  while (state.pos < state.input.length) {
+    CLONE_SUFFIX_REGEX.lastIndex = state.pos;
+    const match = CLONE_SUFFIX_REGEX.exec(state.input);
+    if (!match) {
+      fail(state, 'Unexpected trailing characters');
+    }
+    clones.push(match![0]);
+    state.pos += match![0].length;
+  }
+  return clones;
+};
+
+const toDemangledSegment = (segment: NameSegment): DemangledNameSegment =>
+  segment.templateArgs
+    ? { name: segment.name, templateArgs: renderList(segment.templateArgs, {}) }
+    : { name: segment.name };
+
+const toDemangledName = (encoding: ParsedEncoding, clones: string[]): DemangledName => {
+  const { signature } = encoding;
+  return {
+    special: encoding.special.length > 0 ? encoding.special.join(' ') : undefined,
+    path: segmentsOf(encoding.name).map(toDemangledSegment),
+    returnType: signature?.returnType ? renderType(signature.returnType) : undefined,
+    parameters: signature ? renderList(signature.parameters, {}) : undefined,
+    qualifiers: signature && `${signature.qualifiers}${signature.refQualifier}` ? `${signature.qualifiers}${signature.refQualifier}` : undefined,
+    clones: clones.length > 0 ? clones : undefined,
+  };
+};
+
+export const isMangledName = (name: string): boolean => name.startsWith('_Z');
+
+/**
+ * Demangles an Itanium C++ ABI symbol name (as emitted by GCC and Clang) into the text c++filt would
+ * print and its structure. Returns `undefined` for names that are not mangled or use constructs this
+ * demangler does not understand.
+ */
+export const demangle = (mangled: string): DemangleResult | undefined => {
+  if (!isMangledName(mangled)) {
+    return undefined;
+  }
+  const state: DemangleState = { input: mangled, pos: 2, substitutions: [], depth: 0 };
+  try {
+    const encoding = parseEncoding(state);
+    const clones = parseCloneSuffixes(state);
+    const text = `${renderEncoding(encoding)}${clones.map((clone) => ` [clone ${clone}]`).join('')}`;
+    return { text, name: toDemangledName(encoding, clones) };
+  } catch {
+    return undefined;
+  }
+};
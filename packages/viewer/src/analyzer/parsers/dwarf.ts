@@ -0,0 +1,1014 @@
+import { ElfFile, EM_ARM, getSectionData } from './elf';
+
+const DW_TAG_member = 0x0d;
+const DW_TAG_compile_unit = 0x11;
+const DW_TAG_inlined_subroutine = 0x1d;
+const DW_TAG_subprogram = 0x2e;
+const DW_TAG_variable = 0x34;
+const DW_TAG_partial_unit = 0x3c;
+const DW_TAG_skeleton_unit = 0x4a;
+
+const DW_AT_location = 0x02;
+const DW_AT_name = 0x03;
+const DW_AT_stmt_list = 0x10;
+const DW_AT_low_pc = 0x11;
+const DW_AT_high_pc = 0x12;
+const DW_AT_comp_dir = 0x1b;
+const DW_AT_producer = 0x25;
+const DW_AT_abstract_origin = 0x31;
+const DW_AT_decl_file = 0x3a;
+const DW_AT_decl_line = 0x3b;
+const DW_AT_declaration = 0x3c;
+const DW_AT_specification = 0x47;
+const DW_AT_linkage_name = 0x6e;
+const DW_AT_str_offsets_base = 0x72;
+const DW_AT_addr_base = 0x73;
+const DW_AT_MIPS_linkage_name = 0x2007;
+const DW_AT_GNU_addr_base = 0x2133;
+
+const DW_FORM_addr = 0x01;
+const DW_FORM_block2 = 0x03;
+const DW_FORM_block4 = 0x04;
+const DW_FORM_data2 = 0x05;
+const DW_FORM_data4 = 0x06;
+const DW_FORM_data8 = 0x07;
+const DW_FORM_string = 0x08;
+const DW_FORM_block = 0x09;
+const DW_FORM_block1 = 0x0a;
+const DW_FORM_data1 = 0x0b;
+const DW_FORM_flag = 0x0c;
+const DW_FORM_sdata = 0x0d;
+const DW_FORM_strp = 0x0e;
+const DW_FORM_udata = 0x0f;
+const DW_FORM_ref_addr = 0x10;
+const DW_FORM_ref1 = 0x11;
+const DW_FORM_ref2 = 0x12;
+const DW_FORM_ref4 = 0x13;
+const DW_FORM_ref8 = 0x14;
+const DW_FORM_ref_udata = 0x15;
+const DW_FORM_indirect = 0x16;
+const DW_FORM_sec_offset = 0x17;
+const DW_FORM_exprloc = 0x18;
+const DW_FORM_flag_present = 0x19;
+const DW_FORM_strx = 0x1a;
+const DW_FORM_addrx = 0x1b;
+const DW_FORM_ref_sup4 = 0x1c;
+const DW_FORM_strp_sup = 0x1d;
+const DW_FORM_data16 = 0x1e;
+const DW_FORM_line_strp = 0x1f;
+const DW_FORM_ref_sig8 = 0x20;
+const DW_FORM_implicit_const = 0x21;
+const DW_FORM_loclistx = 0x22;
+const DW_FORM_rnglistx = 0x23;
+const DW_FORM_ref_sup8 = 0x24;
+const DW_FORM_strx1 = 0x25;
+const DW_FORM_strx2 = 0x26;
+const DW_FORM_strx3 = 0x27;
+const DW_FORM_strx4 = 0x28;
+const DW_FORM_addrx1 = 0x29;
+const DW_FORM_addrx2 = 0x2a;
+const DW_FORM_addrx3 = 0x2b;
+const DW_FORM_addrx4 = 0x2c;
+const DW_FORM_GNU_addr_index = 0x1f01;
+const DW_FORM_GNU_str_index = 0x1f02;
+const DW_FORM_GNU_ref_alt = 0x1f20;
+const DW_FORM_GNU_strp_alt = 0x1f21;
+
+const DW_UT_type = 0x02;
+const DW_UT_skeleton = 0x04;
+const DW_UT_split_compile = 0x05;
+const DW_UT_split_type = 0x06;
+
+const DW_LNCT_path = 0x1;
+const DW_LNCT_directory_index = 0x2;
+
+const DW_LNS_copy = 0x01;
+const DW_LNS_advance_pc = 0x02;
+const DW_LNS_advance_line = 0x03;
+const DW_LNS_set_file = 0x04;
+const DW_LNS_const_add_pc = 0x08;
+const DW_LNS_fixed_advance_pc = 0x09;
+
+const DW_LNE_end_sequence = 0x01;
+const DW_LNE_set_address = 0x02;
+
+const DW_OP_addr = 0x03;
+const DW_OP_addrx = 0xa1;
+
+const STRING_INDEX_FORMS = new Set([
+  DW_FORM_strx,
+  DW_FORM_strx1,
+  DW_FORM_strx2,
+  DW_FORM_strx3,
+  DW_FORM_strx4,
+  DW_FORM_GNU_str_index,
+]);
+const ADDRESS_INDEX_FORMS = new Set([
+  DW_FORM_addrx,
+  DW_FORM_addrx1,
+  DW_FORM_addrx2,
+  DW_FORM_addrx3,
+  DW_FORM_addrx4,
+  DW_FORM_GNU_addr_index,
+]);
+const UNIT_RELATIVE_REFERENCE_FORMS = new Set([DW_FORM_ref1, DW_FORM_ref2, DW_FORM_ref4, DW_FORM_ref8, DW_FORM_ref_udata]);
+
+export type DwarfEntryTag = 'subprogram' | 'variable' | 'inlinedSubroutine';
+
+const RECORDED_TAGS = new Map<number, DwarfEntryTag>([
+  [DW_TAG_subprogram, 'subprogram'],
+  [DW_TAG_variable, 'variable'],
+  [DW_TAG_inlined_subroutine, 'inlinedSubroutine'],
+]);
+
+export interface DwarfCompileUnit {
+  offset: number;
+  name?: string;
+  compDir?: string;
+  producer?: string;
+  /** Offset of the unit's line-number program in `.debug_line` (`DW_AT_stmt_list`). */
+  lineTableOffset?: number;
+}
+
+/** Instructions in `[start, end)` were generated for `line` of `file`. */
+export interface DwarfLineRange {
+  start: number;
+  end: number;
+  file?: string;
+  line: number;
+}
+
+/**
+ * A function, variable or inlined call site from `.debug_info`. DIE references (`specification`,
+ * `abstractOrigin`, `enclosingSubprogram`) are absolute `.debug_info` offsets, so they can be followed
+ * across compile units through `DwarfInfo.entries`.
+ */
+export interface DwarfEntry {
+  offset: number;
+  tag: DwarfEntryTag;
+  unitIndex: number;
+  name?: string;
+  linkageName?: string;
+  declFile?: string;
+  declLine?: number;
+  isDeclaration?: boolean;
+  lowPc?: number;
+  highPc?: number;
+  address?: number;
+  specificationOffset?: number;
+  abstractOriginOffset?: number;
+  enclosingSubprogramOffset?: number;
+}
+
+export interface DwarfInfo {
+  units: DwarfCompileUnit[];
+  entries: DwarfEntry[];
+}
+
+export interface DwarfSections {
+  info: Buffer;
+  abbrev: Buffer;
+  str?: Buffer;
+  lineStr?: Buffer;
+  line?: Buffer;
+  strOffsets?: Buffer;
+  addr?: Buffer;
+}
+
+interface ByteCursor {
+  data: Buffer;
+  offset: number;
+}
+
+interface Encoding {
+  version: number;
+  offsetSize: 4 | 8;
+  addressSize: number;
+}
+
+interface UnitContext extends Encoding {
+  index: number;
+  offset: number;
+  strOffsetsBase?: number;
+  addrBase?: number;
+  files: Array<string | undefined>;
+}
+
+interface AbbrevAttribute {
+  name: number;
+  form: number;
+  implicitConst?: number;
+}
+
+interface Abbrev {
+  tag: number;
+  hasChildren: boolean;
+  attributes: AbbrevAttribute[];
+}
+
+interface AttributeValue {
+  form: number;
+  value: number | Buffer;
+}
+
+type FormValue = number | Buffer;
+
+const readU8 = (cursor: ByteCursor): number => {
+  const value = cursor.data.readUInt8(cursor.offset);
+  cursor.offset += 1;
+  return value;
+};
+
+const readU16 = (cursor: ByteCursor): number => {
+  const value = cursor.data.readUInt16LE(cursor.offset);
+  cursor.offset += 2;
+  return value;
+};
+
+const readU24 = (cursor: ByteCursor): number => {
+  const value = cursor.data.readUIntLE(cursor.offset, 3);
+  cursor.offset += 3;
+  return value;
+};
+
+const readU32 = (cursor: ByteCursor): number => {
+  const value = cursor.data.readUInt32LE(cursor.offset);
+  cursor.offset += 4;
+  return value;
+};
+
+// Values above 2^53 lose precision; the fields read this way are offsets, sizes and hashes we only skip.
+const readU64 = (cursor: ByteCursor): number => {
+  const low = cursor.data.readUInt32LE(cursor.offset);
+  const high = cursor.data.readUInt32LE(cursor.offset + 4);
+  cursor.offset += 8;
+  return high * 0x100000000 + low;
+};
+
+const readUleb128 = (cursor: ByteCursor): number => {
+  let result = 0;
+  let scale = 1;
+  let byte: number;
+  do {
+    byte = readU8(cursor);
+    result += (byte & 0x7f) * scale;
+    scale *= 128;
+  } while (byte & 0x80);
+  return result;
+};
+
+const readSleb128 = (cursor: ByteCursor): number => {
+  let result = 0;
+  let scale = 1;
+  let byte: number;
+  do {
+    byte = readU8(cursor);
+    result += (byte & 0x7f) * scale;
+    scale *= 128;
+  } while (byte & 0x80);
+  return byte & 0x40 ? result - scale : result;
+};
+
+const readOffset = (cursor: ByteCursor, offsetSize: 4 | 8): number =>
+  offsetSize === 8 ? readU64(cursor) : readU32(cursor);
+
+const readAddress = (cursor: ByteCursor, addressSize: number): number => {
+  switch (addressSize) {
+    case 1:
+      return readU8(cursor);
+    case 2:
+      return readU16(cursor);
+    case 4:
+      return readU32(cursor);
+    case 8:
+      return readU64(cursor);
+    default:
+      throw new Error(`Unsupported DWARF address size ${addressSize}.`);
+  }
+};
+
+const readBlock = (cursor: ByteCursor, length: number): Buffer => {
+  if (cursor.offset + length > cursor.data.length) {
+    throw new Error(`DWARF block at offset 0x${cursor.offset.toString(16)} extends past the end of its section.`);
+  }
+  const block = cursor.data.subarray(cursor.offset, cursor.offset + length);
+  cursor.offset += length;
+  return block;
+};
+
+/** Skips a NUL-terminated string and returns where it started, so it is only decoded when needed. */
+const skipCString = (cursor: ByteCursor): number => {
+  const start = cursor.offset;
+  const end = cursor.data.indexOf(0, start);
+  if (end < 0) {
+    throw new Error(`Unterminated DWARF string at offset 0x${start.toString(16)}.`);
+  }
+  cursor.offset = end + 1;
+  return start;
+};
+
+const readCStringAt = (data: Buffer | undefined, offset: number): string | undefined => {
+  if (!data || offset >= data.length) {
+    return undefined;
+  }
+  const end = data.indexOf(0, offset);
+  return data.toString('utf8', offset, end < 0 ? data.length : end);
+};
+
+const readUnitLength = (cursor: ByteCursor): { length: number; offsetSize: 4 | 8 } => {
+  const initial = readU32(cursor);
+  if (initial === 0xffffffff) {
+    return { length: readU64(cursor), offsetSize: 8 };
+  }
+  if (initial >= 0xfffffff0) {
+    throw new Error(`Reserved DWARF unit length 0x${initial.toString(16)}.`);
+  }
+  return { length: initial, offsetSize: 4 };
+};
+
+const readFormValue = (cursor: ByteCursor, form: number, encoding: Encoding): FormValue => {
+  switch (form) {
+    case DW_FORM_addr:
+      return readAddress(cursor, encoding.addressSize);
+    case DW_FORM_block1:
+      return readBlock(cursor, readU8(cursor));
+    case DW_FORM_block2:
+      return readBlock(cursor, readU16(cursor));
+    case DW_FORM_block4:
+      return readBlock(cursor, readU32(cursor));
+    case DW_FORM_block:
+    case DW_FORM_exprloc:
+      return readBlock(cursor, readUleb128(cursor));
+    case DW_FORM_data16:
+      return readBlock(cursor, 16);
+    case DW_FORM_data1:
+    case DW_FORM_flag:
+    case DW_FORM_ref1:
+    case DW_FORM_strx1:
+    case DW_FORM_addrx1:
+      return readU8(cursor);
+    case DW_FORM_data2:
+    case DW_FORM_ref2:
+    case DW_FORM_strx2:
+    case DW_FORM_addrx2:
+      return readU16(cursor);
+    case DW_FORM_strx3:
+    case DW_FORM_addrx3:
+      return readU24(cursor);
+    case DW_FORM_data4:
+    case DW_FORM_ref4:
+    case DW_FORM_ref_sup4:
+    case DW_FORM_strx4:
+    case DW_FORM_addrx4:
+      return readU32(cursor);
+    case DW_FORM_data8:
+    case DW_FORM_ref8:
+    case DW_FORM_ref_sig8:
+    case DW_FORM_ref_sup8:
+      return readU64(cursor);
+    case DW_FORM_sdata:
+      return readSleb128(cursor);
+    case DW_FORM_udata:
+    case DW_FORM_ref_udata:
+    case DW_FORM_strx:
+    case DW_FORM_addrx:
+    case DW_FORM_loclistx:
+    case DW_FORM_rnglistx:
+    case DW_FORM_GNU_addr_index:
+    case DW_FORM_GNU_str_index:
+      return readUleb128(cursor);
+    case DW_FORM_strp:
+    case DW_FORM_line_strp:
+    case DW_FORM_strp_sup:
+    case DW_FORM_sec_offset:
+    case DW_FORM_GNU_ref_alt:
+    case DW_FORM_GNU_strp_alt:
+      return readOffset(cursor, encoding.offsetSize);
+    case DW_FORM_ref_addr:
+      // DWARF 2 sized section references like addresses.
+      return encoding.version <= 2 ? readAddress(cursor, encoding.addressSize) : readOffset(cursor, encoding.offsetSize);
+    case DW_FORM_string:
+      return skipCString(cursor);
+    case DW_FORM_flag_present:
+      return 1;
+    default:
+      throw new Error(`Unsupported DWARF form 0x${form.toString(16)} at offset 0x${cursor.offset.toString(16)}.`);
+  }
+};
+
+const readAttribute = (cursor: ByteCursor, attribute: AbbrevAttribute, encoding: Encoding): AttributeValue => {
+  let { form } = attribute;
+  if (form === DW_FORM_indirect) {
+    form = readUleb128(cursor);
+  }
+  if (form === DW_FORM_implicit_const) {
+    return { form, value: attribute.implicitConst ?? 0 };
+  }
+  return { form, value: readFormValue(cursor, form, encoding) };
+};
+
+const parseAbbrevTable = (data: Buffer, offset: number): Map<number, Abbrev> => {
+  const cursor: ByteCursor = { data, offset };
+  const table = new Map<number, Abbrev>();
+
+  for (;;) {
+    const code = readUleb128(cursor);
+    if (code === 0) {
+      return table;
+    }
+
+    const tag = readUleb128(cursor);
+    const hasChildren = readU8(cursor) !== 0;
+    const attributes: AbbrevAttribute[] = [];
+    for (;;) {
+      const name = readUleb128(cursor);
+      const form = readUleb128(cursor);
+      if (name === 0 && form === 0) {
+        break;
+      }
+      attributes.push({
+        name,
+        form,
+        implicitConst: form === DW_FORM_implicit_const ? readSleb128(cursor) : undefined,
+      });
+    }
+    table.set(code, { tag, hasChildren, attributes });
+  }
+};
+
+const asNumber = (attribute: AttributeValue | undefined): number | undefined =>
+  typeof attribute?.value === 'number' ? attribute.value : undefined;
+
+const resolveString = (
+  sections: DwarfSections,
+  source: Buffer,
+  attribute: AttributeValue | undefined,
+  unit?: Pick<UnitContext, 'offsetSize' | 'strOffsetsBase'>,
+): string | undefined => {
+  const offset = asNumber(attribute);
+  if (!attribute || offset === undefined) {
+    return undefined;
+  }
+
+  switch (attribute.form) {
+    case DW_FORM_string:
+      return readCStringAt(source, offset);
+    case DW_FORM_strp:
+      return readCStringAt(sections.str, offset);
+    case DW_FORM_line_strp:
+      return readCStringAt(sections.lineStr, offset);
+    default:
+      break;
+  }
+
+  if (STRING_INDEX_FORMS.has(attribute.form) && unit?.strOffsetsBase !== undefined && sections.strOffsets) {
+    const cursor: ByteCursor = { data: sections.strOffsets, offset: unit.strOffsetsBase + offset * unit.offsetSize };
+    return readCStringAt(sections.str, readOffset(cursor, unit.offsetSize));
+  }
+
+  // Supplementary and alternate (dwz) string tables are not loaded.
+  return undefined;
+};
+
+const resolveIndexedAddress = (sections: DwarfSections, unit: UnitContext, index: number): number | undefined => {
+  if (unit.addrBase === undefined || !sections.addr) {
+    return undefined;
+  }
+  return readAddress({ data: sections.addr, offset: unit.addrBase + index * unit.addressSize }, unit.addressSize);
+};
+
+const resolveAddress = (
+  sections: DwarfSections,
+  unit: UnitContext,
+  attribute: AttributeValue | undefined,
+): number | undefined => {
+  const value = asNumber(attribute);
+  if (!attribute || value === undefined) {
+    return undefined;
+  }
+  if (attribute.form === DW_FORM_addr) {
+    return value;
+  }
+  return ADDRESS_INDEX_FORMS.has(attribute.form) ? resolveIndexedAddress(sections, unit, value) : undefined;
+};
+
+const resolveReference = (unit: UnitContext, attribute: AttributeValue | undefined): number | undefined => {
+  const value = asNumber(attribute);
+  if (!attribute || value === undefined) {
+    return undefined;
+  }
+  if (UNIT_RELATIVE_REFERENCE_FORMS.has(attribute.form)) {
+    return unit.offset + value;
+  }
+  return attribute.form === DW_FORM_ref_addr ? value : undefined;
+};
+
+/** Reads a static address from a location expression consisting of a single `DW_OP_addr`/`DW_OP_addrx`. */
+const resolveLocationAddress = (
+  sections: DwarfSections,
+  unit: UnitContext,
+  attribute: AttributeValue | undefined,
+): number | undefined => {
+  if (!attribute || !Buffer.isBuffer(attribute.value) || attribute.value.length === 0) {
+    return undefined;
+  }
+
+  const cursor: ByteCursor = { data: attribute.value, offset: 1 };
+  const opcode = attribute.value[0];
+  if (opcode === DW_OP_addr && attribute.value.length === 1 + unit.addressSize) {
+    return readAddress(cursor, unit.addressSize);
+  }
+  if (opcode === DW_OP_addrx) {
+    const index = readUleb128(cursor);
+    return cursor.offset === attribute.value.length ? resolveIndexedAddress(sections, unit, index) : undefined;
+  }
+  return undefined;
+};
+
+const isAbsolutePath = (value: string): boolean => value.startsWith('/') || value.startsWith('\\') || /^[A-Za-z]:[\\/]/.test(value);
+
+/** Joins paths using the separator the base already uses, so Windows build paths survive on any host. */
+const joinPath = (base: string | undefined, part: string): string => {
+  if (!base || isAbsolutePath(part)) {
+    return part;
+  }
+  const separator = base.includes('\\') && !base.includes('/') ? '\\' : '/';
+  return `${base.replace(/[\\/]+$/, '')}${separator}${part}`;
+};
+
+interface LineTableEntryFormat {
+  contentType: number;
+  form: number;
+}
+
+const readEntryFormats = (cursor: ByteCursor): LineTableEntryFormat[] => {
+  const count = readU8(cursor);
+  const formats: LineTableEntryFormat[] = [];
+  for (let index = 0; index < count; index += 1) {
+    formats.push({ contentType: readUleb128(cursor), form: readUleb128(cursor) });
+  }
+  return formats;
+};
+
+const readEntries = (
+  sections: DwarfSections,
+  cursor: ByteCursor,
+  encoding: Encoding,
+): Array<{ path?: string; directoryIndex?: number }> => {
+  const formats = readEntryFormats(cursor);
+  const count = readUleb128(cursor);
+  const entries: Array<{ path?: string; directoryIndex?: number }> = [];
+  for (let index = 0; index < count; index += 1) {
+    const entry: { path?: string; directoryIndex?: number } = {};
+    formats.forEach(({ contentType, form }) => {
+      const attribute = readAttribute(cursor, { name: contentType, form }, encoding);
+      if (contentType === DW_LNCT_path) {
+        entry.path = resolveString(sections, cursor.data, attribute, encoding);
+      } else if (contentType === DW_LNCT_directory_index) {
+        entry.directoryIndex = asNumber(attribute);
+      }
+    });
+    entries.push(entry);
+  }
+  return entries;
+};
+
+interface LineProgramHeader {
+  version: number;
+  addressSize: number;
+  minimumInstructionLength: number;
+  lineBase: number;
+  lineRange: number;
+  opcodeBase: number;
+  standardOpcodeLengths: number[];
+  /**
+   * Indexed the way `DW_AT_decl_file` and `DW_LNS_set_file` count: from 1 before DWARF 5 (index 0
+   * means "no file") and from 0 afterwards.
+   */
+  files: Array<string | undefined>;
+  programStart: number;
+  programEnd: number;
+}
+
+/** Reads a `.debug_line` program header, resolving its file table against the unit's `comp_dir`. */
+const readLineProgramHeader = (
+  sections: DwarfSections,
+  line: Buffer,
+  offset: number,
+  compDir: string | undefined,
+): LineProgramHeader => {
+  const cursor: ByteCursor = { data: line, offset };
+  const { length, offsetSize } = readUnitLength(cursor);
+  const programEnd = cursor.offset + length;
+  const version = readU16(cursor);
+  let addressSize = 4;
+  if (version >= 5) {
+    addressSize = readU8(cursor);
+    readU8(cursor); // segment_selector_size
+  }
+  const headerLength = readOffset(cursor, offsetSize);
+  const programStart = cursor.offset + headerLength;
+  const minimumInstructionLength = readU8(cursor);
+  if (version >= 4) {
+    readU8(cursor); // maximum_operations_per_instruction
+  }
+  readU8(cursor); // default_is_stmt
+  const lineBase = cursor.data.readInt8(cursor.offset);
+  cursor.offset += 1;
+  const lineRange = readU8(cursor);
+  const opcodeBase = readU8(cursor);
+  const standardOpcodeLengths: number[] = [];
+  for (let opcode = 1; opcode < opcodeBase; opcode += 1) {
+    standardOpcodeLengths.push(readU8(cursor));
+  }
+  const header = {
+    version,
+    addressSize,
+    minimumInstructionLength,
+    lineBase,
+    lineRange,
+    opcodeBase,
+    standardOpcodeLengths,
+    programStart,
+    programEnd,
+  };
+
+  if (version >= 5) {
+    const encoding: Encoding = { version, offsetSize, addressSize };
+    const directories = readEntries(sections, cursor, encoding).map((entry) => entry.path ?? '');
+    const baseDirectory = directories[0] || compDir;
+    const resolvedDirectories = directories.map((directory, index) =>
+      index === 0 ? baseDirectory ?? directory : joinPath(baseDirectory, directory),
+    );
+    const files = readEntries(sections, cursor, encoding).map((entry) =>
+      entry.path === undefined ? undefined : joinPath(resolvedDirectories[entry.directoryIndex ?? 0], entry.path),
+    );
+    return { ...header, files };
+  }
+
+  const directories: Array<string | undefined> = [compDir];
+  for (;;) {
+    const directory = readCStringAt(line, skipCString(cursor));
+    if (!directory) {
+      break;
+    }
+    directories.push(joinPath(compDir, directory));
+  }
+
+  const files: Array<string | undefined> = [undefined];
+  for (;;) {
+    const name = readCStringAt(line, skipCString(cursor));
+    if (!name) {
+      break;
+    }
+    const directoryIndex = readUleb128(cursor);
+    readUleb128(cursor); // modification time
+    readUleb128(cursor); // file length
+    files.push(joinPath(directories[directoryIndex], name));
+  }
+  return { ...header, files };
+};
+
+const parseLineTableFiles = (
+  sections: DwarfSections,
+  offset: number,
+  compDir: string | undefined,
+): Array<string | undefined> =>
+  sections.line ? readLineProgramHeader(sections, sections.line, offset, compDir).files : [];
+
+interface LineState {
+  address: number;
+  file: number;
+  line: number;
+}
+
+/**
+ * Runs one unit's line-number program and returns a range per row, ending where the next row of the
+ * same sequence starts. When several rows share an address the last one wins, as in `addr2line`.
+ */
+const runLineProgram = (line: Buffer, header: LineProgramHeader): DwarfLineRange[] => {
+  const ranges: DwarfLineRange[] = [];
+  const cursor: ByteCursor = { data: line, offset: header.programStart };
+  const initialState = (): LineState => ({ address: 0, file: 1, line: 1 });
+  let state = initialState();
+  let open: DwarfLineRange | undefined;
+
+  const emitRow = (endSequence: boolean): void => {
+    if (open && state.address > open.start) {
+      open.end = state.address;
+      ranges.push(open);
+    }
+    open = endSequence ? undefined : { start: state.address, end: state.address, file: header.files[state.file], line: state.line };
+  };
+
+  const advance = (operationAdvance: number): void => {
+    state.address += operationAdvance * header.minimumInstructionLength;
+  };
+
+  while (cursor.offset < header.programEnd) {
+    const opcode = readU8(cursor);
+    if (opcode >= header.opcodeBase) {
+      const adjusted = opcode - header.opcodeBase;
+      advance(Math.floor(adjusted / header.lineRange));
+      state.line += header.lineBase + (adjusted % header.lineRange);
+      emitRow(false);
+      continue;
+    }
+
+    switch (opcode) {
+      case 0: {
+        const length = readUleb128(cursor);
+        const end = cursor.offset + length;
+        const extended = length > 0 ? readU8(cursor) : 0;
+        if (extended === DW_LNE_end_sequence) {
+          emitRow(true);
+          state = initialState();
+        } else if (extended === DW_LNE_set_address) {
+          state.address = readAddress(cursor, length - 1);
+        }
+        cursor.offset = end;
+        break;
+      }
+      case DW_LNS_copy:
+        emitRow(false);
+        break;
+      case DW_LNS_advance_pc:
+        advance(readUleb128(cursor));
+        break;
+      case DW_LNS_advance_line:
+        state.line += readSleb128(cursor);
+        break;
+      case DW_LNS_set_file:
+        state.file = readUleb128(cursor);
+        break;
+      case DW_LNS_const_add_pc:
+        advance(Math.floor((255 - header.opcodeBase) / header.lineRange));
+        break;
+      case DW_LNS_fixed_advance_pc:
+        state.address += readU16(cursor);
+        break;
+      default:
+        // Column, statement, basic-block, prologue and ISA opcodes (and unknown ones) only carry operands to skip.
+        for (let index = 0; index < (header.standardOpcodeLengths[opcode - 1] ?? 0); index += 1) {
+          readUleb128(cursor);
+        }
+        break;
+    }
+  }
+
+  return ranges;
+};
+
+/**
+ * Decodes the line-number programs of every unit into address ranges sorted by start address. Units
+ * whose code the linker discarded keep sequences at address 0; those are dropped.
+ */
+export const parseDwarfLineTable = (sections: DwarfSections, units: DwarfCompileUnit[]): DwarfLineRange[] => {
+  const { line } = sections;
+  if (!line) {
+    return [];
+  }
+
+  const seen = new Set<number>();
+  const ranges: DwarfLineRange[] = [];
+  units.forEach((unit) => {
+    if (unit.lineTableOffset === undefined || seen.has(unit.lineTableOffset)) {
+      return;
+    }
+    seen.add(unit.lineTableOffset);
+    const header = readLineProgramHeader(sections, line, unit.lineTableOffset, unit.compDir);
+    if (header.lineRange === 0) {
+      return;
+    }
+    runLineProgram(line, header).forEach((range) => {
+      if (range.start !== 0) {
+        ranges.push(range);
+      }
+    });
+  });
+
+  return ranges.sort((a, b) => a.start - b.start);
+};
+
+/** Finds the line range covering `address`, or undefined when no line-number row covers it. */
+export const findLineRange = (ranges: DwarfLineRange[], address: number): DwarfLineRange | undefined => {
+  let low = 0;
+  let high = ranges.length - 1;
+  let candidate: DwarfLineRange | undefined;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (ranges[middle].start <= address) {
+      candidate = ranges[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return candidate && address < candidate.end ? candidate : undefined;
+};
+
+const buildEntry = (
+  sections: DwarfSections,
+  unit: UnitContext,
+  tag: DwarfEntryTag,
+  offset: number,
+  attributes: Map<number, AttributeValue>,
+  enclosingSubprogramOffset: number | undefined,
+): DwarfEntry => {
+  const lowPc = resolveAddress(sections, unit, attributes.get(DW_AT_low_pc));
+  const highPcAttribute = attributes.get(DW_AT_high_pc);
+  let highPc = resolveAddress(sections, unit, highPcAttribute);
+  // Since DWARF 4 a constant-class high_pc is the length of the range rather than its end.
+  if (highPc === undefined && lowPc !== undefined && asNumber(highPcAttribute) !== undefined) {
+    highPc = lowPc + (asNumber(highPcAttribute) ?? 0);
+  }
+  const declFile = asNumber(attributes.get(DW_AT_decl_file));
+
+  return {
+    offset,
+    tag,
+    unitIndex: unit.index,
+    name: resolveString(sections, sections.info, attributes.get(DW_AT_name), unit),
+    linkageName:
+      resolveString(sections, sections.info, attributes.get(DW_AT_linkage_name), unit) ??
+      resolveString(sections, sections.info, attributes.get(DW_AT_MIPS_linkage_name), unit),
+    declFile: declFile !== undefined ? unit.files[declFile] : undefined,
+    declLine: asNumber(attributes.get(DW_AT_decl_line)),
+    isDeclaration: asNumber(attributes.get(DW_AT_declaration)) ? true : undefined,
+    lowPc,
+    highPc,
+    address: tag === 'variable' ? resolveLocationAddress(sections, unit, attributes.get(DW_AT_location)) : undefined,
+    specificationOffset: resolveReference(unit, attributes.get(DW_AT_specification)),
+    abstractOriginOffset: resolveReference(unit, attributes.get(DW_AT_abstract_origin)),
+    enclosingSubprogramOffset: tag === 'inlinedSubroutine' ? enclosingSubprogramOffset : undefined,
+  };
+};
+
+/**
+ * Walks every unit in `.debug_info` (DWARF 2 through 5) and collects compile units plus the
+ * functions, variables and inlined call sites needed for source attribution. Other DIEs are skipped.
+ */
+export const parseDwarf = (sections: DwarfSections): DwarfInfo => {
+  const units: DwarfCompileUnit[] = [];
+  const entries: DwarfEntry[] = [];
+  const abbrevTables = new Map<number, Map<number, Abbrev>>();
+  const cursor: ByteCursor = { data: sections.info, offset: 0 };
+
+  while (cursor.offset < sections.info.length) {
+    const unitOffset = cursor.offset;
+    const { length, offsetSize } = readUnitLength(cursor);
+    const unitEnd = cursor.offset + length;
+    if (unitEnd > sections.info.length) {
+      throw new Error(`DWARF unit at offset 0x${unitOffset.toString(16)} extends past the end of .debug_info.`);
+    }
+
+    const version = readU16(cursor);
+    if (version < 2 || version > 5) {
+      throw new Error(`Unsupported DWARF version ${version} in unit at offset 0x${unitOffset.toString(16)}.`);
+    }
+
+    let unitType = 0;
+    let abbrevOffset: number;
+    let addressSize: number;
+    if (version >= 5) {
+      unitType = readU8(cursor);
+      addressSize = readU8(cursor);
+      abbrevOffset = readOffset(cursor, offsetSize);
+      if (unitType === DW_UT_skeleton || unitType === DW_UT_split_compile) {
+        cursor.offset += 8; // dwo_id
+      } else if (unitType === DW_UT_type || unitType === DW_UT_split_type) {
+        cursor.offset = unitEnd;
+        continue;
+      }
+    } else {
+      abbrevOffset = readOffset(cursor, offsetSize);
+      addressSize = readU8(cursor);
+    }
+
+    let abbrevs = abbrevTables.get(abbrevOffset);
+    if (!abbrevs) {
+      abbrevs = parseAbbrevTable(sections.abbrev, abbrevOffset);
+      abbrevTables.set(abbrevOffset, abbrevs);
+    }
+
+    const unit: UnitContext = { index: units.length, offset: unitOffset, version, offsetSize, addressSize, files: [] };
+    const parents: Array<{ tag: number; offset: number }> = [];
+    let isFirstEntry = true;
+
+    while (cursor.offset < unitEnd) {
+      const dieOffset = cursor.offset;
+      const code = readUleb128(cursor);
+      if (code === 0) {
+        parents.pop();
+        continue;
+      }
+
+      const abbrev = abbrevs.get(code);
+      if (!abbrev) {
+        throw new Error(`Unknown DWARF abbreviation ${code} at offset 0x${dieOffset.toString(16)}.`);
+      }
+
+      const isUnitEntry =
+        isFirstEntry &&
+        (abbrev.tag === DW_TAG_compile_unit || abbrev.tag === DW_TAG_partial_unit || abbrev.tag === DW_TAG_skeleton_unit);
+      // Before DWARF 5, static data members are declared as members and defined by a variable that refers back to them.
+      const isStaticMember =
+        abbrev.tag === DW_TAG_member && abbrev.attributes.some((spec) => spec.name === DW_AT_declaration);
+      const recordedTag = isStaticMember ? 'variable' : RECORDED_TAGS.get(abbrev.tag);
+      const attributes = new Map<number, AttributeValue>();
+      abbrev.attributes.forEach((spec) => {
+        const attribute = readAttribute(cursor, spec, unit);
+        if (isUnitEntry || recordedTag) {
+          attributes.set(spec.name, attribute);
+        }
+      });
+
+      if (isUnitEntry) {
+        // The unit's own strings may be indexed, so the bases must be known before anything is resolved.
+        unit.strOffsetsBase = asNumber(attributes.get(DW_AT_str_offsets_base));
+        unit.addrBase = asNumber(attributes.get(DW_AT_addr_base)) ?? asNumber(attributes.get(DW_AT_GNU_addr_base));
+        const compDir = resolveString(sections, sections.info, attributes.get(DW_AT_comp_dir), unit);
+        const stmtList = asNumber(attributes.get(DW_AT_stmt_list));
+        unit.files = stmtList !== undefined ? parseLineTableFiles(sections, stmtList, compDir) : [];
+        units.push({
+          offset: unitOffset,
+          name: resolveString(sections, sections.info, attributes.get(DW_AT_name), unit),
+          compDir,
+          producer: resolveString(sections, sections.info, attributes.get(DW_AT_producer), unit),
+          lineTableOffset: stmtList,
+        });
+      } else if (recordedTag) {
+        const enclosing = [...parents].reverse().find((parent) => parent.tag === DW_TAG_subprogram);
+        entries.push(buildEntry(sections, unit, recordedTag, dieOffset, attributes, enclosing?.offset));
+      }
+      isFirstEntry = false;
+
+      if (abbrev.hasChildren) {
+        parents.push({ tag: abbrev.tag, offset: dieOffset });
+      }
+    }
+
+    cursor.offset = unitEnd;
+  }
+
+  return { units, entries };
+};
+
+const readDwarfSections = (elf: ElfFile): DwarfSections | undefined => {
+  const sectionData = (name: string): Buffer | undefined => {
+    const section = elf.sections.find((entry) => entry.name === name);
+    return section ? getSectionData(elf, section) : undefined;
+  };
+
+  const info = sectionData('.debug_info');
+  const abbrev = sectionData('.debug_abbrev');
+  if (!info || !abbrev || info.length === 0) {
+    return undefined;
+  }
+
+  return {
+    info,
+    abbrev,
+    str: sectionData('.debug_str'),
+    lineStr: sectionData('.debug_line_str'),
+    line: sectionData('.debug_line'),
+    strOffsets: sectionData('.debug_str_offsets'),
+    addr: sectionData('.debug_addr'),
+  };
+};
+
+/**
+ * Reads DWARF from an ELF image, or returns undefined when it was linked without debug information.
+ * ARM code addresses have their Thumb bit cleared so they match the symbol table.
+ */
+export const readDwarfFromElf = (elf: ElfFile): DwarfInfo | undefined => {
+  const sections = readDwarfSections(elf);
+  if (!sections) {
+    return undefined;
+  }
+
+  const dwarf = parseDwarf(sections);
+
+  if (elf.machine === EM_ARM) {
+    dwarf.entries.forEach((entry) => {
+      if (entry.lowPc !== undefined) {
+        entry.lowPc = (entry.lowPc & ~1) >>> 0;
+      }
+      if (entry.highPc !== undefined) {
+        entry.highPc = (entry.highPc & ~1) >>> 0;
+      }
+    });
+  }
+
+  return dwarf;
+};
+
+/**
+ * Reads the source line table of an ELF image whose DWARF has already been read into `dwarf`, so
+ * `.debug_info` is not parsed again. This is kept out of `Analysis` because it is only needed to
+ * symbolize addresses.
+ */
+export const readLineTable = (elf: ElfFile, dwarf: DwarfInfo): DwarfLineRange[] => {
+  const sections = readDwarfSections(elf);
+  return sections ? parseDwarfLineTable(sections, dwarf.units) : [];
+};
@@ -0,0 +1,565 @@
+import { readFile } from 'fs/promises';
+import { DemangledName, Section, SectionFlags, Segment } from '../model';
+
+export const EM_ARM = 40;
+
+export const SHT_NULL = 0;
+export const SHT_SYMTAB = 2;
+export const SHT_STRTAB = 3;
+export const SHT_NOTE = 7;
+export const SHT_NOBITS = 8;
+
+export const SHF_WRITE = 0x1;
+export const SHF_ALLOC = 0x2;
+export const SHF_EXECINSTR = 0x4;
+export const SHF_TLS = 0x400;
+
+export const PT_LOAD = 1;
+
+export const PF_X = 0x1;
+export const PF_W = 0x2;
+export const PF_R = 0x4;
+
+export const STB_LOCAL = 0;
+export const STB_GLOBAL = 1;
+export const STB_WEAK = 2;
+
+export const STT_NOTYPE = 0;
+export const STT_OBJECT = 1;
+export const STT_FUNC = 2;
+export const STT_SECTION = 3;
+export const STT_FILE = 4;
+export const STT_COMMON = 5;
+export const STT_TLS = 6;
+
+export const SHN_UNDEF = 0;
+export const SHN_ABS = 0xfff1;
+export const SHN_COMMON = 0xfff2;
+
+const NT_GNU_BUILD_ID = 3;
+
+const ELF_MAGIC = [0x7f, 0x45, 0x4c, 0x46];
+const ELFCLASS32 = 1;
+const ELFDATA2LSB = 1;
+
+const ELF32_HEADER_SIZE = 52;
+const ELF32_SECTION_HEADER_SIZE = 40;
+const ELF32_PROGRAM_HEADER_SIZE = 32;
+const ELF32_SYMBOL_SIZE = 16;
+
+export interface ElfSectionHeader {
+  index: number;
+  name: string;
+  type: number;
+  flags: number;
+  addr: number;
+  offset: number;
+  size: number;
+  link: number;
+  info: number;
+  addralign: number;
+  entsize: number;
+}
+
+export interface ElfProgramHeader {
+  index: number;
+  type: number;
+  offset: number;
+  vaddr: number;
+  paddr: number;
+  filesz: number;
+  memsz: number;
+  flags: number;
+  align: number;
+}
+
+export interface ElfSymbolEntry {
+  index: number;
+  name: string;
+  value: number;
+  size: number;
+  bind: number;
+  type: number;
+  other: number;
+  shndx: number;
+}
+
+export interface ElfFile {
+  machine: number;
+  entry: number;
+  sections: ElfSectionHeader[];
+  programHeaders: ElfProgramHeader[];
+  symbols: ElfSymbolEntry[];
+  buildId?: string;
+  data: Buffer;
+}
+
+/**
+ * Symbol row in the shape the symbol assignment stage consumes. `typeCode` uses the single-letter
+ * vocabulary printed by `nm` so classification stays independent of where the row came from.
+ */
+export interface SymbolTableEntry {
+  address: number;
+  size: number;
+  typeCode: string;
+  name: string;
+  rawName: string;
+  demangled?: DemangledName;
+  sizeInferred?: boolean;
+}
+
+const ensureRange = (data: Buffer, offset: number, length: number, what: string): void => {
+  if (offset < 0 || length < 0 || offset + length > data.length) {
+    throw new Error(`ELF ${what} at offset 0x${offset.toString(16)} extends past the end of the file.`);
+  }
+};
+
+const readCString = (data: Buffer, offset: number): string => {
+  let end = offset;
+  while (end < data.length && data[end] !== 0) {
+    end += 1;
+  }
+  return data.toString('utf8', offset, end);
+};
+
+const readStringAt = (data: Buffer, table: ElfSectionHeader | undefined, offset: number): string => {
+  if (!table || table.type === SHT_NOBITS || offset >= table.size) {
+    return '';
+  }
+  return readCString(data, table.offset + offset);
+};
+
+const parseSectionHeaders = (data: Buffer, shoff: number, shnum: number, shentsize: number, shstrndx: number): ElfSectionHeader[] => {
+  if (shoff === 0 || shnum === 0) {
+    return [];
+  }
+
+  if (shentsize < ELF32_SECTION_HEADER_SIZE) {
+    throw new Error(`Unexpected ELF section header size ${shentsize}.`);
+  }
+
+  ensureRange(data, shoff, shnum * shentsize, 'section header table');
+
+  const headers: ElfSectionHeader[] = [];
+  const nameOffsets: number[] = [];
+  for (let index = 0; index < shnum; index += 1) {
+    const base = shoff + index * shentsize;
+    nameOffsets.push(data.readUInt32LE(base));
+    headers.push({
+      index,
+      name: '',
+      type: data.readUInt32LE(base + 4),
+      flags: data.readUInt32LE(base + 8),
+      addr: data.readUInt32LE(base + 12),
+      offset: data.readUInt32LE(base + 16),
+      size: data.readUInt32LE(base + 20),
+      link: data.readUInt32LE(base + 24),
+      info: data.readUInt32LE(base + 28),
+      addralign: data.readUInt32LE(base + 32),
+      entsize: data.readUInt32LE(base + 36),
+    });
+  }
+
+  const nameTable = headers[shstrndx];
+  headers.forEach((header, index) => {
+    header.name = readStringAt(data, nameTable, nameOffsets[index]);
+  });
+
+  return headers;
+};
+
+const parseProgramHeaders = (data: Buffer, phoff: number, phnum: number, phentsize: number): ElfProgramHeader[] => {
+  if (phoff === 0 || phnum === 0) {
+    return [];
+  }
+
+  if (phentsize < ELF32_PROGRAM_HEADER_SIZE) {
+    throw new Error(`Unexpected ELF program header size ${phentsize}.`);
+  }
+
+  ensureRange(data, phoff, phnum * phentsize, 'program header table');
+
+  const headers: ElfProgramHeader[] = [];
+  for (let index = 0; index < phnum; index += 1) {
+    const base = phoff + index * phentsize;
+    headers.push({
+      index,
+      type: data.readUInt32LE(base),
+      offset: data.readUInt32LE(base + 4),
+      vaddr: data.readUInt32LE(base + 8),
+      paddr: data.readUInt32LE(base + 12),
+      filesz: data.readUInt32LE(base + 16),
+      memsz: data.readUInt32LE(base + 20),
+      flags: data.readUInt32LE(base + 24),
+      align: data.readUInt32LE(base + 28),
+    });
+  }
+
+  return headers;
+};
+
+const parseSymbolTable = (data: Buffer, sections: ElfSectionHeader[]): ElfSymbolEntry[] => {
+  const symtab = sections.find((section) => section.type === SHT_SYMTAB);
+  if (!symtab) {
+    return [];
+  }
+
+  const entsize = symtab.entsize || ELF32_SYMBOL_SIZE;
+  ensureRange(data, symtab.offset, symtab.size, 'symbol table');
+  const strtab = sections[symtab.link];
+
+  const symbols: ElfSymbolEntry[] = [];
+  const count = Math.floor(symtab.size / entsize);
+  for (let index = 0; index < count; index += 1) {
+    const base = symtab.offset + index * entsize;
+    const info = data[base + 12];
+    symbols.push({
+      index,
+      name: readStringAt(data, strtab, data.readUInt32LE(base)),
+      value: data.readUInt32LE(base + 4),
+      size: data.readUInt32LE(base + 8),
+      bind: info >> 4,
+      type: info & 0xf,
+      other: data[base + 13],
+      shndx: data.readUInt16LE(base + 14),
+    });
+  }
+
+  return symbols;
+};
+
+const align4 = (value: number): number => (value + 3) & ~3;
+
+const parseBuildId = (data: Buffer, sections: ElfSectionHeader[]): string | undefined => {
+  const note = sections.find((section) => section.type === SHT_NOTE && section.name === '.note.gnu.build-id');
+  if (!note) {
+    return undefined;
+  }
+
+  ensureRange(data, note.offset, note.size, 'build-id note');
+
+  let cursor = note.offset;
+  const end = note.offset + note.size;
+  while (cursor + 12 <= end) {
+    const nameSize = data.readUInt32LE(cursor);
+    const descSize = data.readUInt32LE(cursor + 4);
+    const type = data.readUInt32LE(cursor + 8);
+    const nameStart = cursor + 12;
+    const descStart = nameStart + align4(nameSize);
+    const owner = data.toString('utf8', nameStart, nameStart + Math.max(nameSize - 1, 0));
+
+    if (type === NT_GNU_BUILD_ID && owner === 'GNU' && descStart + descSize <= end) {
+      return data.toString('hex', descStart, descStart + descSize);
+    }
+
+    cursor = descStart + align4(descSize);
+  }
+
+  return undefined;
+};
+
+export const parseElf = (data: Buffer): ElfFile => {
+  if (data.length < ELF32_HEADER_SIZE || ELF_MAGIC.some((byte, index) => data[index] !== byte)) {
+    throw new Error('File is not an ELF image.');
+  }
+
+  if (data[4] !== ELFCLASS32) {
+    throw new Error('Only 32-bit ELF images are supported.');
+  }
+
+  if (data[5] !== ELFDATA2LSB) {
+    throw new Error('Only little-endian ELF images are supported.');
+  }
+
+  const machine = data.readUInt16LE(18);
+  const entry = data.readUInt32LE(24);
+  const phoff = data.readUInt32LE(28);
+  const shoff = data.readUInt32LE(32);
+  const phentsize = data.readUInt16LE(42);
+  const phnum = data.readUInt16LE(44);
+  const shentsize = data.readUInt16LE(46);
+  const shnum = data.readUInt16LE(48);
+  const shstrndx = data.readUInt16LE(50);
+
+  const sections = parseSectionHeaders(data, shoff, shnum, shentsize, shstrndx);
+  const programHeaders = parseProgramHeaders(data, phoff, phnum, phentsize);
+  const symbols = parseSymbolTable(data, sections);
+  const buildId = parseBuildId(data, sections);
+
+  return {
+    machine,
+    entry,
+    sections,
+    programHeaders,
+    symbols,
+    buildId,
+    data,
+  };
+};
+
+export const readElfFile = async (filePath: string): Promise<ElfFile> => {
+  const data = await readFile(filePath);
+  try {
+    return parseElf(data);
+  } catch (error) {
+    throw new Error(`Failed to read ELF ${filePath}: ${(error as Error).message}`);
+  }
+};
+
+export const getSectionData = (elf: ElfFile, section: ElfSectionHeader): Buffer => {
+  if (section.type === SHT_NOBITS) {
+    return Buffer.alloc(0);
+  }
+  ensureRange(elf.data, section.offset, section.size, `section ${section.name}`);
+  return elf.data.subarray(section.offset, section.offset + section.size);
+};
+
+const toSectionFlags = (flags: number): SectionFlags => ({
+  alloc: (flags & SHF_ALLOC) !== 0,
+  exec: (flags & SHF_EXECINSTR) !== 0,
+  write: (flags & SHF_WRITE) !== 0,
+  tls: (flags & SHF_TLS) !== 0 || undefined,
+});
+
+const sectionInLoadSegment = (section: ElfSectionHeader, segment: ElfProgramHeader): boolean => {
+  if (segment.type !== PT_LOAD || (section.flags & SHF_ALLOC) === 0) {
+    return false;
+  }
+
+  const withinMemory =
+    section.addr >= segment.vaddr && section.addr + section.size <= segment.vaddr + segment.memsz;
+  if (!withinMemory) {
+    return false;
+  }
+
+  if (section.type === SHT_NOBITS) {
+    return true;
+  }
+
+  return section.offset >= segment.offset && section.offset + section.size <= segment.offset + segment.filesz;
+};
+
+const findLoadSegment = (section: ElfSectionHeader, segments: ElfProgramHeader[]): ElfProgramHeader | undefined =>
+  segments.find((candidate) => sectionInLoadSegment(section, candidate));
+
+/**
+ * Translates a section's VMA into its load address through the PT_LOAD segment that carries it,
+ * mirroring how `objdump -h` derives the LMA column. Allocated sections outside every segment load
+ * where they run; sections that are never loaded have no LMA at all.
+ */
+const resolveLoadAddress = (section: ElfSectionHeader, segment: ElfProgramHeader | undefined): number | undefined => {
+  if (segment) {
+    return (segment.paddr + (section.addr - segment.vaddr)) >>> 0;
+  }
+  return (section.flags & SHF_ALLOC) !== 0 ? section.addr : undefined;
+};
+
+export const toSegmentId = (segment: ElfProgramHeader): string => `seg_${segment.index}`;
+
+export const toSectionId = (section: ElfSectionHeader): string => `sec_${section.index}`;
+
+export const buildSectionsFromElf = (elf: ElfFile): Section[] =>
+  elf.sections
+    .filter((section) => section.type !== SHT_NULL)
+    .map((section) => {
+      const segment = findLoadSegment(section, elf.programHeaders);
+      return {
+        id: toSectionId(section),
+        name: section.name,
+        vmaStart: section.addr,
+        size: section.size,
+        flags: toSectionFlags(section.flags),
+        lmaStart: resolveLoadAddress(section, segment),
+        categoryId: undefined,
+        blockAssignments: [],
+        primaryBlockId: undefined,
+        primaryWindowId: undefined,
+        segmentId: segment ? toSegmentId(segment) : undefined,
+      };
+    });
+
+export const buildSegmentsFromElf = (elf: ElfFile): Segment[] =>
+  elf.programHeaders
+    .filter((segment) => segment.type === PT_LOAD)
+    .map((segment) => ({
+      id: toSegmentId(segment),
+      index: segment.index,
+      vaddr: segment.vaddr,
+      paddr: segment.paddr,
+      filesz: segment.filesz,
+      memsz: segment.memsz,
+      align: segment.align,
+      flags: {
+        read: (segment.flags & PF_R) !== 0,
+        write: (segment.flags & PF_W) !== 0,
+        exec: (segment.flags & PF_X) !== 0,
+      },
+      sectionIds: elf.sections
+        .filter((section) => section.type !== SHT_NULL && findLoadSegment(section, elf.programHeaders) === segment)
+        .map(toSectionId),
+      zeroFillBytes: Math.max(segment.memsz - segment.filesz, 0),
+    }));
+
+/**
+ * Derives the `nm` type letter for a symbol: uppercase for global bindings, lowercase for locals.
+ */
+const deriveTypeCode = (symbol: ElfSymbolEntry, sections: ElfSectionHeader[]): string => {
+  const isLocal = symbol.bind === STB_LOCAL;
+  const withCase = (code: string): string => (isLocal ? code.toLowerCase() : code);
+
+  if (symbol.shndx === SHN_UNDEF) {
+    return symbol.bind === STB_WEAK ? 'w' : 'U';
+  }
+
+  if (symbol.bind === STB_WEAK) {
+    return symbol.type === STT_OBJECT ? 'V' : 'W';
+  }
+
+  if (symbol.shndx === SHN_ABS) {
+    return withCase('A');
+  }
+
+  if (symbol.shndx === SHN_COMMON || symbol.type === STT_COMMON) {
+    return 'C';
+  }
+
+  const section = sections[symbol.shndx];
+  if (!section) {
+    return '?';
+  }
+
+  if ((section.flags & SHF_ALLOC) === 0) {
+    return 'N';
+  }
+  if ((section.flags & SHF_EXECINSTR) !== 0) {
+    return withCase('T');
+  }
+  if ((section.flags & SHF_WRITE) !== 0) {
+    return withCase(section.type === SHT_NOBITS ? 'B' : 'D');
+  }
+  return withCase('R');
+};
+
+// `$a`, `$t`, `$d` (optionally `$t.1` etc.) mark instruction-set and data regions, not program entities.
+const MAPPING_SYMBOL_REGEX = /^\$[atdx](?:\..*)?$/;
+
+const isDefinedSymbol = (symbol: ElfSymbolEntry): boolean =>
+  symbol.shndx !== SHN_UNDEF &&
+  symbol.type !== STT_FILE &&
+  symbol.type !== STT_SECTION &&
+  symbol.name.length > 0 &&
+  !MAPPING_SYMBOL_REGEX.test(symbol.name);
+
+const symbolAddress = (elf: ElfFile, symbol: ElfSymbolEntry): number => {
+  const isThumbFunction = elf.machine === EM_ARM && symbol.type === STT_FUNC;
+  return isThumbFunction ? (symbol.value & ~1) >>> 0 : symbol.value;
+};
+
+const toSymbolTableEntry = (elf: ElfFile, symbol: ElfSymbolEntry, size: number): SymbolTableEntry => ({
+  address: symbolAddress(elf, symbol),
+  size,
+  typeCode: deriveTypeCode(symbol, elf.sections),
+  name: symbol.name,
+  rawName: symbol.name,
+});
+
+// How many of the ascending `values` are at most `value`, which is also the index of the first larger one.
+const countAtOrBelow = (values: number[], value: number): number => {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (values[mid] <= value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+const isSizeInferenceCandidate = (symbol: ElfSymbolEntry): boolean =>
+  symbol.size === 0 && (symbol.type === STT_FUNC || symbol.type === STT_OBJECT || symbol.type === STT_NOTYPE);
+
+/**
+ * Sizes the functions, objects and untyped labels the symbol table leaves unsized (typically
+ * hand-written assembly, where a `.global` label often has no `.type`) by the distance to the next
+ * symbol in the same section, or to the section end. Labels that fall inside a sized symbol are
+ * dropped, and only one unsized symbol is kept per address, preferring a global binding.
+ */
+const inferUnsizedSymbols = (elf: ElfFile, defined: ElfSymbolEntry[]): SymbolTableEntry[] => {
+  const bySection = new Map<number, ElfSymbolEntry[]>();
+  defined.forEach((symbol) => {
+    const section = elf.sections[symbol.shndx];
+    if (!section || (section.flags & SHF_ALLOC) === 0) {
+      return;
+    }
+    const bucket = bySection.get(symbol.shndx);
+    if (bucket) {
+      bucket.push(symbol);
+    } else {
+      bySection.set(symbol.shndx, [symbol]);
+    }
+  });
+
+  const inferred: SymbolTableEntry[] = [];
+  bySection.forEach((symbols, shndx) => {
+    const section = elf.sections[shndx];
+    const sectionEnd = section.addr + section.size;
+    const boundaries = Array.from(new Set(symbols.map((symbol) => symbolAddress(elf, symbol))))
+      .concat(sectionEnd)
+      .sort((a, b) => a - b);
+
+    // Sized symbols by start, with the furthest end reached by any of them up to each one, so whether an
+    // address lies inside one is a single search even when sized symbols overlap.
+    const sized = symbols
+      .filter((symbol) => symbol.size > 0)
+      .map((symbol) => ({ start: symbolAddress(elf, symbol), end: symbolAddress(elf, symbol) + symbol.size }))
+      .sort((a, b) => a.start - b.start);
+    const sizedStarts = sized.map((entry) => entry.start);
+    const reachedEnds: number[] = [];
+    sized.forEach((entry, index) => {
+      reachedEnds.push(Math.max(entry.end, index > 0 ? reachedEnds[index - 1] : 0));
+    });
+    const isCovered = (address: number): boolean => {
+      const count = countAtOrBelow(sizedStarts, address);
+      return count > 0 && reachedEnds[count - 1] > address;
+    };
+
+    const candidateByAddress = new Map<number, ElfSymbolEntry>();
+    symbols.filter(isSizeInferenceCandidate).forEach((symbol) => {
+      const address = symbolAddress(elf, symbol);
+      if (isCovered(address)) {
+        return;
+      }
+      const existing = candidateByAddress.get(address);
+      if (!existing || (existing.bind === STB_LOCAL && symbol.bind !== STB_LOCAL)) {
+        candidateByAddress.set(address, symbol);
+      }
+    });
+
+    candidateByAddress.forEach((symbol, address) => {
+      const next = boundaries[countAtOrBelow(boundaries, address)];
+      if (next === undefined || next > sectionEnd) {
+        return;
+      }
+      inferred.push({ ...toSymbolTableEntry(elf, symbol, next - address), sizeInferred: true });
+    });
+  });
+
+  return inferred;
+};
+
+/**
+ * Returns the defined symbols from `.symtab`, equivalent to `nm --print-size --size-sort`, plus the
+ * unsized functions, objects and labels with sizes inferred from their neighbours (flagged `sizeInferred`).
+ * Thumb function addresses have their interworking bit cleared so they line up with section contents.
+ */
+export const buildSymbolTableFromElf = (elf: ElfFile): SymbolTableEntry[] => {
+  const defined = elf.symbols.filter(isDefinedSymbol);
+  const sized = defined
+    .filter((symbol) => symbol.size > 0)
+    .map((symbol) => toSymbolTableEntry(elf, symbol, symbol.size));
+
+  return [...sized, ...inferUnsizedSymbols(elf, defined)].sort((a, b) => a.address - b.address || a.size - b.size);
+};
@@ -0,0 +1,141 @@
+import { readFile } from 'fs/promises';
+
+const RECORD_DATA = 0x00;
+const RECORD_END_OF_FILE = 0x01;
+const RECORD_EXTENDED_SEGMENT_ADDRESS = 0x02;
+const RECORD_START_SEGMENT_ADDRESS = 0x03;
+const RECORD_EXTENDED_LINEAR_ADDRESS = 0x04;
+const RECORD_START_LINEAR_ADDRESS = 0x05;
+
+const RECORD_REGEX = /^:((?:[0-9a-fA-F]{2})+)$/;
+
+export interface IntelHexChunk {
+  address: number;
+  data: Buffer;
+}
+
+/**
+ * Contiguous runs of programmed bytes, sorted by address, plus the start address record if present.
+ */
+export interface IntelHexImage {
+  chunks: IntelHexChunk[];
+  startAddress?: number;
+}
+
+interface PendingChunk {
+  address: number;
+  size: number;
+  parts: Buffer[];
+}
+
+const decodeRecord = (line: string, lineNumber: number): Buffer => {
+  const match = RECORD_REGEX.exec(line);
+  if (!match) {
+    throw new Error(`Line ${lineNumber} is not an Intel HEX record.`);
+  }
+
+  const bytes = Buffer.from(match[1], 'hex');
+  if (bytes.length < 5 || bytes.length !== bytes[0] + 5) {
+    throw new Error(`Line ${lineNumber} has a record length that does not match its contents.`);
+  }
+
+  const checksum = bytes.reduce((sum, byte) => (sum + byte) & 0xff, 0);
+  if (checksum !== 0) {
+    throw new Error(`Line ${lineNumber} has a bad checksum.`);
+  }
+
+  return bytes;
+};
+
+const mergeChunks = (pending: PendingChunk[]): IntelHexChunk[] => {
+  const sorted = [...pending].sort((a, b) => a.address - b.address);
+  const merged: PendingChunk[] = [];
+
+  sorted.forEach((chunk) => {
+    const previous = merged[merged.length - 1];
+    if (previous && chunk.address < previous.address + previous.size) {
+      throw new Error(
+        `Intel HEX data at 0x${chunk.address.toString(16)} overlaps data already written at 0x${previous.address.toString(16)}.`,
+      );
+    }
+    if (previous && chunk.address === previous.address + previous.size) {
+      previous.parts.push(...chunk.parts);
+      previous.size += chunk.size;
+      return;
+    }
+    merged.push({ ...chunk, parts: [...chunk.parts] });
+  });
+
+  return merged.map((chunk) => ({ address: chunk.address, data: Buffer.concat(chunk.parts, chunk.size) }));
+};
+
+/**
+ * Parses an Intel HEX file (I8HEX/I16HEX/I32HEX) into the byte image it programs. Records are
+ * checksum-verified and everything after the end-of-file record is ignored.
+ */
+export const parseIntelHex = (text: string): IntelHexImage => {
+  const pending: PendingChunk[] = [];
+  let baseAddress = 0;
+  let startAddress: number | undefined;
+  let current: PendingChunk | undefined;
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index].trim();
+    if (!line) {
+      continue;
+    }
+
+    const record = decodeRecord(line, index + 1);
+    const length = record[0];
+    const offset = record.readUInt16BE(1);
+    const type = record[3];
+    const payload = record.subarray(4, 4 + length);
+
+    if (type === RECORD_END_OF_FILE) {
+      break;
+    }
+
+    switch (type) {
+      case RECORD_DATA: {
+        if (length === 0) {
+          break;
+        }
+        const address = (baseAddress + offset) >>> 0;
+        if (current && current.address + current.size === address) {
+          current.parts.push(payload);
+          current.size += length;
+        } else {
+          current = { address, size: length, parts: [payload] };
+          pending.push(current);
+        }
+        break;
+      }
+      case RECORD_EXTENDED_SEGMENT_ADDRESS:
+        baseAddress = payload.readUInt16BE(0) * 16;
+        break;
+      case RECORD_EXTENDED_LINEAR_ADDRESS:
+        baseAddress = payload.readUInt16BE(0) * 0x10000;
+        break;
+      case RECORD_START_SEGMENT_ADDRESS:
+        startAddress = payload.readUInt16BE(0) * 16 + payload.readUInt16BE(2);
+        break;
+      case RECORD_START_LINEAR_ADDRESS:
+        startAddress = payload.readUInt32BE(0);
+        break;
+      default:
+        throw new Error(`Line ${index + 1} has unsupported record type 0x${type.toString(16).padStart(2, '0')}.`);
+    }
+  }
+
+  return { chunks: mergeChunks(pending), startAddress };
+};
+
+export const readIntelHexFile = async (filePath: string): Promise<IntelHexImage> => {
+  const text = await readFile(filePath, 'utf8');
+  try {
+    return parseIntelHex(text);
+  } catch (error) {
+    throw new Error(`Failed to read Intel HEX ${filePath}: ${(error as Error).message}`);
+  }
+};
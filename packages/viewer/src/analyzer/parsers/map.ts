@@ -0,0 +1,324 @@
+import path from 'path';
+import { readFile } from 'fs/promises';
+import {
+  LinkerArchiveMember,
+  LinkerDiscardedSection,
+  LinkerInputSection,
+  LinkerMap,
+  LinkerMemoryRegion,
+  LinkerObjectFile,
+  LinkerOutputSection,
+} from '../model';
+
+type MapPhase = 'preamble' | 'archiveMembers' | 'discarded' | 'memory' | 'script';
+
+const PHASE_HEADINGS: Array<[string, MapPhase]> = [
+  ['Archive member included to satisfy reference by file (symbol)', 'archiveMembers'],
+  ['Discarded input sections', 'discarded'],
+  ['Memory Configuration', 'memory'],
+  ['Linker script and memory map', 'script'],
+];
+
+const HEX = '0x([0-9a-fA-F]+)';
+
+const OUTPUT_SECTION_REGEX = new RegExp(`^(\\S+)\\s+${HEX}\\s+${HEX}(?:\\s+load address ${HEX})?\\s*$`);
+const OUTPUT_SECTION_CONTINUATION_REGEX = new RegExp(`^\\s+${HEX}\\s+${HEX}(?:\\s+load address ${HEX})?\\s*$`);
+const INPUT_SECTION_REGEX = new RegExp(`^ (\\S+)\\s+${HEX}\\s+${HEX}(?:\\s+(.*\\S))?\\s*$`);
+const INPUT_SECTION_CONTINUATION_REGEX = new RegExp(`^\\s+${HEX}\\s+${HEX}(?:\\s+(.*\\S))?\\s*$`);
+const FILL_REGEX = new RegExp(`^ \\*fill\\*\\s+${HEX}\\s+${HEX}(?:\\s+([0-9a-fA-F]+))?\\s*$`);
+const SYMBOL_REGEX = new RegExp(`^\\s+${HEX}\\s+(?:${HEX}\\s+)?(\\S.*\\S|\\S)\\s*$`);
+const MEMORY_REGION_REGEX = new RegExp(`^(\\S+)\\s+${HEX}\\s+${HEX}(?:\\s+(\\S+))?\\s*$`);
+const LONE_NAME_REGEX = /^ ?(\S+)\s*$/;
+const ARCHIVE_MEMBER_REGEX = /^(.*?\([^()]*\))(?:\s{2,}(\S.*))?$/;
+// Script assignments and merge notes share the indentation of symbol lines.
+const NON_SYMBOL_REGEX = /^(?:PROVIDE|HIDDEN|ASSERT)\s*\(|^[.\w$]+\s+=\s|^\[!provide\]|^\(size before relaxing\)$/;
+
+const parseHex = (value: string): number => parseInt(value, 16);
+
+interface ObjectFileTable {
+  files: LinkerObjectFile[];
+  byPath: Map<string, LinkerObjectFile>;
+}
+
+const describeObjectPath = (objectPath: string): Omit<LinkerObjectFile, 'id'> => {
+  const memberMatch = /^(.*)\(([^()]+)\)$/.exec(objectPath);
+  if (memberMatch) {
+    const [, archivePath, memberName] = memberMatch;
+    return {
+      path: objectPath,
+      archivePath,
+      memberName,
+      displayName: `${path.win32.basename(archivePath)}(${memberName})`,
+    };
+  }
+
+  return {
+    path: objectPath,
+    displayName: path.win32.basename(objectPath),
+  };
+};
+
+const internObjectFile = (table: ObjectFileTable, objectPath: string): string => {
+  const existing = table.byPath.get(objectPath);
+  if (existing) {
+    return existing.id;
+  }
+
+  const file: LinkerObjectFile = { id: `obj_${table.files.length}`, ...describeObjectPath(objectPath) };
+  table.files.push(file);
+  table.byPath.set(objectPath, file);
+  return file.id;
+};
+
+const splitReference = (value: string): { file?: string; symbol: string } | undefined => {
+  // Symbols pulled in by the linker script or command line (ENTRY, EXTERN, -u) have no referencing file.
+  const scriptMatch = /^\((.*)\)$/.exec(value);
+  if (scriptMatch) {
+    return { symbol: scriptMatch[1] };
+  }
+
+  const archiveMatch = /^(.*?\.a\([^()]*\)) \((.*)\)$/.exec(value);
+  if (archiveMatch) {
+    return { file: archiveMatch[1], symbol: archiveMatch[2] };
+  }
+
+  const fileMatch = /^(.*?) \((.*)\)$/.exec(value);
+  return fileMatch ? { file: fileMatch[1], symbol: fileMatch[2] } : undefined;
+};
+
+/**
+ * Parses a GNU ld map file (as written by `-Wl,-Map`). Long section names that ld wraps onto their
+ * own line are joined with the address line that follows them.
+ */
+export const parseLinkerMap = (text: string): LinkerMap => {
+  const objectFiles: ObjectFileTable = { files: [], byPath: new Map() };
+  const archiveMembers: LinkerArchiveMember[] = [];
+  const discardedSections: LinkerDiscardedSection[] = [];
+  const memoryRegions: LinkerMemoryRegion[] = [];
+  const outputSections: LinkerOutputSection[] = [];
+
+  let phase: MapPhase = 'preamble';
+  let pendingMember: string | undefined;
+  let pendingName: string | undefined;
+  let pendingScriptName: { name: string; isOutput: boolean } | undefined;
+  let currentOutput: LinkerOutputSection | undefined;
+  let currentInput: LinkerInputSection | undefined;
+
+  const addArchiveMember = (memberPath: string, reference: string): void => {
+    const parsed = splitReference(reference.trim());
+    if (!parsed) {
+      throw new Error(`Unrecognized archive member reference in linker map: ${reference.trim()}`);
+    }
+    archiveMembers.push({
+      objectFileId: internObjectFile(objectFiles, memberPath),
+      referencedByObjectFileId: parsed.file ? internObjectFile(objectFiles, parsed.file) : undefined,
+      symbol: parsed.symbol,
+    });
+  };
+
+  const addInputSection = (name: string, address: number, size: number, objectPath?: string): void => {
+    currentInput = {
+      name,
+      address,
+      size,
+      objectFileId: objectPath ? internObjectFile(objectFiles, objectPath) : undefined,
+      isFill: false,
+      symbols: [],
+    };
+    currentOutput?.inputSections.push(currentInput);
+  };
+
+  const addOutputSection = (name: string, address: number, size: number, loadAddress?: number): void => {
+    currentOutput = { name, address, size, loadAddress, inputSections: [] };
+    currentInput = undefined;
+    outputSections.push(currentOutput);
+  };
+
+  const handleScriptLine = (line: string): void => {
+    if (pendingScriptName) {
+      const { name, isOutput } = pendingScriptName;
+      pendingScriptName = undefined;
+      const outputContinuation = isOutput ? OUTPUT_SECTION_CONTINUATION_REGEX.exec(line) : null;
+      if (outputContinuation) {
+        const [, address, size, loadAddress] = outputContinuation;
+        addOutputSection(name, parseHex(address), parseHex(size), loadAddress ? parseHex(loadAddress) : undefined);
+        return;
+      }
+      const inputContinuation = isOutput ? null : INPUT_SECTION_CONTINUATION_REGEX.exec(line);
+      if (inputContinuation) {
+        const [, address, size, objectPath] = inputContinuation;
+        addInputSection(name, parseHex(address), parseHex(size), objectPath);
+        return;
+      }
+    }
+
+    if (!line.trim()) {
+      return;
+    }
+
+    if (!line.startsWith(' ')) {
+      const outputMatch = OUTPUT_SECTION_REGEX.exec(line);
+      if (outputMatch) {
+        const [, name, address, size, loadAddress] = outputMatch;
+        addOutputSection(name, parseHex(address), parseHex(size), loadAddress ? parseHex(loadAddress) : undefined);
+        return;
+      }
+      const loneName = LONE_NAME_REGEX.exec(line);
+      if (loneName && !line.includes('(')) {
+        pendingScriptName = { name: loneName[1], isOutput: true };
+        return;
+      }
+      // LOAD, START GROUP, OUTPUT(...) and similar directives sit between output sections.
+      currentOutput = undefined;
+      currentInput = undefined;
+      return;
+    }
+
+    const fillMatch = FILL_REGEX.exec(line);
+    if (fillMatch) {
+      const [, address, size, pattern] = fillMatch;
+      currentInput = {
+        name: '*fill*',
+        address: parseHex(address),
+        size: parseHex(size),
+        isFill: true,
+        fillPattern: pattern,
+        symbols: [],
+      };
+      currentOutput?.inputSections.push(currentInput);
+      return;
+    }
+
+    const inputMatch = INPUT_SECTION_REGEX.exec(line);
+    if (inputMatch) {
+      const [, name, address, size, objectPath] = inputMatch;
+      addInputSection(name, parseHex(address), parseHex(size), objectPath);
+      return;
+    }
+
+    const loneInputName = LONE_NAME_REGEX.exec(line);
+    if (loneInputName && /^ \S/.test(line) && !line.includes('(')) {
+      pendingScriptName = { name: loneInputName[1], isOutput: false };
+      return;
+    }
+
+    const symbolMatch = SYMBOL_REGEX.exec(line);
+    if (symbolMatch) {
+      const [, address, , name] = symbolMatch;
+      if (!NON_SYMBOL_REGEX.test(name)) {
+        currentInput?.symbols.push({ name, address: parseHex(address) });
+      }
+    }
+  };
+
+  const handleDiscardedLine = (line: string): void => {
+    if (pendingName !== undefined) {
+      const name = pendingName;
+      pendingName = undefined;
+      const continuation = INPUT_SECTION_CONTINUATION_REGEX.exec(line);
+      if (continuation?.[3]) {
+        discardedSections.push({
+          name,
+          size: parseHex(continuation[2]),
+          objectFileId: internObjectFile(objectFiles, continuation[3]),
+        });
+        return;
+      }
+    }
+
+    const inputMatch = INPUT_SECTION_REGEX.exec(line);
+    if (inputMatch?.[4]) {
+      const [, name, , size, objectPath] = inputMatch;
+      discardedSections.push({ name, size: parseHex(size), objectFileId: internObjectFile(objectFiles, objectPath) });
+      return;
+    }
+
+    const loneName = LONE_NAME_REGEX.exec(line);
+    if (loneName && line.startsWith(' ')) {
+      pendingName = loneName[1];
+    }
+  };
+
+  const handleArchiveMemberLine = (line: string): void => {
+    if (!line.trim()) {
+      return;
+    }
+
+    if (line.startsWith(' ')) {
+      if (!pendingMember) {
+        throw new Error(`Archive member reference without a member in linker map: ${line.trim()}`);
+      }
+      addArchiveMember(pendingMember, line);
+      pendingMember = undefined;
+      return;
+    }
+
+    const match = ARCHIVE_MEMBER_REGEX.exec(line.trimEnd());
+    if (!match) {
+      throw new Error(`Unrecognized archive member line in linker map: ${line.trim()}`);
+    }
+    const [, memberPath, reference] = match;
+    if (reference) {
+      addArchiveMember(memberPath, reference);
+      return;
+    }
+    pendingMember = memberPath;
+  };
+
+  const handleMemoryLine = (line: string): void => {
+    const match = MEMORY_REGION_REGEX.exec(line);
+    if (!match || match[1] === 'Name') {
+      return;
+    }
+    const [, name, origin, length, attributes] = match;
+    memoryRegions.push({ name, origin: parseHex(origin), length: parseHex(length), attributes });
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = PHASE_HEADINGS.find(([title]) => line === title);
+    if (heading) {
+      phase = heading[1];
+      pendingName = undefined;
+      pendingMember = undefined;
+      continue;
+    }
+
+    switch (phase) {
+      case 'archiveMembers':
+        handleArchiveMemberLine(line);
+        break;
+      case 'discarded':
+        handleDiscardedLine(line);
+        break;
+      case 'memory':
+        handleMemoryLine(line);
+        break;
+      case 'script':
+        handleScriptLine(line);
+        break;
+      default:
+        break;
+    }
+  }
+
+  if (phase !== 'script') {
+    throw new Error('Linker map does not contain a "Linker script and memory map" section.');
+  }
+
+  return {
+    objectFiles: objectFiles.files,
+    archiveMembers,
+    discardedSections,
+    memoryRegions,
+    outputSections,
+  };
+};
+
+export const readLinkerMapFile = async (filePath: string): Promise<LinkerMap> => {
+  const text = await readFile(filePath, 'utf8');
+  try {
+    return parseLinkerMap(text);
+  } catch (error) {
+    throw new Error(`Failed to read linker map ${filePath}: ${(error as Error).message}`);
+  }
+};
@@ -3,17 +3,29 @@ import { access } from 'fs/promises';
 import { constants as fsConstants } from 'fs';
 import { AnalyzeBuildParams } from '../model';
 
+/**
+ * Optional binutils commands. ELF parsing happens in-process; these are only used for extras such as
+ * demangling, and callers must tolerate them being absent.
+ */
 export interface ToolchainCommands {
   nm: string;
   objdump: string;
   size: string;
   readelf: string;
   strings: string;
+  cxxfilt: string;
 }
 
 const DEFAULT_PREFIX = 'arm-none-eabi-';
 
-const candidateCommands = ['nm', 'objdump', 'size', 'readelf', 'strings'] as const;
+const candidateCommands: Record<keyof ToolchainCommands, string> = {
+  nm: 'nm',
+  objdump: 'objdump',
+  size: 'size',
+  readelf: 'readelf',
+  strings: 'strings',
+  cxxfilt: 'c++filt',
+};
 
 const fileExists = async (filePath: string): Promise<boolean> => {
   try {
@@ -58,17 +70,17 @@ export const resolveToolchain = async (
 
   const resolved: Partial<ToolchainCommands> = {};
 
-  for (const executable of candidateCommands) {
+  for (const [key, executable] of Object.entries(candidateCommands) as Array<[keyof ToolchainCommands, string]>) {
     const commandName = formatCommandName(toolchainPrefix, executable);
     const resolvedPath = await resolveCommandPath(commandName, toolchainDir);
 
     if (resolvedPath) {
-      resolved[executable] = resolvedPath;
+      resolved[key] = resolvedPath;
       continue;
     }
 
     // Fall back to the command name itself (PATH resolution at runtime)
-    resolved[executable] = commandName;
+    resolved[key] = commandName;
   }
 
   return resolved as ToolchainCommands;
@@ -5,6 +5,8 @@ export interface RunCommandOptions {
   env?: NodeJS.ProcessEnv;
   input?: string;
   timeoutMs?: number;
+  /** Aborting kills the command and rejects with a cancellation error. */
+  signal?: AbortSignal;
 }
 
 export interface RunCommandResult {
@@ -22,6 +24,11 @@ export const runCommand = (
   options: RunCommandOptions = {},
 ): Promise<RunCommandResult> =>
   new Promise<RunCommandResult>((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new Error(`Command cancelled: ${command}`));
+      return;
+    }
+
     const child = spawn(command, args, {
       cwd: options.cwd,
       env: options.env,
@@ -42,20 +49,30 @@ export const runCommand = (
       }, options.timeoutMs);
     }
 
-    child.stdout.on('data', (chunk) => stdoutChunks.push(Buffer.from(chunk)));
-    child.stderr.on('data', (chunk) => stderrChunks.push(Buffer.from(chunk)));
+    const handleAbort = () => {
+      killed = true;
+      child.kill();
+      reject(new Error(`Command cancelled: ${command}`));
+    };
+    options.signal?.addEventListener('abort', handleAbort, { once: true });
 
-    child.on('error', (error) => {
+    const cleanUp = () => {
       if (timeout) {
         clearTimeout(timeout);
       }
+      options.signal?.removeEventListener('abort', handleAbort);
+    };
+
+    child.stdout.on('data', (chunk) => stdoutChunks.push(Buffer.from(chunk)));
+    child.stderr.on('data', (chunk) => stderrChunks.push(Buffer.from(chunk)));
+
+    child.on('error', (error) => {
+      cleanUp();
       reject(error);
     });
 
     child.on('close', (code) => {
-      if (timeout) {
-        clearTimeout(timeout);
-      }
+      cleanUp();
 
       if (killed) {
         return;
@@ -68,6 +85,9 @@ export const runCommand = (
       });
     });
 
+    // A command that is killed, or exits early, may leave its input unread.
+    child.stdin.on('error', () => undefined);
+
     const inputBuffer = bufferFromString(options.input);
     if (inputBuffer) {
       child.stdin.write(inputBuffer);
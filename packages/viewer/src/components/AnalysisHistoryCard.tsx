@@ -0,0 +1,94 @@
+import type { AnalysisHistoryEntry } from '../shared/protocol';
+import { SizeValue } from './SizeValue';
+
+interface AnalysisHistoryCardProps {
+    entries: AnalysisHistoryEntry[];
+    currentGeneratedAt: string | null;
+    baselineGeneratedAt: string | null;
+    error: string | null;
+    onOpen: (entry: AnalysisHistoryEntry) => void;
+    onCompare: (entry: AnalysisHistoryEntry) => void;
+}
+
+const fileName = (filePath: string | undefined): string => filePath?.split(/[\\/]/).pop() ?? '—';
+
+const AnalysisHistoryCard = ({
+    entries,
+    currentGeneratedAt,
+    baselineGeneratedAt,
+    error,
+    onOpen,
+    onCompare,
+}: AnalysisHistoryCardProps): JSX.Element => (
+    <section className="summary-card">
+        <div className="summary-header">
+            <h2>Analysis History</h2>
+            <div className="summary-meta">
+                <span className="summary-updated">
+                    {entries.length === 1 ? '1 stored run' : `${entries.length} stored runs`}
+                </span>
+            </div>
+        </div>
+        <p className="summary-description">
+            Runs the companion service has analyzed, kept across restarts. Open one to explore it, or pick one as the
+            baseline to compare the open run against.
+        </p>
+
+        {error ? <p className="status-error">{error}</p> : null}
+        {entries.length === 0 ? (
+            <p className="summary-placeholder">No stored runs yet. They appear here after the service analyzes a build.</p>
+        ) : (
+            <div className="symbol-table">
+                <table>
+                    <thead>
+                        <tr>
+                            <th scope="col">Generated</th>
+                            <th scope="col">Target</th>
+                            <th scope="col">ELF</th>
+                            <th scope="col">Build ID</th>
+                            <th scope="col">Runtime</th>
+                            <th scope="col">Load image</th>
+                            <th scope="col" aria-label="Actions" />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {entries.map((entry) => (
+                            <tr key={entry.id}>
+                                <td>{new Date(entry.generatedAt).toLocaleString()}</td>
+                                <td>{entry.targetName}</td>
+                                <td title={entry.config.elfPath}>{fileName(entry.config.elfPath)}</td>
+                                <td title={entry.buildId}>
+                                    <code>{entry.buildId ? entry.buildId.slice(0, 12) : '—'}</code>
+                                </td>
+                                <td className="symbol-table-size">
+                                    <SizeValue value={entry.runtimeBytes} />
+                                </td>
+                                <td className="symbol-table-size">
+                                    <SizeValue value={entry.loadImageBytes} />
+                                </td>
+                                <td className="history-actions">
+                                    <button
+                                        type="button"
+                                        disabled={entry.generatedAt === currentGeneratedAt}
+                                        onClick={() => onOpen(entry)}
+                                    >
+                                        {entry.generatedAt === currentGeneratedAt ? 'Opened' : 'Open'}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        disabled={entry.generatedAt === baselineGeneratedAt}
+                                        onClick={() => onCompare(entry)}
+                                    >
+                                        Baseline
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        )}
+    </section>
+);
+
+export default AnalysisHistoryCard;
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+
+interface BuildUploadZoneProps {
+    /** Prefilled target ID; the server falls back to its own when the field is left empty. */
+    defaultTargetId?: string;
+    disabled: boolean;
+    onUpload: (elf: File, map: File | undefined, targetId: string) => Promise<void>;
+}
+
+// A dropped `.map` file is the linker map; anything else is taken to be the ELF.
+const splitBuildFiles = (files: File[]): { elf?: File; map?: File } => ({
+    elf: files.find((file) => !file.name.toLowerCase().endsWith('.map')),
+    map: files.find((file) => file.name.toLowerCase().endsWith('.map')),
+});
+
+const BuildUploadZone = ({ defaultTargetId, disabled, onUpload }: BuildUploadZoneProps): JSX.Element => {
+    const [targetId, setTargetId] = useState(defaultTargetId ?? '');
+    const [isDragging, setIsDragging] = useState(false);
+    const [isUploading, setIsUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setTargetId(defaultTargetId ?? '');
+    }, [defaultTargetId]);
+
+    const upload = async (files: File[]): Promise<void> => {
+        const { elf, map } = splitBuildFiles(files);
+        if (!elf) {
+            setError('Drop the firmware ELF, optionally together with its .map file.');
+            return;
+        }
+
+        setIsUploading(true);
+        setError(null);
+        try {
+            await onUpload(elf, map, targetId.trim());
+        } catch (uploadError) {
+            setError(uploadError instanceof Error ? uploadError.message : 'Failed to analyze the uploaded build.');
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const isDisabled = disabled || isUploading;
+
+    const handleDrop = (event: React.DragEvent<HTMLDivElement>): void => {
+        event.preventDefault();
+        setIsDragging(false);
+        if (!isDisabled) {
+            void upload(Array.from(event.dataTransfer.files));
+        }
+    };
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>): void => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        if (files.length > 0) {
+            void upload(files);
+        }
+    };
+
+    const className = ['build-upload', isDragging ? 'build-upload--dragging' : '', isDisabled ? 'build-upload--disabled' : '']
+        .filter(Boolean)
+        .join(' ');
+
+    return (
+        <div
+            className={className}
+            onDragOver={(event) => {
+                event.preventDefault();
+                setIsDragging(!isDisabled);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+        >
+            <span>
+                {isUploading ? 'Analyzing uploaded build…' : 'Drop an ELF (and .map) here to analyze it on the server'}
+            </span>
+            <div className="build-upload-fields">
+                <label>
+                    <span>Target ID</span>
+                    <input
+                        type="text"
+                        value={targetId}
+                        disabled={isDisabled}
+                        onChange={(event) => setTargetId(event.target.value)}
+                    />
+                </label>
+                <input type="file" multiple disabled={isDisabled} onChange={handleFileChange} />
+            </div>
+            {error ? <p className="config-error">{error}</p> : null}
+        </div>
+    );
+};
+
+export default BuildUploadZone;
@@ -0,0 +1,214 @@
+import { Fragment, type ChangeEvent } from 'react';
+import type { AddressWindow, AnalysisComparison, SizeDelta, SymbolComparison } from '@analyzer';
+import { SizeValue } from './SizeValue';
+
+interface ComparisonCardProps {
+    comparison: AnalysisComparison | null;
+    windows: AddressWindow[];
+    baselineName: string | null;
+    error: string | null;
+    hasAnalysis: boolean;
+    lastRunCompletedAt: Date | null;
+    onBaselineFileChange: (event: ChangeEvent<HTMLInputElement>) => void;
+    onClearBaseline: () => void;
+}
+
+const MAX_SYMBOL_ROWS = 25;
+
+const DeltaValue = ({ value }: { value: number }): JSX.Element => {
+    const className = value > 0 ? 'delta-value delta-value--grew' : value < 0 ? 'delta-value delta-value--shrank' : 'delta-value';
+    return (
+        <span className={className}>
+            {value > 0 ? '+' : value < 0 ? '−' : ''}
+            <SizeValue value={Math.abs(value)} />
+        </span>
+    );
+};
+
+const renderDeltaTable = (title: string, header: string, deltas: SizeDelta[]): JSX.Element | null => {
+    const changed = deltas.filter((delta) => delta.deltaBytes !== 0);
+    if (changed.length === 0) {
+        return null;
+    }
+    return (
+        <div className="symbol-table">
+            <h3>{title}</h3>
+            <table>
+                <thead>
+                    <tr>
+                        <th scope="col">{header}</th>
+                        <th scope="col">Before</th>
+                        <th scope="col">After</th>
+                        <th scope="col">Change</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {changed.map((delta) => (
+                        <tr key={delta.id}>
+                            <td>{delta.label}</td>
+                            <td className="symbol-table-size">
+                                <SizeValue value={delta.beforeBytes} />
+                            </td>
+                            <td className="symbol-table-size">
+                                <SizeValue value={delta.afterBytes} />
+                            </td>
+                            <td className="symbol-table-size">
+                                <DeltaValue value={delta.deltaBytes} />
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const renderSymbolTable = (title: string, entries: SymbolComparison[]): JSX.Element | null => {
+    if (entries.length === 0) {
+        return null;
+    }
+    const shown = entries.slice(0, MAX_SYMBOL_ROWS);
+    return (
+        <div className="symbol-table">
+            <h3>
+                {title}
+                {shown.length < entries.length ? ` (largest ${shown.length} of ${entries.length})` : ` (${entries.length})`}
+            </h3>
+            <table>
+                <thead>
+                    <tr>
+                        <th scope="col">Symbol</th>
+                        <th scope="col">Before</th>
+                        <th scope="col">After</th>
+                        <th scope="col">Change</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {shown.map((entry) => (
+                        <tr key={`${entry.before?.symbolId ?? ''}:${entry.after?.symbolId ?? ''}`}>
+                            <td title={(entry.after ?? entry.before)?.nameMangled}>
+                                {entry.name}
+                                {entry.matchedBy === 'cloneBase' && entry.before ? (
+                                    <span className="comparison-note"> (was {entry.before.name})</span>
+                                ) : null}
+                            </td>
+                            <td className="symbol-table-size">
+                                <SizeValue value={entry.before?.size} />
+                            </td>
+                            <td className="symbol-table-size">
+                                <SizeValue value={entry.after?.size} />
+                            </td>
+                            <td className="symbol-table-size">
+                                <DeltaValue value={entry.deltaBytes} />
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const ComparisonCard = ({
+    comparison,
+    windows,
+    baselineName,
+    error,
+    hasAnalysis,
+    lastRunCompletedAt,
+    onBaselineFileChange,
+    onClearBaseline,
+}: ComparisonCardProps): JSX.Element => {
+    const renderBody = (): JSX.Element => {
+        if (error) {
+            return <p className="status-error">{error}</p>;
+        }
+        if (!hasAnalysis) {
+            return <p className="summary-placeholder">Load an analysis to compare it with a baseline build.</p>;
+        }
+        if (!comparison) {
+            return <p className="summary-placeholder">Choose a baseline analysis JSON to see what changed since that build.</p>;
+        }
+
+        const { totals, symbols } = comparison;
+        const windowNameById = new Map(windows.map((window) => [window.id, window.name] as const));
+        const windowName = (windowId: string | undefined): string =>
+            windowId ? windowNameById.get(windowId) ?? windowId : '—';
+        const movedWindow = symbols.movedWindow.map((entry) => ({
+            ...entry,
+            name: `${entry.name} (${windowName(entry.before?.windowId)} → ${windowName(entry.after?.windowId)})`,
+        }));
+
+        return (
+            <>
+                <dl className="memory-map-details-list">
+                    {[totals.runtime, totals.loadImage, totals.fileOnly].map((delta) => (
+                        <Fragment key={delta.id}>
+                            <dt>{delta.label}</dt>
+                            <dd>
+                                <SizeValue value={delta.afterBytes} /> (<DeltaValue value={delta.deltaBytes} />)
+                            </dd>
+                        </Fragment>
+                    ))}
+                    <dt>Symbols</dt>
+                    <dd>
+                        {symbols.added.length} added, {symbols.removed.length} removed, {symbols.grown.length} grown,{' '}
+                        {symbols.shrunk.length} shrunk, {symbols.movedWindow.length} moved, {symbols.unchangedCount} unchanged
+                    </dd>
+                </dl>
+
+                {renderDeltaTable('Hardware banks', 'Bank', comparison.hardwareBanks)}
+                {renderDeltaTable('Address windows', 'Window', comparison.windows)}
+                {renderDeltaTable('Report tags', 'Tag', comparison.tagBuckets)}
+                {renderDeltaTable(
+                    'Template groups',
+                    'Group',
+                    [...comparison.templateGroups].sort((a, b) => Math.abs(b.deltaBytes) - Math.abs(a.deltaBytes)),
+                )}
+                {renderSymbolTable('Added', symbols.added)}
+                {renderSymbolTable('Removed', symbols.removed)}
+                {renderSymbolTable('Grown', symbols.grown)}
+                {renderSymbolTable('Shrunk', symbols.shrunk)}
+                {renderSymbolTable('Moved window', movedWindow)}
+            </>
+        );
+    };
+
+    return (
+        <section className="summary-card">
+            <div className="summary-header">
+                <h2>Compare With Baseline</h2>
+                <div className="summary-meta">
+                    {lastRunCompletedAt ? (
+                        <span className="summary-updated">Based on {lastRunCompletedAt.toLocaleString()}</span>
+                    ) : (
+                        <span className="summary-updated">Awaiting first analysis</span>
+                    )}
+                </div>
+            </div>
+            <p className="summary-description">
+                Matches symbols against an earlier build by mangled name, falling back to the name without GCC clone suffixes
+                such as <code>.constprop.0</code>, to show what a change cost in each window, bank and template group.
+            </p>
+
+            <div className="comparison-baseline">
+                <label className="uploader">
+                    <span>Baseline analysis JSON:</span>
+                    <input type="file" accept="application/json" onChange={onBaselineFileChange} />
+                </label>
+                {baselineName ? (
+                    <>
+                        <span className="status-hint">Comparing with {baselineName}</span>
+                        <button type="button" className="secondary" onClick={onClearBaseline}>
+                            Clear
+                        </button>
+                    </>
+                ) : null}
+            </div>
+
+            {renderBody()}
+        </section>
+    );
+};
+
+export default ComparisonCard;
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import type { Analysis, BudgetCheckResult, Summaries, TeensySizeReportSummary } from '@analyzer';
+import { EXPORT_FORMATS, renderExport, type ExportFormat } from '@analyzer/analysis/reports/exporters';
+
+interface ExportMenuProps {
+    analysis: Analysis;
+    summaries: Summaries;
+    report?: TeensySizeReportSummary;
+    budgets: BudgetCheckResult | null;
+    generatedAt: string;
+}
+
+const downloadText = (fileName: string, mimeType: string, text: string): void => {
+    const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const ExportMenu = ({ analysis, summaries, report, budgets, generatedAt }: ExportMenuProps): JSX.Element => {
+    const [error, setError] = useState<string | null>(null);
+    const baseName = (analysis.build.elfPath.split(/[\\/]/).pop() ?? 'analysis').replace(/\.elf$/i, '');
+
+    const handleAnalysisJson = () => {
+        const payload = { analysis, summaries, report, generatedAt };
+        downloadText(`${baseName}-analysis.json`, 'application/json', `${JSON.stringify(payload, null, 2)}\n`);
+    };
+
+    const handleExport = (format: ExportFormat) => {
+        const info = EXPORT_FORMATS.find((entry) => entry.id === format);
+        if (!info) {
+            return;
+        }
+        try {
+            const text = renderExport(format, {
+                analysis,
+                summaries,
+                report: report ?? {},
+                budgets: budgets ?? undefined,
+            });
+            downloadText(`${baseName}${info.fileSuffix}`, info.mimeType, text);
+            setError(null);
+        } catch (exportError) {
+            setError(exportError instanceof Error ? exportError.message : String(exportError));
+        }
+    };
+
+    return (
+        <details className="export-menu">
+            <summary>Export</summary>
+            <ul>
+                <li>
+                    <button type="button" onClick={handleAnalysisJson}>
+                        Analysis JSON
+                    </button>
+                </li>
+                {EXPORT_FORMATS.map((format) => (
+                    <li key={format.id}>
+                        <button type="button" onClick={() => handleExport(format.id)}>
+                            {format.label}
+                        </button>
+                    </li>
+                ))}
+            </ul>
+            {error ? <p className="status-error">{error}</p> : null}
+        </details>
+    );
+};
+
+export default ExportMenu;
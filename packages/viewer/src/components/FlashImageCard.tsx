@@ -0,0 +1,171 @@
+import type { Analysis, FlashImageRange, Summaries } from '@analyzer';
+import AddressValue from './AddressValue';
+import { SizeValue } from './SizeValue';
+
+interface FlashImageCardProps {
+    analysis: Analysis | null;
+    summaries: Summaries | null;
+    lastRunCompletedAt: Date | null;
+}
+
+const formatByte = (value: number): string => `0x${value.toString(16).padStart(2, '0').toUpperCase()}`;
+
+const FlashImageCard = ({ analysis, summaries, lastRunCompletedAt }: FlashImageCardProps): JSX.Element => {
+    const flashImage = analysis?.flashImage;
+    const summary = summaries?.flashImage;
+    const sectionNameById = new Map((analysis?.sections ?? []).map((section) => [section.id, section.name] as const));
+
+    const renderRangeTable = (
+        title: string,
+        ranges: Array<FlashImageRange & { detail?: string }>,
+    ): JSX.Element | null => {
+        if (ranges.length === 0) {
+            return null;
+        }
+        return (
+            <div className="symbol-table">
+                <h3>{title}</h3>
+                <table>
+                    <thead>
+                        <tr>
+                            <th scope="col">Start</th>
+                            <th scope="col">End</th>
+                            <th scope="col">Size</th>
+                            <th scope="col">Detail</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {ranges.map((range) => (
+                            <tr key={`${range.start}:${range.size}:${range.detail ?? ''}`}>
+                                <td>
+                                    <AddressValue value={range.start} />
+                                </td>
+                                <td>
+                                    <AddressValue value={range.start + range.size} />
+                                </td>
+                                <td className="symbol-table-size">
+                                    <SizeValue value={range.size} />
+                                </td>
+                                <td>{range.detail ?? '—'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        );
+    };
+
+    const renderBody = (): JSX.Element => {
+        if (!analysis) {
+            return <p className="summary-placeholder">Load an analysis to compare the flash image with the ELF.</p>;
+        }
+        if (!flashImage || !summary) {
+            return (
+                <p className="summary-placeholder">
+                    This analysis was run without an Intel HEX file; provide one to check it against the ELF load image.
+                </p>
+            );
+        }
+
+        const problems: string[] = [];
+        if (summary.missingBytes > 0) {
+            problems.push(`${summary.missingBytes.toLocaleString()} bytes the ELF places in flash are absent from the HEX`);
+        }
+        if (summary.differingBytes > 0) {
+            problems.push(`${summary.differingBytes.toLocaleString()} bytes differ`);
+        }
+        if (summary.startAddressMatches === false) {
+            problems.push('the HEX start address does not match the ELF entry point');
+        }
+
+        return (
+            <>
+                <p className={`flash-image-status ${summary.matchesElf ? 'flash-image-status--ok' : 'flash-image-status--mismatch'}`}>
+                    {summary.matchesElf
+                        ? 'The HEX image matches the ELF load image.'
+                        : `The HEX image does not match the ELF: ${problems.join('; ')}. The ELF or the HEX may be stale.`}
+                </p>
+
+                <dl className="memory-map-details-list">
+                    <dt>Programmed bytes</dt>
+                    <dd>
+                        <SizeValue value={summary.programmedBytes} />
+                    </dd>
+                    <dt>Expected from ELF</dt>
+                    <dd>
+                        <SizeValue value={summary.expectedBytes} />
+                    </dd>
+                    <dt>Image span</dt>
+                    <dd>
+                        <AddressValue value={summary.firstAddress} /> – <AddressValue value={summary.endAddress} /> (
+                        <SizeValue value={summary.spanBytes} />)
+                    </dd>
+                    <dt>Gaps</dt>
+                    <dd>
+                        <SizeValue value={summary.gapBytes} /> in {flashImage.gaps.length.toLocaleString()} hole
+                        {flashImage.gaps.length === 1 ? '' : 's'}
+                    </dd>
+                    <dt>Fill / padding</dt>
+                    <dd>
+                        <SizeValue value={summary.fillBytes} /> not covered by any ELF section
+                    </dd>
+                    {flashImage.startAddress !== undefined ? (
+                        <>
+                            <dt>Start address</dt>
+                            <dd>
+                                <AddressValue value={flashImage.startAddress} />
+                                {flashImage.elfEntryAddress !== undefined ? (
+                                    <>
+                                        {' '}
+                                        (ELF entry <AddressValue value={flashImage.elfEntryAddress} />)
+                                    </>
+                                ) : null}
+                            </dd>
+                        </>
+                    ) : null}
+                </dl>
+
+                {renderRangeTable(
+                    'Mismatches',
+                    flashImage.mismatches.map((mismatch) => ({
+                        ...mismatch,
+                        detail: `${mismatch.kind === 'missing' ? 'Missing' : 'Different'} in ${
+                            sectionNameById.get(mismatch.sectionId) ?? mismatch.sectionId
+                        }`,
+                    })),
+                )}
+                {renderRangeTable('Gaps', flashImage.gaps)}
+                {renderRangeTable(
+                    'Fill',
+                    flashImage.fill.map((range) => ({
+                        ...range,
+                        detail: range.fillByte !== undefined ? `Filled with ${formatByte(range.fillByte)}` : 'Mixed bytes',
+                    })),
+                )}
+            </>
+        );
+    };
+
+    return (
+        <section className="summary-card">
+            <div className="summary-header">
+                <h2>Flash Image</h2>
+                <div className="summary-meta">
+                    {lastRunCompletedAt ? (
+                        <span className="summary-updated">Based on {lastRunCompletedAt.toLocaleString()}</span>
+                    ) : (
+                        <span className="summary-updated">Awaiting first analysis</span>
+                    )}
+                </div>
+            </div>
+            <p className="summary-description">
+                Rebuilds the image an Intel HEX file programs and compares it byte for byte with the ELF sections placed in
+                flash, so a stale ELF or HEX is caught before uploading.
+            </p>
+
+            {renderBody()}
+        </section>
+    );
+};
+
+export default FlashImageCard;
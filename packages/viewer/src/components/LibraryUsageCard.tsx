@@ -0,0 +1,187 @@
+import { Fragment, useMemo, useState } from 'react';
+import type { Analysis, ContributorBankUsage, ContributorBlockUsage, Summaries } from '@analyzer';
+import { SizeValue } from './SizeValue';
+
+interface LibraryUsageCardProps {
+    analysis: Analysis | null;
+    summaries: Summaries | null;
+    lastRunCompletedAt: Date | null;
+}
+
+type Grouping = 'archive' | 'object';
+
+interface ContributorRow {
+    id: string;
+    name: string;
+    detail?: string;
+    sizeBytes: number;
+    byHardwareBank: ContributorBankUsage[];
+    byBlock: ContributorBlockUsage[];
+}
+
+const ROW_LIMIT_OPTIONS = [10, 25, 50, 100] as const;
+
+const LibraryUsageCard = ({ analysis, summaries, lastRunCompletedAt }: LibraryUsageCardProps): JSX.Element => {
+    const [grouping, setGrouping] = useState<Grouping>('archive');
+    const [filterText, setFilterText] = useState('');
+    const [rowLimit, setRowLimit] = useState<number>(ROW_LIMIT_OPTIONS[1]);
+
+    const hardwareBanks = analysis?.config.hardwareBanks ?? [];
+    const blockNameById = useMemo(
+        () => new Map((analysis?.config.logicalBlocks ?? []).map((block) => [block.id, block.name] as const)),
+        [analysis],
+    );
+
+    const rows = useMemo((): ContributorRow[] => {
+        if (grouping === 'archive') {
+            return (summaries?.byArchive ?? []).map((entry) => ({
+                id: entry.archivePath ?? '',
+                name: entry.displayName,
+                detail: `${entry.objectFileIds.length.toLocaleString()} object file${entry.objectFileIds.length === 1 ? '' : 's'}`,
+                sizeBytes: entry.sizeBytes,
+                byHardwareBank: entry.byHardwareBank,
+                byBlock: entry.byBlock,
+            }));
+        }
+        return (summaries?.byObjectFile ?? []).map((entry) => ({
+            id: entry.objectFileId,
+            name: entry.displayName,
+            sizeBytes: entry.sizeBytes,
+            byHardwareBank: entry.byHardwareBank,
+            byBlock: entry.byBlock,
+        }));
+    }, [grouping, summaries]);
+
+    const normalizedFilter = filterText.trim().toLowerCase();
+    const filteredRows = useMemo(
+        () => (normalizedFilter ? rows.filter((row) => row.name.toLowerCase().includes(normalizedFilter)) : rows),
+        [rows, normalizedFilter],
+    );
+    const visibleRows = filteredRows.slice(0, Math.max(rowLimit, 0));
+
+    const renderBody = (): JSX.Element => {
+        if (!analysis) {
+            return <p className="summary-placeholder">Load an analysis to see library and object file usage.</p>;
+        }
+        if (!analysis.linkerMap) {
+            return (
+                <p className="summary-placeholder">
+                    This analysis was run without a linker map; provide one to attribute sizes to libraries and object files.
+                </p>
+            );
+        }
+        if (filteredRows.length === 0) {
+            return <p className="summary-placeholder">No matching {grouping === 'archive' ? 'archives' : 'object files'}.</p>;
+        }
+
+        return (
+            <div className="symbol-table">
+                <table>
+                    <thead>
+                        <tr>
+                            <th scope="col">{grouping === 'archive' ? 'Archive' : 'Object file'}</th>
+                            <th scope="col">Size</th>
+                            {hardwareBanks.map((bank) => (
+                                <th scope="col" key={bank.id}>
+                                    {bank.name}
+                                </th>
+                            ))}
+                            <th scope="col">Logical blocks</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {visibleRows.map((row) => {
+                            const bankBytes = new Map(row.byHardwareBank.map((entry) => [entry.hardwareBankId, entry.bytes] as const));
+                            return (
+                                <tr key={row.id}>
+                                    <th scope="row" className="symbol-table-name">
+                                        {row.name}
+                                        {row.detail ? <span className="symbol-table-size-total"> ({row.detail})</span> : null}
+                                    </th>
+                                    <td className="symbol-table-size">
+                                        <SizeValue value={row.sizeBytes} />
+                                    </td>
+                                    {hardwareBanks.map((bank) => (
+                                        <td className="symbol-table-size" key={bank.id}>
+                                            {bankBytes.has(bank.id) ? <SizeValue value={bankBytes.get(bank.id)} /> : '—'}
+                                        </td>
+                                    ))}
+                                    <td className="symbol-table-size">
+                                        {row.byBlock.map((entry, index) => (
+                                            <Fragment key={entry.blockId}>
+                                                {index > 0 ? ', ' : null}
+                                                {blockNameById.get(entry.blockId) ?? entry.blockId}: <SizeValue value={entry.bytes} />
+                                            </Fragment>
+                                        ))}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        );
+    };
+
+    return (
+        <section className="summary-card">
+            <div className="summary-header">
+                <h2>Libraries &amp; Object Files</h2>
+                <div className="summary-meta">
+                    {lastRunCompletedAt ? (
+                        <span className="summary-updated">Based on {lastRunCompletedAt.toLocaleString()}</span>
+                    ) : (
+                        <span className="summary-updated">Awaiting first analysis</span>
+                    )}
+                </div>
+            </div>
+            <p className="summary-description">
+                Bytes each archive or object file contributes to every hardware bank, taken from the linker map&apos;s input
+                sections. Code copied from FLASH into RAM counts against both banks.
+            </p>
+
+            <div className="memory-map-toggle">
+                <button
+                    type="button"
+                    className={grouping === 'archive' ? 'active' : undefined}
+                    onClick={() => setGrouping('archive')}
+                >
+                    By archive
+                </button>
+                <button
+                    type="button"
+                    className={grouping === 'object' ? 'active' : undefined}
+                    onClick={() => setGrouping('object')}
+                >
+                    By object file
+                </button>
+            </div>
+
+            <div className="template-group-controls">
+                <label>
+                    <span>Filter</span>
+                    <input
+                        type="text"
+                        value={filterText}
+                        onChange={(event) => setFilterText(event.target.value)}
+                        placeholder="Search archives or object files"
+                    />
+                </label>
+                <label>
+                    <span>Show</span>
+                    <select value={rowLimit} onChange={(event) => setRowLimit(Number.parseInt(event.target.value, 10))}>
+                        {ROW_LIMIT_OPTIONS.map((option) => (
+                            <option key={option} value={option}>
+                                {option}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {renderBody()}
+        </section>
+    );
+};
+
+export default LibraryUsageCard;
@@ -0,0 +1,21 @@
+import type { Analysis } from '@analyzer';
+import type { TreemapSymbolFilters } from '../treemap';
+import TreemapCardBase from './treemap/TreemapCardBase';
+import { objectFileTreemapConfig } from './treemap/objectFileTreemapConfig';
+
+interface ObjectFileTreemapCardProps {
+    analysis: Analysis | null;
+    lastRunCompletedAt: Date | null;
+    filters?: TreemapSymbolFilters;
+}
+
+const ObjectFileTreemapCard = ({ analysis, lastRunCompletedAt, filters }: ObjectFileTreemapCardProps): JSX.Element => (
+    <TreemapCardBase
+        analysis={analysis}
+        lastRunCompletedAt={lastRunCompletedAt}
+        filters={filters}
+        config={objectFileTreemapConfig}
+    />
+);
+
+export default ObjectFileTreemapCard;
@@ -0,0 +1,104 @@
+import type { BuildProfileSummary, ProfileBankUsage } from '../shared/protocol';
+import { SizeValue } from './SizeValue';
+import { computeUsagePercent } from '../utils/usage';
+
+interface ProfileBankComparisonCardProps {
+    profiles: BuildProfileSummary[];
+    selectedProfileId: string | null;
+}
+
+interface BankRow {
+    hardwareBankId: string;
+    name: string;
+}
+
+// Banks in the order they first appear, so profiles sharing a target line up row by row.
+const collectBankRows = (profiles: BuildProfileSummary[]): BankRow[] => {
+    const rows = new Map<string, BankRow>();
+    profiles.forEach((profile) => {
+        profile.banks.forEach((bank) => {
+            if (!rows.has(bank.hardwareBankId)) {
+                rows.set(bank.hardwareBankId, { hardwareBankId: bank.hardwareBankId, name: bank.name });
+            }
+        });
+    });
+    return [...rows.values()];
+};
+
+const renderUsage = (bank: ProfileBankUsage | undefined): JSX.Element => {
+    if (!bank) {
+        return <span className="summary-placeholder">—</span>;
+    }
+    const percent = computeUsagePercent(bank.usedBytes, bank.capacityBytes);
+    return (
+        <span title={`${bank.freeBytes} bytes free`}>
+            <SizeValue value={bank.usedBytes} /> / <SizeValue value={bank.capacityBytes} />
+            {percent !== null ? ` (${percent.toFixed(1)}%)` : ''}
+        </span>
+    );
+};
+
+const ProfileBankComparisonCard = ({
+    profiles,
+    selectedProfileId,
+}: ProfileBankComparisonCardProps): JSX.Element | null => {
+    if (profiles.length < 2) {
+        return null;
+    }
+
+    const rows = collectBankRows(profiles);
+
+    return (
+        <section className="summary-card">
+            <div className="summary-header">
+                <h2>Bank Usage by Profile</h2>
+            </div>
+            <p className="summary-description">
+                Hardware bank usage of the latest analysis of each build profile, rounding applied.
+            </p>
+
+            {rows.length === 0 ? (
+                <p className="summary-placeholder">No profile has been analyzed yet.</p>
+            ) : (
+                <div className="symbol-table">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th scope="col">Bank</th>
+                                {profiles.map((profile) => (
+                                    <th
+                                        scope="col"
+                                        key={profile.id}
+                                        className={profile.id === selectedProfileId ? 'profile-column--selected' : undefined}
+                                        title={profile.targetName}
+                                    >
+                                        {profile.id}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((row) => (
+                                <tr key={row.hardwareBankId}>
+                                    <th scope="row">{row.name}</th>
+                                    {profiles.map((profile) => (
+                                        <td
+                                            key={profile.id}
+                                            className={profile.id === selectedProfileId ? 'profile-column--selected' : undefined}
+                                        >
+                                            {renderUsage(
+                                                profile.banks.find((bank) => bank.hardwareBankId === row.hardwareBankId),
+                                            )}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </section>
+    );
+};
+
+export default ProfileBankComparisonCard;
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import type { BuildProfileSummary } from '../shared/protocol';
+
+interface ProfileSwitcherProps {
+    profiles: BuildProfileSummary[];
+    selectedProfileId: string | null;
+    error: string | null;
+    disabled: boolean;
+    onSelect: (profileId: string) => void;
+    /** Resolves once the profile exists, so the form can clear itself. */
+    onAdd: (profileId: string) => Promise<boolean>;
+    onRemove: (profileId: string) => void;
+}
+
+const ProfileSwitcher = ({
+    profiles,
+    selectedProfileId,
+    error,
+    disabled,
+    onSelect,
+    onAdd,
+    onRemove,
+}: ProfileSwitcherProps): JSX.Element => {
+    const [newProfileId, setNewProfileId] = useState('');
+
+    const handleAdd = async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+        event.preventDefault();
+        if (await onAdd(newProfileId.trim())) {
+            setNewProfileId('');
+        }
+    };
+
+    return (
+        <div className="profile-switcher">
+            <label>
+                <span>Build profile</span>
+                <select
+                    value={selectedProfileId ?? ''}
+                    disabled={disabled || profiles.length === 0}
+                    onChange={(event) => onSelect(event.target.value)}
+                >
+                    {profiles.map((profile) => (
+                        <option key={profile.id} value={profile.id}>
+                            {profile.targetName ? `${profile.id} (${profile.targetName})` : profile.id}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            <button
+                type="button"
+                disabled={disabled || !selectedProfileId || profiles.length < 2}
+                onClick={() => selectedProfileId && onRemove(selectedProfileId)}
+            >
+                Remove
+            </button>
+            <form className="profile-switcher-add" onSubmit={handleAdd}>
+                <input
+                    type="text"
+                    placeholder="new-profile"
+                    value={newProfileId}
+                    disabled={disabled}
+                    onChange={(event) => setNewProfileId(event.target.value)}
+                />
+                <button type="submit" disabled={disabled || newProfileId.trim().length === 0}>
+                    Add profile
+                </button>
+            </form>
+            {error ? <p className="config-error">{error}</p> : null}
+        </div>
+    );
+};
+
+export default ProfileSwitcher;
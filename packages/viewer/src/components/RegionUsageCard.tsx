@@ -1,3 +1,4 @@
+import type { BudgetCheckEntry, BudgetCheckResult } from '@analyzer';
 import { SizeValue } from './SizeValue';
 import AddressValue from './AddressValue';
 import type { UsageBarData } from '../types/usage';
@@ -6,9 +7,28 @@ import { computeUsagePercent } from '../utils/usage';
 interface RegionUsageCardProps {
     regionUsage: UsageBarData[];
     lastRunCompletedAt: Date | null;
+    budgets?: BudgetCheckResult | null;
+    budgetError?: string | null;
 }
 
-const RegionUsageCard = ({ regionUsage, lastRunCompletedAt }: RegionUsageCardProps): JSX.Element => {
+const RegionUsageCard = ({ regionUsage, lastRunCompletedAt, budgets, budgetError }: RegionUsageCardProps): JSX.Element => {
+    const budgetAlerts = (budgets?.entries ?? []).filter((entry) => entry.status !== 'ok');
+    const alertedWindowIds = new Set(budgetAlerts.flatMap((entry) => entry.windowIds ?? []));
+
+    const renderBudgetBanner = (entry: BudgetCheckEntry): JSX.Element => (
+        <p className={`budget-banner budget-banner--${entry.status}`} key={`${entry.budgetId}:${entry.label}`}>
+            <strong>{entry.status === 'exceeded' ? 'Over budget' : 'Near budget'}:</strong> {entry.label} uses{' '}
+            <SizeValue value={entry.usedBytes} /> of <SizeValue value={entry.maxBytes} /> (
+            {entry.maxBytes > 0 ? `${((entry.usedBytes / entry.maxBytes) * 100).toFixed(1)}%` : '—'})
+            {entry.status === 'warning' && entry.warnBytes !== undefined ? (
+                <>
+                    , warning from <SizeValue value={entry.warnBytes} />
+                </>
+            ) : null}
+            .
+        </p>
+    );
+
     const renderUsageBar = (summary: UsageBarData): JSX.Element => {
         const percent = summary.percent ?? computeUsagePercent(summary.used, summary.total);
         const hasPercent = percent !== null;
@@ -47,7 +67,7 @@ const RegionUsageCard = ({ regionUsage, lastRunCompletedAt }: RegionUsageCardPro
         };
 
         return (
-            <div className="usage-item" key={summary.id}>
+            <div className={`usage-item${alertedWindowIds.has(summary.id) ? ' usage-item--over-budget' : ''}`} key={summary.id}>
                 <div className="usage-header">
                     <span className="usage-label">{summary.label}</span>
                     <span className="usage-values">
@@ -88,6 +108,8 @@ const RegionUsageCard = ({ regionUsage, lastRunCompletedAt }: RegionUsageCardPro
                     )}
                 </div>
             </div>
+            {budgetError ? <p className="budget-banner budget-banner--exceeded">Budgets could not be checked: {budgetError}</p> : null}
+            {budgetAlerts.map(renderBudgetBanner)}
             {regionUsage.length > 0 ? (
                 <div className="usage-grid region-list">
                     {regionUsage.map((usage) => renderUsageBar(usage))}
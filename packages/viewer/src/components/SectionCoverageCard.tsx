@@ -0,0 +1,87 @@
+import type { Analysis, Summaries } from '@analyzer';
+import { SizeValue } from './SizeValue';
+
+interface SectionCoverageCardProps {
+    analysis: Analysis | null;
+    summaries: Summaries | null;
+    lastRunCompletedAt: Date | null;
+}
+
+const SectionCoverageCard = ({ analysis, summaries, lastRunCompletedAt }: SectionCoverageCardProps): JSX.Element => {
+    const sectionNameById = new Map((analysis?.sections ?? []).map((section) => [section.id, section.name] as const));
+    const entries = [...(summaries?.bySection ?? [])].sort(
+        (a, b) => b.unattributedBytes - a.unattributedBytes || b.sizeBytes - a.sizeBytes,
+    );
+
+    const renderBody = (): JSX.Element => {
+        if (!analysis) {
+            return <p className="summary-placeholder">Run an analysis to see how much of each section symbols cover.</p>;
+        }
+        if (entries.length === 0) {
+            return <p className="summary-placeholder">The ELF has no allocated sections with contents.</p>;
+        }
+
+        return (
+            <div className="symbol-table">
+                <table>
+                    <thead>
+                        <tr>
+                            <th scope="col">Section</th>
+                            <th scope="col">Size</th>
+                            <th scope="col">Symbols</th>
+                            <th scope="col">Covered</th>
+                            <th scope="col">Inferred</th>
+                            <th scope="col">Unattributed</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {entries.map((entry) => (
+                            <tr key={entry.sectionId}>
+                                <th scope="row" className="symbol-table-name">
+                                    {sectionNameById.get(entry.sectionId) ?? entry.sectionId}
+                                </th>
+                                <td className="symbol-table-size">
+                                    <SizeValue value={entry.sizeBytes} />
+                                </td>
+                                <td>{entry.symbolCount.toLocaleString()}</td>
+                                <td className="symbol-table-size">
+                                    <SizeValue value={entry.attributedBytes} />
+                                </td>
+                                <td className="symbol-table-size">
+                                    {entry.inferredBytes > 0 ? <SizeValue value={entry.inferredBytes} /> : '—'}
+                                </td>
+                                <td className="symbol-table-size">
+                                    <SizeValue value={entry.unattributedBytes} /> (
+                                    {((entry.unattributedBytes / entry.sizeBytes) * 100).toFixed(1)}%)
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        );
+    };
+
+    return (
+        <section className="summary-card">
+            <div className="summary-header">
+                <h2>Section Coverage</h2>
+                <div className="summary-meta">
+                    {lastRunCompletedAt ? (
+                        <span className="summary-updated">Based on {lastRunCompletedAt.toLocaleString()}</span>
+                    ) : (
+                        <span className="summary-updated">Awaiting first analysis</span>
+                    )}
+                </div>
+            </div>
+            <p className="summary-description">
+                How much of each section the symbol table accounts for. Unsized assembly symbols are sized up to the next
+                symbol (shown as inferred); whatever remains is alignment padding, literal pools or data no symbol names.
+            </p>
+
+            {renderBody()}
+        </section>
+    );
+};
+
+export default SectionCoverageCard;
@@ -0,0 +1,107 @@
+import type { Analysis, Segment, Summaries } from '@analyzer';
+import AddressValue from './AddressValue';
+import { SizeValue } from './SizeValue';
+
+interface SegmentsCardProps {
+    analysis: Analysis | null;
+    summaries: Summaries | null;
+    lastRunCompletedAt: Date | null;
+}
+
+const formatFlags = (segment: Segment): string =>
+    `${segment.flags.read ? 'R' : '-'}${segment.flags.write ? 'W' : '-'}${segment.flags.exec ? 'X' : '-'}`;
+
+const SegmentsCard = ({ analysis, summaries, lastRunCompletedAt }: SegmentsCardProps): JSX.Element => {
+    const segments = analysis?.segments ?? [];
+    const sectionNameById = new Map((analysis?.sections ?? []).map((section) => [section.id, section.name] as const));
+    const zeroFillBySegmentId = new Map((summaries?.zeroFill ?? []).map((entry) => [entry.segmentId, entry] as const));
+
+    const describeSections = (sectionIds: string[]): string =>
+        sectionIds.length > 0 ? sectionIds.map((id) => sectionNameById.get(id) ?? id).join(', ') : '—';
+
+    const renderBody = (): JSX.Element => {
+        if (!analysis) {
+            return <p className="summary-placeholder">Run an analysis to see the ELF load segments.</p>;
+        }
+        if (segments.length === 0) {
+            return <p className="summary-placeholder">The ELF has no PT_LOAD segments.</p>;
+        }
+
+        return (
+            <div className="symbol-table">
+                <table>
+                    <thead>
+                        <tr>
+                            <th scope="col">Segment</th>
+                            <th scope="col">Flags</th>
+                            <th scope="col">Runs at</th>
+                            <th scope="col">Loads at</th>
+                            <th scope="col">File size</th>
+                            <th scope="col">Memory size</th>
+                            <th scope="col">Zero fill</th>
+                            <th scope="col">Sections</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {segments.map((segment) => {
+                            const zeroFill = zeroFillBySegmentId.get(segment.id);
+                            return (
+                                <tr key={segment.id}>
+                                    <th scope="row" className="symbol-table-name">
+                                        {segment.index}
+                                    </th>
+                                    <td>{formatFlags(segment)}</td>
+                                    <td>
+                                        <AddressValue value={segment.vaddr} />
+                                    </td>
+                                    <td>
+                                        <AddressValue value={segment.paddr} />
+                                    </td>
+                                    <td className="symbol-table-size">
+                                        <SizeValue value={segment.filesz} />
+                                    </td>
+                                    <td className="symbol-table-size">
+                                        <SizeValue value={segment.memsz} />
+                                    </td>
+                                    <td className="symbol-table-size">
+                                        {zeroFill ? (
+                                            <>
+                                                <SizeValue value={zeroFill.bytes} /> ({describeSections(zeroFill.sectionIds)})
+                                            </>
+                                        ) : (
+                                            '—'
+                                        )}
+                                    </td>
+                                    <td>{describeSections(segment.sectionIds)}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        );
+    };
+
+    return (
+        <section className="summary-card">
+            <div className="summary-header">
+                <h2>Load Segments</h2>
+                <div className="summary-meta">
+                    {lastRunCompletedAt ? (
+                        <span className="summary-updated">Based on {lastRunCompletedAt.toLocaleString()}</span>
+                    ) : (
+                        <span className="summary-updated">Awaiting first analysis</span>
+                    )}
+                </div>
+            </div>
+            <p className="summary-description">
+                PT_LOAD program headers from the ELF. Sections are translated from where they run to where they load
+                through these segments; memory beyond a segment&apos;s file size is zero-filled at startup.
+            </p>
+
+            {renderBody()}
+        </section>
+    );
+};
+
+export default SegmentsCard;
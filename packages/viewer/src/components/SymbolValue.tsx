@@ -4,9 +4,12 @@ import type {
     Symbol as AnalyzerSymbol,
     TemplateGroupSymbolSummary,
 } from '@analyzer';
+import { describeLinkReason } from '@analyzer/analysis/link-reasons';
+import { SYMBOL_CATEGORY_LABELS } from '@analyzer/analysis/symbol-classification';
 import { useAddressFormat } from './AddressValue';
 import { useSizeFormat } from './SizeValue';
 import Tooltip from './Tooltip';
+import { useLinkReasons } from '../context/LinkReasonContext';
 
 type TooltipRow = {
     key: string;
@@ -85,6 +88,7 @@ interface SymbolValueProps {
 const SymbolValue = ({ symbolId, symbol, summary, className }: SymbolValueProps): JSX.Element => {
     const { formatValue: formatAddress } = useAddressFormat();
     const { formatValue: formatSize } = useSizeFormat();
+    const { explainSymbol, findCompileUnit } = useLinkReasons();
 
     const displayName = symbol?.name ?? summary?.name ?? symbolId;
 
@@ -109,6 +113,11 @@ const SymbolValue = ({ symbolId, symbol, summary, className }: SymbolValueProps)
             entries.push({ key: 'kind', label: 'Kind', value: symbol.kind });
         }
 
+        const category = symbol?.category ?? summary?.category;
+        if (category) {
+            entries.push({ key: 'category', label: 'Category', value: SYMBOL_CATEGORY_LABELS[category] });
+        }
+
         const attributes = formatAttributes(symbol);
         if (attributes) {
             entries.push({ key: 'attributes', label: 'Attributes', value: attributes });
@@ -116,7 +125,12 @@ const SymbolValue = ({ symbolId, symbol, summary, className }: SymbolValueProps)
 
         const sizeValue = symbol?.size ?? summary?.sizeBytes;
         if (typeof sizeValue === 'number' && Number.isFinite(sizeValue)) {
-            entries.push({ key: 'size', label: 'Size', value: formatSize(sizeValue, 'bytes') });
+            const formattedSize = formatSize(sizeValue, 'bytes');
+            entries.push({
+                key: 'size',
+                label: 'Size',
+                value: symbol?.isSizeInferred ? `${formattedSize} (inferred)` : formattedSize,
+            });
         }
 
         const primaryLocation = symbol?.primaryLocation ?? summary?.primaryLocation;
@@ -145,6 +159,26 @@ const SymbolValue = ({ symbolId, symbol, summary, className }: SymbolValueProps)
             entries.push({ key: 'source', label: 'Source', value: sourceLocation });
         }
 
+        const compileUnit = symbol?.compileUnitId ? findCompileUnit(symbol.compileUnitId) : undefined;
+        if (compileUnit) {
+            entries.push({ key: 'compile-unit', label: 'Compile unit', value: compileUnit.name });
+        }
+
+        const inlinedCount = symbol?.inlinedInto?.length ?? 0;
+        if (inlinedCount > 0) {
+            entries.push({
+                key: 'inlined-into',
+                label: 'Inlined into',
+                value: `${inlinedCount} function${inlinedCount === 1 ? '' : 's'}`,
+            });
+        }
+
+        const linkReason = symbol ? explainSymbol(symbol) : null;
+        if (linkReason) {
+            entries.push({ key: 'object-file', label: 'Object file', value: linkReason.objectFileName });
+            entries.push({ key: 'link-reason', label: 'Linked because', value: describeLinkReason(linkReason) });
+        }
+
         const logicalPath = formatLogicalPath(symbol);
         if (logicalPath) {
             entries.push({ key: 'logical-path', label: 'Logical path', value: logicalPath });
@@ -165,7 +199,7 @@ const SymbolValue = ({ symbolId, symbol, summary, className }: SymbolValueProps)
         }
 
         return entries;
-    }, [displayName, formatAddress, formatSize, symbol, symbolId, summary]);
+    }, [displayName, explainSymbol, findCompileUnit, formatAddress, formatSize, symbol, symbolId, summary]);
 
     const tooltipContent = (
         <div className="address-tooltip">
@@ -1,5 +1,6 @@
 import { useMemo, useState } from 'react';
-import type { Symbol as AnalyzerSymbol, TemplateGroupSummary } from '@analyzer';
+import type { Symbol as AnalyzerSymbol, SymbolCategory, TemplateGroupSummary } from '@analyzer';
+import { SYMBOL_CATEGORY_LABELS } from '@analyzer/analysis/symbol-classification';
 import { SizeValue } from './SizeValue';
 import SymbolValue from './SymbolValue';
 
@@ -51,11 +52,18 @@ const matchesFilter = (group: TemplateGroupSummary, needle: string): boolean =>
     return fields.some((field) => field.toLowerCase().includes(needle));
 };
 
+const ALL_CATEGORIES = 'all';
+
+// A group belongs to a category when any of its symbols does, e.g. a class's vtable among its methods.
+const matchesCategory = (group: TemplateGroupSummary, category: SymbolCategory | typeof ALL_CATEGORIES): boolean =>
+    category === ALL_CATEGORIES || group.symbols.some((symbol) => symbol.category === category);
+
 const TemplateGroupsCard = ({ groups, symbols, lastRunCompletedAt }: TemplateGroupsCardProps): JSX.Element => {
     const [filterText, setFilterText] = useState('');
     const [showTemplates, setShowTemplates] = useState(true);
     const [showNonTemplates, setShowNonTemplates] = useState(true);
     const [includeSingleSpecialization, setIncludeSingleSpecialization] = useState(false);
+    const [categoryFilter, setCategoryFilter] = useState<SymbolCategory | typeof ALL_CATEGORIES>(ALL_CATEGORIES);
     const [groupLimit, setGroupLimit] = useState<number>(PAGE_SIZE_OPTIONS[1]);
     const [sortKey, setSortKey] = useState<SortKey>('size');
     const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
@@ -75,9 +83,22 @@ const TemplateGroupsCard = ({ groups, symbols, lastRunCompletedAt }: TemplateGro
             if (!includeSingleSpecialization && group.totals.specializationCount <= 1) {
                 return false;
             }
+            if (!matchesCategory(group, categoryFilter)) {
+                return false;
+            }
             return matchesFilter(group, normalizedFilter);
         }),
-        [groups, showTemplates, showNonTemplates, includeSingleSpecialization, normalizedFilter]);
+        [groups, showTemplates, showNonTemplates, includeSingleSpecialization, categoryFilter, normalizedFilter]);
+
+    const presentCategories = useMemo(() => {
+        const categories = new Set<SymbolCategory>();
+        symbols.forEach((symbol) => {
+            if (symbol.category) {
+                categories.add(symbol.category);
+            }
+        });
+        return Array.from(categories).sort((a, b) => SYMBOL_CATEGORY_LABELS[a].localeCompare(SYMBOL_CATEGORY_LABELS[b]));
+    }, [symbols]);
 
     const sortedGroups = useMemo(() => {
         const list = [...filteredGroups];
@@ -161,6 +182,20 @@ const TemplateGroupsCard = ({ groups, symbols, lastRunCompletedAt }: TemplateGro
                     />
                     <span>Include single-specialization groups</span>
                 </label>
+                <label>
+                    <span>Symbol category</span>
+                    <select
+                        value={categoryFilter}
+                        onChange={(event) => setCategoryFilter(event.target.value as SymbolCategory | typeof ALL_CATEGORIES)}
+                    >
+                        <option value={ALL_CATEGORIES}>All categories</option>
+                        {presentCategories.map((category) => (
+                            <option key={category} value={category}>
+                                {SYMBOL_CATEGORY_LABELS[category]}
+                            </option>
+                        ))}
+                    </select>
+                </label>
                 <label>
                     <span>Sort by</span>
                     <select value={sortKey} onChange={(event) => setSortKey(event.target.value as SortKey)}>
@@ -271,6 +306,7 @@ const TemplateGroupsCard = ({ groups, symbols, lastRunCompletedAt }: TemplateGro
                                             <tr>
                                                 <th scope="col">Symbol</th>
                                                 <th scope="col">Specialization</th>
+                                                <th scope="col">Category</th>
                                                 <th scope="col">Size</th>
                                             </tr>
                                         </thead>
@@ -285,6 +321,7 @@ const TemplateGroupsCard = ({ groups, symbols, lastRunCompletedAt }: TemplateGro
                                                         />
                                                     </th>
                                                     <td>{symbol.specializationKey ?? '—'}</td>
+                                                    <td>{symbol.category ? SYMBOL_CATEGORY_LABELS[symbol.category] : '—'}</td>
                                                     <td>
                                                         <SizeValue value={symbol.sizeBytes} />
                                                     </td>
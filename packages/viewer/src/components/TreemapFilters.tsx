@@ -3,14 +3,17 @@ import type { Analysis } from '@analyzer';
 import {
     coerceBlockId,
     coerceSectionId,
+    coerceSymbolCategoryId,
     coerceWindowId,
     hasActiveFilters,
     resolveBlockLabel,
     resolveHardwareBankLabel,
     resolveSectionLabel,
+    resolveSymbolCategoryLabel,
     resolveWindowLabel,
     tokenizeSymbolQuery,
     type TreemapSymbolFilters,
+    UNCLASSIFIED_SYMBOL_CATEGORY_ID,
     UNKNOWN_BLOCK_ID,
     UNKNOWN_HARDWARE_BANK_ID,
     UNKNOWN_SECTION_ID,
@@ -28,7 +31,7 @@ interface FilterOption {
     label: string;
 }
 
-type FilterKey = 'hardwareBanks' | 'windows' | 'logicalBlocks' | 'sections';
+type FilterKey = 'hardwareBanks' | 'windows' | 'logicalBlocks' | 'sections' | 'symbolCategories';
 
 interface FilterGroup {
     key: FilterKey;
@@ -41,6 +44,7 @@ interface SymbolLocationStats {
     windows: Set<string>;
     logicalBlocks: Set<string>;
     sections: Set<string>;
+    symbolCategories: Set<string>;
 }
 
 const buildOptionList = (
@@ -79,6 +83,7 @@ const TreemapFilters = ({ analysis, filters, onFiltersChange }: TreemapFiltersPr
                 windows: new Set<string>(),
                 logicalBlocks: new Set<string>(),
                 sections: new Set<string>(),
+                symbolCategories: new Set<string>(),
             } satisfies SymbolLocationStats;
         }
 
@@ -96,6 +101,7 @@ const TreemapFilters = ({ analysis, filters, onFiltersChange }: TreemapFiltersPr
             windows: new Set<string>(),
             logicalBlocks: new Set<string>(),
             sections: new Set<string>(),
+            symbolCategories: new Set<string>(),
         };
 
         analysis.symbols.forEach((symbol) => {
@@ -114,6 +120,7 @@ const TreemapFilters = ({ analysis, filters, onFiltersChange }: TreemapFiltersPr
             stats.windows.add(windowId);
             stats.logicalBlocks.add(blockId);
             stats.sections.add(sectionId);
+            stats.symbolCategories.add(coerceSymbolCategoryId(symbol.category));
         });
 
         return stats;
@@ -151,6 +158,21 @@ const TreemapFilters = ({ analysis, filters, onFiltersChange }: TreemapFiltersPr
         return buildOptionList(symbolStats.sections, known, resolveSectionLabel);
     }, [analysis, symbolStats.sections]);
 
+    // Categories have no configured list; offer the ones present, with ordinary symbols last.
+    const symbolCategoryOptions = useMemo<FilterOption[]>(() => {
+        const options = Array.from(symbolStats.symbolCategories)
+            .filter((id) => id !== UNCLASSIFIED_SYMBOL_CATEGORY_ID)
+            .map((id) => ({ id, label: resolveSymbolCategoryLabel(id) }))
+            .sort((a, b) => a.label.localeCompare(b.label, undefined, { sensitivity: 'base' }));
+        if (symbolStats.symbolCategories.has(UNCLASSIFIED_SYMBOL_CATEGORY_ID)) {
+            options.push({
+                id: UNCLASSIFIED_SYMBOL_CATEGORY_ID,
+                label: resolveSymbolCategoryLabel(UNCLASSIFIED_SYMBOL_CATEGORY_ID),
+            });
+        }
+        return options;
+    }, [symbolStats.symbolCategories]);
+
     const groups = useMemo<FilterGroup[]>(() => {
         const result: FilterGroup[] = [];
         if (hardwareBankOptions.length > 0 || symbolStats.hardwareBanks.has(UNKNOWN_HARDWARE_BANK_ID)) {
@@ -165,8 +187,11 @@ const TreemapFilters = ({ analysis, filters, onFiltersChange }: TreemapFiltersPr
         if (sectionOptions.length > 0 || symbolStats.sections.has(UNKNOWN_SECTION_ID)) {
             result.push({ key: 'sections', title: 'Sections', options: sectionOptions });
         }
+        if (symbolCategoryOptions.length > 1) {
+            result.push({ key: 'symbolCategories', title: 'Symbol categories', options: symbolCategoryOptions });
+        }
         return result;
-    }, [hardwareBankOptions, windowOptions, blockOptions, sectionOptions, symbolStats]);
+    }, [hardwareBankOptions, windowOptions, blockOptions, sectionOptions, symbolCategoryOptions, symbolStats]);
 
     const hasFiltersApplied = hasActiveFilters(filterState);
 
@@ -248,7 +273,8 @@ const TreemapFilters = ({ analysis, filters, onFiltersChange }: TreemapFiltersPr
                 ) : null}
             </div>
             <p className="summary-description">
-                Toggle memory dimensions or search by name to focus the memory and scope treemaps on specific regions.
+                Toggle memory dimensions, symbol categories (vtables, typeinfo, runtime builtins, …) or search by name to focus
+                the memory and scope treemaps on specific regions.
             </p>
             <div className="treemap-filter-query">
                 <label className="treemap-filter-label" htmlFor="treemap-symbol-query">
@@ -1,6 +1,8 @@
 import type { Symbol as AnalyzerSymbol } from '@analyzer';
+import { describeLinkReason } from '@analyzer/analysis/link-reasons';
 import SymbolValue from '../SymbolValue';
 import { SizeValue } from '../SizeValue';
+import { useLinkReasons } from '../../context/LinkReasonContext';
 
 export interface TreemapSymbolSummaryItem<M = unknown> {
     nodeId: string;
@@ -93,6 +95,8 @@ const TreemapSymbolSummary = <M,>({
     showHeader = true,
     title = 'Symbols in selection',
 }: TreemapSymbolSummaryProps<M>): JSX.Element | null => {
+    const { explainSymbol } = useLinkReasons();
+
     if (!items || items.length === 0) {
         return null;
     }
@@ -113,6 +117,7 @@ const TreemapSymbolSummary = <M,>({
                 {displayItems.map((item) => {
                     const symbol = symbolLookup.get(item.symbolId);
                     const subtitle = toSubtitle(item.meta);
+                    const linkReason = symbol ? explainSymbol(symbol) : null;
                     return (
                         <li key={item.nodeId} className="treemap-summary-item">
                             <div className="treemap-summary-info">
@@ -122,6 +127,9 @@ const TreemapSymbolSummary = <M,>({
                                     className="treemap-summary-symbol"
                                 />
                                 {subtitle ? <span className="treemap-summary-subtitle">{subtitle}</span> : null}
+                                {linkReason ? (
+                                    <span className="treemap-summary-subtitle">Linked because: {describeLinkReason(linkReason)}</span>
+                                ) : null}
                             </div>
                             <div className="treemap-summary-metrics">
                                 <SizeValue value={item.value} />
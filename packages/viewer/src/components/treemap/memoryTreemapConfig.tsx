@@ -23,6 +23,8 @@ const formatNodeKindLabel = (meta: MemoryTreemapNodeMeta | undefined): string =>
             return 'Section';
         case 'symbol':
             return 'Symbol';
+        case 'unattributed':
+            return 'Unattributed bytes';
         case 'unused':
             return 'Unused space';
         default:
@@ -47,6 +49,8 @@ const getNodeColor = (node: TreemapLayoutNode<MemoryTreemapNodeKind, MemoryTreem
             return { fill: hashColor(`section:${meta.sectionId}`), opacity: 0.85 };
         case 'symbol':
             return { fill: hashColor(`symbol:${meta.symbolId}`), opacity: 0.8 };
+        case 'unattributed':
+            return { fill: '#cbd5e1', opacity: 0.6 };
         case 'unused':
             return { fill: '#94a3b8', opacity: 0.7 };
         default:
@@ -139,9 +143,18 @@ const buildDetailRows = (
             if (meta.mangledName) {
                 rows.push({ label: 'Mangled name', value: meta.mangledName });
             }
-            rows.push({ label: 'Declared size', value: <SizeValue value={meta.symbolSize} /> });
+            rows.push({
+                label: symbol?.isSizeInferred ? 'Inferred size' : 'Declared size',
+                value: <SizeValue value={meta.symbolSize} />,
+            });
             break;
         }
+        case 'unattributed':
+            rows.push({ label: 'Section ID', value: meta.sectionId });
+            rows.push({ label: 'Section size', value: <SizeValue value={meta.sectionSize} /> });
+            rows.push({ label: 'Covered by symbols', value: <SizeValue value={meta.attributedBytes} /> });
+            rows.push({ label: 'Unattributed bytes', value: <SizeValue value={meta.unattributedBytes} /> });
+            break;
         case 'unused':
             rows.push({ label: 'Window ID', value: meta.windowId });
             if (meta.windowName && meta.windowName !== meta.windowId) {
@@ -171,7 +184,7 @@ const getEmptyStateMessage = ({ analysis, hasFiltersApplied }: { analysis: Analy
 export const memoryTreemapConfig: TreemapCardConfig<MemoryTreemapNodeKind, MemoryTreemapNodeMeta> = {
     title: 'Memory Treemap',
     description:
-        'Visualizes analyzed symbols grouped by memory window, logical block, and section. Area corresponds to the total bytes attributed to each group.',
+        'Visualizes analyzed symbols grouped by memory window, logical block, and section. Area corresponds to the total bytes attributed to each group; section bytes no symbol covers (padding, literal pools, unlabelled data) appear as "(unattributed)".',
     svgTitle: 'Symbol treemap',
     buildTreemap: (analysis: Analysis | null, filters?: TreemapSymbolFilters) => buildMemoryTreemap(analysis, filters),
     layoutOptions: {
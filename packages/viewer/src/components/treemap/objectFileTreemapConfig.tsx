@@ -0,0 +1,136 @@
+import type { Analysis, Symbol as AnalyzerSymbol } from '@analyzer';
+import SymbolValue from '../SymbolValue';
+import { SizeValue } from '../SizeValue';
+import { hashColor } from '../../utils/color';
+import type {
+    ObjectFileTreemapNodeKind,
+    ObjectFileTreemapNodeMeta,
+    TreemapLayoutNode,
+    TreemapSymbolFilters,
+} from '../../treemap';
+import { buildObjectFileTreemap } from '../../treemap';
+import type { TreemapCardConfig, TreemapDetailRow } from './TreemapCardBase';
+
+const formatNodeKindLabel = (meta: ObjectFileTreemapNodeMeta | undefined): string => {
+    switch (meta?.nodeKind) {
+        case 'root':
+            return 'Target summary';
+        case 'archive':
+            return 'Archive';
+        case 'object':
+            return 'Object file';
+        case 'symbol':
+            return 'Symbol';
+        default:
+            return 'Node';
+    }
+};
+
+const getNodeColor = (node: TreemapLayoutNode<ObjectFileTreemapNodeKind, ObjectFileTreemapNodeMeta>) => {
+    const meta = node.data.meta;
+    if (!meta) {
+        return { fill: '#e2e8f0', opacity: 1 };
+    }
+
+    switch (meta.nodeKind) {
+        case 'root':
+            return { fill: '#e2e8f0', opacity: 1 };
+        case 'archive':
+            return { fill: hashColor(`archive:${meta.archivePath ?? node.id}`), opacity: 0.95 };
+        case 'object':
+            return { fill: hashColor(`object:${meta.objectFileId ?? meta.compileUnitId ?? node.id}`), opacity: 0.88 };
+        case 'symbol':
+            return { fill: hashColor(`symbol:${meta.symbolId}`), opacity: 0.82 };
+        default:
+            return { fill: '#cbd5e1', opacity: 0.9 };
+    }
+};
+
+const buildDetailRows = (
+    node: TreemapLayoutNode<ObjectFileTreemapNodeKind, ObjectFileTreemapNodeMeta>,
+    symbolLookup: Map<string, AnalyzerSymbol>,
+): TreemapDetailRow[] => {
+    const meta = node.data.meta;
+    if (!meta) {
+        return [];
+    }
+
+    const rows: TreemapDetailRow[] = [];
+
+    if (node.depth > 0) {
+        rows.push({ label: 'Node ID', value: node.id });
+    }
+
+    switch (meta.nodeKind) {
+        case 'root':
+            rows.push({ label: 'Target', value: meta.targetName });
+            rows.push({ label: 'Target ID', value: meta.targetId });
+            break;
+        case 'archive':
+            if (meta.archivePath) {
+                rows.push({ label: 'Archive path', value: meta.archivePath });
+            }
+            rows.push({ label: 'Object files', value: meta.objectCount.toLocaleString() });
+            rows.push({ label: 'Symbols', value: meta.symbolCount.toLocaleString() });
+            break;
+        case 'object':
+            if (meta.objectPath) {
+                rows.push({ label: 'Object path', value: meta.objectPath });
+            }
+            rows.push({ label: 'Symbols', value: meta.symbolCount.toLocaleString() });
+            break;
+        case 'symbol': {
+            const symbol = symbolLookup.get(meta.symbolId);
+            rows.push({
+                label: 'Symbol',
+                value: <SymbolValue symbolId={meta.symbolId} symbol={symbol} />,
+            });
+            if (meta.windowId) {
+                rows.push({ label: 'Window', value: meta.windowName ?? meta.windowId });
+            }
+            if (meta.blockId) {
+                rows.push({ label: 'Block', value: meta.blockName ?? meta.blockId });
+            }
+            if (meta.sectionId) {
+                rows.push({ label: 'Section', value: meta.sectionName ?? meta.sectionId });
+            }
+            if (meta.hardwareBankId) {
+                rows.push({ label: 'Hardware bank', value: meta.hardwareBankName ?? meta.hardwareBankId });
+            }
+            rows.push({ label: 'Declared size', value: <SizeValue value={meta.symbolSize} /> });
+            break;
+        }
+        default:
+            break;
+    }
+
+    return rows;
+};
+
+const getEmptyStateMessage = ({ analysis, hasFiltersApplied }: { analysis: Analysis | null; hasFiltersApplied: boolean }): string => {
+    if (!analysis) {
+        return 'Load an analysis to explore library and object file contributions.';
+    }
+    if (!analysis.linkerMap && !analysis.compileUnits?.length) {
+        return 'This analysis has neither a linker map nor debug information; provide either to attribute symbols to libraries and object files.';
+    }
+    if (hasFiltersApplied) {
+        return 'No symbols match the current filters.';
+    }
+    return 'No symbols with size information are available to build the object file treemap.';
+};
+
+export const objectFileTreemapConfig: TreemapCardConfig<ObjectFileTreemapNodeKind, ObjectFileTreemapNodeMeta> = {
+    title: 'Library Treemap',
+    description:
+        'Groups symbol sizes by the archive and object file the linker map says they came from, or by source directory and compile unit when only debug information is available. Use this view to see which libraries are worth trimming.',
+    svgTitle: 'Library and object file treemap',
+    buildTreemap: (analysis: Analysis | null, filters?: TreemapSymbolFilters) => buildObjectFileTreemap(analysis, filters),
+    layoutOptions: {
+        paddingInner: 2,
+    },
+    formatNodeKindLabel,
+    buildDetailRows,
+    getNodeColor,
+    getEmptyStateMessage,
+};
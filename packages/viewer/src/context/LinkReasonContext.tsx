@@ -0,0 +1,48 @@
+import { createContext, useContext, useMemo, type ReactNode } from 'react';
+import type { Analysis, CompileUnit, Symbol as AnalyzerSymbol } from '@analyzer';
+import { createLinkReasonResolver, type LinkReason } from '@analyzer/analysis/link-reasons';
+
+interface LinkReasonContextValue {
+    explainSymbol: (symbol: AnalyzerSymbol) => LinkReason | null;
+    explainObjectFile: (objectFileId: string) => LinkReason | null;
+    findCompileUnit: (compileUnitId: string) => CompileUnit | undefined;
+    hasLinkerMap: boolean;
+}
+
+const defaultContext: LinkReasonContextValue = {
+    explainSymbol: () => null,
+    explainObjectFile: () => null,
+    findCompileUnit: () => undefined,
+    hasLinkerMap: false,
+};
+
+const LinkReasonContext = createContext<LinkReasonContextValue>(defaultContext);
+
+interface LinkReasonProviderProps {
+    analysis?: Analysis | null;
+    children: ReactNode;
+}
+
+export const LinkReasonProvider = ({ analysis, children }: LinkReasonProviderProps): JSX.Element => {
+    const value = useMemo<LinkReasonContextValue>(() => {
+        if (!analysis) {
+            return defaultContext;
+        }
+        const compileUnits = new Map((analysis.compileUnits ?? []).map((unit) => [unit.id, unit] as const));
+        const findCompileUnit = (compileUnitId: string): CompileUnit | undefined => compileUnits.get(compileUnitId);
+        if (!analysis.linkerMap) {
+            return { ...defaultContext, findCompileUnit };
+        }
+        const resolver = createLinkReasonResolver(analysis);
+        return {
+            explainSymbol: (symbol) => resolver.explainSymbol(symbol),
+            explainObjectFile: (objectFileId) => resolver.explainObjectFile(objectFileId),
+            findCompileUnit,
+            hasLinkerMap: true,
+        } satisfies LinkReasonContextValue;
+    }, [analysis]);
+
+    return <LinkReasonContext.Provider value={value}>{children}</LinkReasonContext.Provider>;
+};
+
+export const useLinkReasons = (): LinkReasonContextValue => useContext(LinkReasonContext);
@@ -0,0 +1,409 @@
+import { existsSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'node:util';
+import type { ServerConfig } from '../shared/protocol';
+
+export const PROJECT_CONFIG_FILE_NAME = '.teensymem.json';
+/** The profile a project config file without a `profiles` object describes. */
+export const DEFAULT_PROFILE_ID = 'default';
+
+const DEFAULT_PORT = 5317;
+const DEFAULT_HISTORY_LIMIT = 20;
+const HISTORY_DIRECTORY_NAME = '.teensymem-history';
+
+const DEFAULT_SERVER_CONFIG: ServerConfig = {
+  debounceMs: 1500,
+  autoRun: true,
+};
+
+/** A `PUT .../config` body: `null` clears a field, a missing key leaves it unchanged. */
+export type ServerConfigUpdate = { [K in keyof ServerConfig]?: ServerConfig[K] | null };
+
+export interface ProfileConfig {
+  id: string;
+  config: ServerConfig;
+}
+
+export interface LoadedServerConfig {
+  /** Settings a profile has unless it sets them itself; new profiles start from these. */
+  sharedConfig: ServerConfig;
+  /** In the order the project config file lists them; never empty. */
+  profiles: ProfileConfig[];
+  /** Where profile and config changes are saved; the file need not exist yet. */
+  configFilePath: string;
+  port: number;
+  /** Where past analyses are stored; defaults to a directory beside the config file. */
+  historyDir: string;
+  historyLimit: number;
+}
+
+interface ConfigLayer {
+  config: ServerConfig;
+  configFilePath?: string;
+  port?: number;
+  historyDir?: string;
+  historyLimit?: number;
+}
+
+const STRING_FIELDS = ['targetId', 'elfPath', 'mapPath', 'hexPath', 'toolchainDir', 'toolchainPrefix'] as const;
+const SERVER_CONFIG_KEYS: ReadonlyArray<keyof ServerConfig> = [...STRING_FIELDS, 'debounceMs', 'autoRun'];
+const PATH_FIELDS = ['elfPath', 'mapPath', 'hexPath', 'toolchainDir'] as const;
+
+const ENVIRONMENT_VARIABLES: Record<(typeof STRING_FIELDS)[number], string> = {
+  targetId: 'TME_TARGET',
+  elfPath: 'TME_ELF',
+  mapPath: 'TME_MAP',
+  hexPath: 'TME_HEX',
+  toolchainDir: 'TME_TOOLCHAIN_DIR',
+  toolchainPrefix: 'TME_TOOLCHAIN_PREFIX',
+};
+
+export const SERVER_USAGE = `Usage: viewer-server [options]
+
+Options take precedence over TME_* environment variables, which take precedence over the top level of
+${PROJECT_CONFIG_FILE_NAME}. Together they are the settings every build profile shares; a profile listed under
+"profiles" in ${PROJECT_CONFIG_FILE_NAME} overrides them with its own.
+
+  --target <id>            Memory-map config to analyze against (TME_TARGET)
+  --elf <file>             Firmware ELF to analyze and watch (TME_ELF)
+  --map <file>             GNU ld map file (TME_MAP)
+  --hex <file>             Intel HEX image (TME_HEX)
+  --toolchain-dir <dir>    Directory containing the arm-none-eabi binutils (TME_TOOLCHAIN_DIR)
+  --toolchain-prefix <p>   Binutils prefix (TME_TOOLCHAIN_PREFIX)
+  --debounce-ms <ms>       Delay after a file change before re-running analysis (TME_DEBOUNCE_MS)
+  --auto-run, --no-auto-run
+                           Watch the ELF and map files and re-run on change (TME_AUTO_RUN)
+  --config <file>          Project config file (TME_CONFIG_FILE; default: nearest ${PROJECT_CONFIG_FILE_NAME})
+  --port <n>               HTTP port (TME_VIEWER_PORT; default: ${DEFAULT_PORT})
+  --history-dir <dir>      Where past analyses are kept (TME_HISTORY_DIR; default: ${HISTORY_DIRECTORY_NAME}
+                           beside the project config file)
+  --history-limit <n>      Number of past analyses to keep (TME_HISTORY_LIMIT; default: ${DEFAULT_HISTORY_LIMIT})
+  -h, --help               Show this help
+`;
+
+// Profile ids name history directories and appear in URLs.
+const PROFILE_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+export const validateProfileId = (input: unknown, source: string): string => {
+  if (typeof input !== 'string' || !PROFILE_ID_PATTERN.test(input)) {
+    throw new Error(`${source}: a profile id is 1-64 letters, digits, '-' or '_', starting with a letter or digit.`);
+  }
+  return input;
+};
+
+const isServerConfigKey = (key: string): key is keyof ServerConfig =>
+  (SERVER_CONFIG_KEYS as readonly string[]).includes(key);
+
+const parseInteger = (value: string, source: string): number => {
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || String(parsed) !== value.trim() || parsed < 0) {
+    throw new Error(`${source} expects a non-negative integer, got '${value}'.`);
+  }
+  return parsed;
+};
+
+const parseHistoryLimit = (value: string, source: string): number => {
+  const limit = parseInteger(value, source);
+  if (limit < 1) {
+    throw new Error(`${source} must keep at least one analysis.`);
+  }
+  return limit;
+};
+
+const parseBoolean = (value: string, source: string): boolean => {
+  const normalized = value.trim().toLowerCase();
+  if (['1', 'true', 'yes', 'on'].includes(normalized)) {
+    return true;
+  }
+  if (['0', 'false', 'no', 'off'].includes(normalized)) {
+    return false;
+  }
+  throw new Error(`${source} expects true or false, got '${value}'.`);
+};
+
+const resolvePaths = <T extends ServerConfigUpdate>(config: T, baseDir: string): T => {
+  const resolved = { ...config };
+  PATH_FIELDS.forEach((field) => {
+    const value = resolved[field];
+    if (value) {
+      resolved[field] = path.resolve(baseDir, value);
+    }
+  });
+  return resolved;
+};
+
+/**
+ * Checks that `input` has the shape of a `ServerConfigUpdate`. Unknown keys are rejected so a misspelt
+ * setting fails loudly instead of being ignored.
+ */
+export const validateServerConfigUpdate = (input: unknown, source: string): ServerConfigUpdate => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error(`${source} must be a JSON object.`);
+  }
+
+  const result: ServerConfigUpdate = {};
+  Object.entries(input as Record<string, unknown>).forEach(([key, value]) => {
+    if (value === null && isServerConfigKey(key)) {
+      result[key] = null;
+    } else if ((STRING_FIELDS as readonly string[]).includes(key)) {
+      if (typeof value !== 'string') {
+        throw new Error(`${source}: ${key} must be a string.`);
+      }
+      result[key as (typeof STRING_FIELDS)[number]] = value;
+    } else if (key === 'debounceMs') {
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        throw new Error(`${source}: debounceMs must be a non-negative integer.`);
+      }
+      result.debounceMs = value;
+    } else if (key === 'autoRun') {
+      if (typeof value !== 'boolean') {
+        throw new Error(`${source}: autoRun must be true or false.`);
+      }
+      result.autoRun = value;
+    } else {
+      throw new Error(`${source}: unknown setting '${key}'.`);
+    }
+  });
+  return result;
+};
+
+/**
+ * Resolves relative paths in an update from the viewer against the directory of the config file it is
+ * saved to, so they name the same files now and after a restart reads them back from that file.
+ */
+export const resolveUpdatePaths = (update: ServerConfigUpdate, configFilePath: string): ServerConfigUpdate =>
+  resolvePaths(update, path.dirname(configFilePath));
+
+/** Drops cleared (`null`) and unset fields, leaving the values an update or layer actually sets. */
+export const withoutClearedFields = (update: ServerConfigUpdate): ServerConfig =>
+  Object.fromEntries(Object.entries(update).filter(([, value]) => value !== null && value !== undefined)) as ServerConfig;
+
+const readCommandLineLayer = (argv: string[], baseDir: string): ConfigLayer & { help: boolean } => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      target: { type: 'string' },
+      elf: { type: 'string' },
+      map: { type: 'string' },
+      hex: { type: 'string' },
+      'toolchain-dir': { type: 'string' },
+      'toolchain-prefix': { type: 'string' },
+      'debounce-ms': { type: 'string' },
+      'auto-run': { type: 'boolean' },
+      'no-auto-run': { type: 'boolean' },
+      config: { type: 'string' },
+      port: { type: 'string' },
+      'history-dir': { type: 'string' },
+      'history-limit': { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const config: ServerConfig = resolvePaths(
+    {
+      targetId: values.target,
+      elfPath: values.elf,
+      mapPath: values.map,
+      hexPath: values.hex,
+      toolchainDir: values['toolchain-dir'],
+      toolchainPrefix: values['toolchain-prefix'],
+      debounceMs: values['debounce-ms'] !== undefined ? parseInteger(values['debounce-ms'], '--debounce-ms') : undefined,
+      autoRun: values['no-auto-run'] ? false : values['auto-run'],
+    },
+    baseDir,
+  );
+
+  return {
+    config,
+    configFilePath: values.config ? path.resolve(baseDir, values.config) : undefined,
+    port: values.port !== undefined ? parseInteger(values.port, '--port') : undefined,
+    historyDir: values['history-dir'] ? path.resolve(baseDir, values['history-dir']) : undefined,
+    historyLimit:
+      values['history-limit'] !== undefined ? parseHistoryLimit(values['history-limit'], '--history-limit') : undefined,
+    help: values.help ?? false,
+  };
+};
+
+const readEnvironmentLayer = (env: NodeJS.ProcessEnv, baseDir: string): ConfigLayer => {
+  const config: ServerConfig = {};
+  STRING_FIELDS.forEach((field) => {
+    const value = env[ENVIRONMENT_VARIABLES[field]];
+    if (value) {
+      config[field] = value;
+    }
+  });
+  if (env.TME_DEBOUNCE_MS) {
+    config.debounceMs = parseInteger(env.TME_DEBOUNCE_MS, 'TME_DEBOUNCE_MS');
+  }
+  if (env.TME_AUTO_RUN) {
+    config.autoRun = parseBoolean(env.TME_AUTO_RUN, 'TME_AUTO_RUN');
+  }
+
+  return {
+    config: resolvePaths(config, baseDir),
+    configFilePath: env.TME_CONFIG_FILE ? path.resolve(baseDir, env.TME_CONFIG_FILE) : undefined,
+    port: env.TME_VIEWER_PORT ? parseInteger(env.TME_VIEWER_PORT, 'TME_VIEWER_PORT') : undefined,
+    historyDir: env.TME_HISTORY_DIR ? path.resolve(baseDir, env.TME_HISTORY_DIR) : undefined,
+    historyLimit: env.TME_HISTORY_LIMIT ? parseHistoryLimit(env.TME_HISTORY_LIMIT, 'TME_HISTORY_LIMIT') : undefined,
+  };
+};
+
+/**
+ * The nearest `.teensymem.json` at or above `startDir`; when there is none, where one would be created
+ * in `startDir` itself.
+ */
+export const findProjectConfigFile = (startDir: string): string => {
+  let directory = path.resolve(startDir);
+  for (;;) {
+    const candidate = path.join(directory, PROJECT_CONFIG_FILE_NAME);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return path.join(path.resolve(startDir), PROJECT_CONFIG_FILE_NAME);
+    }
+    directory = parent;
+  }
+};
+
+const readProjectConfigJson = async (filePath: string): Promise<Record<string, unknown>> => {
+  let text: string;
+  try {
+    text = await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+  try {
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch (error) {
+    throw new Error(`Unable to parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+interface ProjectConfigFile {
+  shared: ServerConfig;
+  /** `null` when the file has no `profiles` object, so it describes just the default profile. */
+  profiles: ProfileConfig[] | null;
+}
+
+const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+/** Reads the project config file; relative paths in it are relative to the file, not the working directory. */
+export const readProjectConfigFile = async (filePath: string): Promise<ProjectConfigFile> => {
+  const { profiles, ...shared } = await readProjectConfigJson(filePath);
+  const baseDir = path.dirname(filePath);
+  const toConfig = (input: unknown, source: string): ServerConfig =>
+    resolvePaths(withoutClearedFields(validateServerConfigUpdate(input, source)), baseDir);
+
+  if (profiles !== undefined && !isJsonObject(profiles)) {
+    throw new Error(`${filePath}: profiles must map profile ids to their settings.`);
+  }
+  return {
+    shared: toConfig(shared, filePath),
+    profiles: profiles
+      ? Object.entries(profiles).map(([id, config]) => ({
+        id: validateProfileId(id, filePath),
+        config: toConfig(config, `${filePath}, profile ${id}`),
+      }))
+      : null,
+  };
+};
+
+/**
+ * Builds the server's startup config. Each profile's settings come from, in increasing precedence:
+ * built-in defaults, the top level of the project config file, that profile's entry in the file, `TME_*`
+ * environment variables and command-line options. The shared settings are the same without a profile
+ * entry. Resolves to `null` for `--help`.
+ */
+export const loadServerConfig = async (argv: string[], env: NodeJS.ProcessEnv): Promise<LoadedServerConfig | null> => {
+  // Yarn and npm run scripts from the package directory but record where they were started in INIT_CWD.
+  const baseDir = env.INIT_CWD ?? process.cwd();
+  const commandLine = readCommandLineLayer(argv, baseDir);
+  if (commandLine.help) {
+    return null;
+  }
+  const environment = readEnvironmentLayer(env, baseDir);
+  const configFilePath = commandLine.configFilePath ?? environment.configFilePath ?? findProjectConfigFile(baseDir);
+  const projectFile = await readProjectConfigFile(configFilePath);
+  const overrides: ServerConfig = {
+    ...withoutClearedFields(environment.config),
+    ...withoutClearedFields(commandLine.config),
+  };
+  const fileConfig: ServerConfig = { ...DEFAULT_SERVER_CONFIG, ...projectFile.shared };
+  const sharedConfig: ServerConfig = { ...fileConfig, ...overrides };
+  const profiles = projectFile.profiles ?? [{ id: DEFAULT_PROFILE_ID, config: {} }];
+  if (profiles.length === 0) {
+    throw new Error(`${configFilePath}: profiles must list at least one profile.`);
+  }
+
+  return {
+    sharedConfig,
+    profiles: profiles.map(({ id, config }) => ({ id, config: { ...fileConfig, ...config, ...overrides } })),
+    configFilePath,
+    port: commandLine.port ?? environment.port ?? DEFAULT_PORT,
+    historyDir:
+      commandLine.historyDir ??
+      environment.historyDir ??
+      path.join(path.dirname(configFilePath), HISTORY_DIRECTORY_NAME),
+    historyLimit: commandLine.historyLimit ?? environment.historyLimit ?? DEFAULT_HISTORY_LIMIT,
+  };
+};
+
+const applyUpdate = (stored: Record<string, unknown>, update: ServerConfigUpdate): void => {
+  Object.entries(update).forEach(([key, value]) => {
+    if (value === null || value === undefined) {
+      delete stored[key];
+    } else {
+      stored[key] = value;
+    }
+  });
+};
+
+/**
+ * The file's `profiles` object, created when the file so far described only the default profile; that
+ * profile is listed too, so it keeps existing next to the new ones.
+ */
+const storedProfiles = (stored: Record<string, unknown>): Record<string, Record<string, unknown>> => {
+  if (!isJsonObject(stored.profiles)) {
+    stored.profiles = { [DEFAULT_PROFILE_ID]: {} };
+  }
+  return stored.profiles as Record<string, Record<string, unknown>>;
+};
+
+const writeProjectConfigJson = async (filePath: string, stored: Record<string, unknown>): Promise<void> => {
+  await writeFile(filePath, `${JSON.stringify(stored, null, 2)}\n`, 'utf8');
+};
+
+/**
+ * Applies `update` to a profile in the config file, creating the profile if needed and keeping every
+ * setting it does not touch as written. A file without profiles keeps the default profile's settings
+ * at its top level.
+ */
+export const saveProfileConfigUpdate = async (
+  filePath: string,
+  profileId: string,
+  update: ServerConfigUpdate,
+): Promise<void> => {
+  const stored = await readProjectConfigJson(filePath);
+  if (profileId === DEFAULT_PROFILE_ID && !isJsonObject(stored.profiles)) {
+    applyUpdate(stored, update);
+  } else {
+    const profiles = storedProfiles(stored);
+    profiles[profileId] = isJsonObject(profiles[profileId]) ? profiles[profileId] : {};
+    applyUpdate(profiles[profileId], update);
+  }
+  await writeProjectConfigJson(filePath, stored);
+};
+
+/** Removes a profile from the config file; the shared settings at its top level stay. */
+export const removeProfileFromConfigFile = async (filePath: string, profileId: string): Promise<void> => {
+  const stored = await readProjectConfigJson(filePath);
+  delete storedProfiles(stored)[profileId];
+  await writeProjectConfigJson(filePath, stored);
+};
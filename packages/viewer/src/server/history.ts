@@ -0,0 +1,88 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { AnalysisBroadcastPayload, AnalysisHistoryEntry, ServerConfig } from '../shared/protocol';
+
+const INDEX_FILE_NAME = 'index.json';
+
+// Ids become file names, so anything else in a request path is rejected rather than resolved.
+const HISTORY_ID_PATTERN = /^[0-9A-Za-z-]+$/;
+
+export interface AnalysisHistory {
+  /** Stored runs, newest first. */
+  entries: () => AnalysisHistoryEntry[];
+  add: (payload: AnalysisBroadcastPayload, config: ServerConfig) => Promise<AnalysisHistoryEntry>;
+  /** The stored payload, or `null` for an unknown id. */
+  read: (id: string) => Promise<AnalysisBroadcastPayload | null>;
+}
+
+const toHistoryId = (generatedAt: string): string => generatedAt.replace(/[:.]/g, '-');
+
+const writeJsonAtomically = async (filePath: string, value: unknown): Promise<void> => {
+  const temporaryPath = `${filePath}.tmp`;
+  await writeFile(temporaryPath, JSON.stringify(value), 'utf8');
+  await rename(temporaryPath, filePath);
+};
+
+const readIndex = async (indexPath: string): Promise<AnalysisHistoryEntry[]> => {
+  try {
+    const entries = JSON.parse(await readFile(indexPath, 'utf8')) as unknown;
+    return Array.isArray(entries) ? (entries as AnalysisHistoryEntry[]) : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw new Error(`Unable to read analysis history ${indexPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * Opens the analysis history in `directory`, creating it on first use. Each run is stored as its own
+ * JSON file next to a small index, so listing runs never parses the analyses themselves. Only the
+ * newest `limit` runs are kept.
+ */
+export const openAnalysisHistory = async (directory: string, limit: number): Promise<AnalysisHistory> => {
+  await mkdir(directory, { recursive: true });
+  const indexPath = path.join(directory, INDEX_FILE_NAME);
+  const recordPath = (id: string) => path.join(directory, `${id}.json`);
+  let entries = (await readIndex(indexPath)).slice(0, limit);
+
+  const add = async (payload: AnalysisBroadcastPayload, config: ServerConfig): Promise<AnalysisHistoryEntry> => {
+    const entry: AnalysisHistoryEntry = {
+      id: toHistoryId(payload.generatedAt),
+      generatedAt: payload.generatedAt,
+      buildId: payload.analysis.build.buildId,
+      config,
+      targetName: payload.analysis.target.name,
+      runtimeBytes: payload.summaries.totals.runtimeBytes,
+      loadImageBytes: payload.summaries.totals.loadImageBytes,
+    };
+    await writeJsonAtomically(recordPath(entry.id), payload);
+
+    const updated = [entry, ...entries.filter((existing) => existing.id !== entry.id)];
+    const evicted = updated.slice(limit);
+    entries = updated.slice(0, limit);
+    await writeJsonAtomically(indexPath, entries);
+    await Promise.all(evicted.map((stale) => rm(recordPath(stale.id), { force: true })));
+    return entry;
+  };
+
+  const read = async (id: string): Promise<AnalysisBroadcastPayload | null> => {
+    if (!HISTORY_ID_PATTERN.test(id) || !entries.some((entry) => entry.id === id)) {
+      return null;
+    }
+    try {
+      return JSON.parse(await readFile(recordPath(id), 'utf8')) as AnalysisBroadcastPayload;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  return {
+    entries: () => entries,
+    add,
+    read,
+  };
+};
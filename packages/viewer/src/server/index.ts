@@ -1,108 +1,156 @@
-import express, { type Request, type Response } from 'express';
+import express, { type NextFunction, type Request, type Response } from 'express';
 import http from 'http';
 import { WebSocket, WebSocketServer } from 'ws';
+import type {
+  AnalysisBroadcastPayload,
+  ClientMessage,
+  HealthResponse,
+  ServerConfig,
+  ServerMessage,
+} from '../shared/protocol';
+import { createAnalysisDelta } from '../shared/analysis-delta';
+import { openBuildProfile, type BuildProfile, type BuildProfileListener, type CompletedAnalysis } from './profile';
+import { createQueryRouter } from './queries';
+import { analyzeUploadedBuild, MAX_UPLOAD_BYTES, parseBuildUpload, type BuildUpload } from './upload';
 import {
-  analyzeBuild,
-  calculateTeensySizeReport,
-  generateSummaries,
-  type AnalyzeBuildParams,
-  type Analysis,
-  type Summaries,
-  type TeensySizeReportSummary,
-} from '@analyzer';
-import type { AnalysisBroadcastPayload, ServerConfig, ServerMessage, ServerStatusPayload } from '../shared/protocol';
-
-const DEFAULT_PORT = Number.parseInt(process.env.TME_VIEWER_PORT ?? '5317', 10);
+  loadServerConfig,
+  removeProfileFromConfigFile,
+  resolveUpdatePaths,
+  saveProfileConfigUpdate,
+  SERVER_USAGE,
+  validateProfileId,
+  validateServerConfigUpdate,
+  withoutClearedFields,
+  type ServerConfigUpdate,
+} from './config';
+
 const VERSION = '0.1.0-dev';
 
 const app = express();
 app.use(express.json());
 
-let currentStatus: ServerStatusPayload = { state: 'idle' };
-let activeConfig: ServerConfig = {
-  debounceMs: 1500,
-  autoRun: true,
-  targetId: "teensy40",
-    elfPath: "C:\\root\\git\\thenfour\\Clarinoid\\projects\\CLARINOID2\\.pio\\build\\teensy\\firmware.elf",
-    mapPath: "C:\\root\\git\\thenfour\\Clarinoid\\projects\\CLARINOID2\\.pio\\build\\teensy\\firmware.map",
-    toolchainDir: "C:\\Users\\carl\\.platformio\\packages\\toolchain-gccarmnoneeabi-teensy\\bin",
-    toolchainPrefix: "arm-none-eabi-",
-};
-interface CompletedAnalysis {
-  analysis: Analysis;
-  summaries: Summaries;
-  report?: TeensySizeReportSummary;
-  generatedAt: string;
-}
+// Filled in from the command line, environment and project config file before the server listens.
+let sharedConfig: ServerConfig = {};
+let configFilePath = '';
+let port = 0;
+let historyDir = '';
+let historyLimit = 0;
 
-let lastAnalysis: CompletedAnalysis | null = null;
+// In the order the project config file lists them; the first one answers the unprefixed `/api` routes.
+const profiles = new Map<string, BuildProfile>();
+
+/** The profile a viewer follows and the run of it the viewer last acknowledged, by its `generatedAt`. */
+interface ViewerSubscription {
+  profileId?: string;
+  acknowledged?: string;
+}
 
 const server = http.createServer(app);
-const wss = new WebSocketServer({ server, path: '/ws' });
-const sockets = new Set<WebSocket>();
+// Browsers negotiate per-message deflate on their own; small status messages are not worth compressing.
+const wss = new WebSocketServer({ server, path: '/ws', perMessageDeflate: { threshold: 1024 } });
+const sockets = new Map<WebSocket, ViewerSubscription>();
 
-const broadcastStatus = (): void => {
-  const message: ServerMessage = { type: 'status', payload: currentStatus };
+const broadcast = (message: ServerMessage): void => {
   const encoded = JSON.stringify(message);
-  sockets.forEach((socket) => {
+  sockets.forEach((_subscription, socket) => {
     if (socket.readyState === WebSocket.OPEN) {
       socket.send(encoded);
     }
   });
 };
 
-const broadcastConfig = (): void => {
-  const message: ServerMessage = { type: 'config', payload: activeConfig };
-  const encoded = JSON.stringify(message);
-  sockets.forEach((socket) => {
-    if (socket.readyState === WebSocket.OPEN) {
-      socket.send(encoded);
+const toPayload = (completed: CompletedAnalysis): AnalysisBroadcastPayload => ({
+  analysis: completed.analysis,
+  summaries: completed.summaries,
+  report: completed.report,
+  generatedAt: completed.generatedAt,
+});
+
+/**
+ * Sends the latest run of `profile` to `socket` if it follows that profile: nothing if it already holds
+ * the run, a delta if it acknowledged a run that is still retained, the full analysis otherwise.
+ * `encodedByBase` shares encoded messages between sockets that hold the same run.
+ */
+const sendAnalysis = (socket: WebSocket, profile: BuildProfile, encodedByBase: Map<string, string>): void => {
+  const current = profile.latest();
+  const subscription = sockets.get(socket);
+  if (!current || subscription?.profileId !== profile.id || socket.readyState !== WebSocket.OPEN) {
+    return;
+  }
+  if (subscription.acknowledged === current.generatedAt) {
+    return;
+  }
+
+  const base = profile.retained(subscription.acknowledged);
+  const key = base?.generatedAt ?? '';
+  let encoded = encodedByBase.get(key);
+  if (!encoded) {
+    const message: ServerMessage = base
+      ? {
+        type: 'analysis-delta',
+        profileId: profile.id,
+        payload: createAnalysisDelta(toPayload(base), toPayload(current)),
+      }
+      : { type: 'analysis', profileId: profile.id, payload: toPayload(current) };
+    encoded = JSON.stringify(message);
+    encodedByBase.set(key, encoded);
+  }
+  socket.send(encoded);
+};
+
+const profileListener: BuildProfileListener = {
+  status: (profile) => broadcast({ type: 'status', profileId: profile.id, payload: profile.status() }),
+  analysis: (profile) => {
+    const encodedByBase = new Map<string, string>();
+    sockets.forEach((_subscription, socket) => sendAnalysis(socket, profile, encodedByBase));
+  },
+  summary: (profile) => {
+    // A profile still being opened is announced once it has been added.
+    if (profiles.get(profile.id) === profile) {
+      broadcast({ type: 'profile', profileId: profile.id, payload: profile.summary() });
     }
-  });
+  },
 };
 
-const broadcastAnalysis = (): void => {
-  if (!lastAnalysis) {
+const handleClientMessage = (socket: WebSocket, message: ClientMessage): void => {
+  const profile = profiles.get(message.profileId);
+  const subscription = sockets.get(socket);
+  if (!profile || !subscription) {
     return;
   }
 
-  const payload: AnalysisBroadcastPayload = {
-    analysis: lastAnalysis.analysis,
-    summaries: lastAnalysis.summaries,
-    report: lastAnalysis.report,
-    generatedAt: lastAnalysis.generatedAt,
-  };
-  const message: ServerMessage = { type: 'analysis', payload };
-  const encoded = JSON.stringify(message);
-  sockets.forEach((socket) => {
-    if (socket.readyState === WebSocket.OPEN) {
-      socket.send(encoded);
-    }
-  });
+  if (message.type === 'subscribe') {
+    subscription.profileId = profile.id;
+    subscription.acknowledged = typeof message.since === 'string' ? message.since : undefined;
+    sendAnalysis(socket, profile, new Map());
+  } else if (message.type === 'ack' && subscription.profileId === profile.id) {
+    subscription.acknowledged = message.generatedAt;
+  } else if (message.type === 'resync' && subscription.profileId === profile.id) {
+    subscription.acknowledged = undefined;
+    sendAnalysis(socket, profile, new Map());
+  }
 };
 
+const profileSummaries = () => [...profiles.values()].map((profile) => profile.summary());
+
 wss.on('connection', (socket) => {
-  sockets.add(socket);
+  sockets.set(socket, {});
 
-  const hello: ServerMessage = { type: 'hello', payload: { message: 'viewer connected' } };
+  const hello: ServerMessage = {
+    type: 'hello',
+    payload: { message: 'viewer connected', profiles: profileSummaries() },
+  };
   socket.send(JSON.stringify(hello));
-  socket.send(JSON.stringify({ type: 'status', payload: currentStatus } satisfies ServerMessage));
-  socket.send(JSON.stringify({ type: 'config', payload: activeConfig } satisfies ServerMessage));
-  if (lastAnalysis) {
-    socket.send(
-      JSON.stringify(
-        {
-          type: 'analysis',
-          payload: {
-            analysis: lastAnalysis.analysis,
-            summaries: lastAnalysis.summaries,
-            report: lastAnalysis.report,
-            generatedAt: lastAnalysis.generatedAt,
-          },
-        } satisfies ServerMessage,
-      ),
-    );
-  }
+
+  socket.on('message', (data) => {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(data.toString()) as ClientMessage;
+    } catch {
+      return;
+    }
+    handleClientMessage(socket, message);
+  });
 
   socket.on('close', () => {
     sockets.delete(socket);
@@ -110,102 +158,264 @@ wss.on('connection', (socket) => {
 });
 
 app.get('/api/health', (_req: Request, res: Response) => {
-  res.json({
+  const health: HealthResponse = {
     status: 'ok',
     version: VERSION,
-    port: DEFAULT_PORT,
-    state: currentStatus,
-  latestAnalysisGeneratedAt: lastAnalysis?.generatedAt ?? undefined,
-  });
+    port,
+    profiles: [...profiles.values()].map((profile) => ({
+      id: profile.id,
+      status: profile.status(),
+      latestGeneratedAt: profile.latest()?.generatedAt,
+    })),
+  };
+  res.json(health);
 });
 
-app.get('/api/config', (_req: Request, res: Response) => {
-  res.json({ config: activeConfig });
+app.get('/api/profiles', (_req: Request, res: Response) => {
+  res.json({ profiles: profileSummaries() });
 });
 
-app.put('/api/config', (req: Request, res: Response) => {
-  const updates = req.body as Partial<ServerConfig> | undefined;
-  if (!updates) {
-    res.status(400).json({ error: 'Missing config payload.' });
+/**
+ * Saves a change that has already been applied. If that fails, the change still applies until the server
+ * restarts; the client is told with a 500 and `false` is returned, so the caller sends nothing else.
+ */
+const saveProfileChanges = async (res: Response, save: () => Promise<void>): Promise<boolean> => {
+  try {
+    await save();
+    return true;
+  } catch (error) {
+    const message = `Unable to save ${configFilePath}: ${error instanceof Error ? error.message : String(error)}`;
+    console.warn(`[viewer-server] ${message}`);
+    res.status(500).json({ error: `${message}. The change applies until the server restarts.` });
+    return false;
+  }
+};
+
+app.post('/api/profiles', async (req: Request, res: Response) => {
+  let profileId: string;
+  let update: ServerConfigUpdate;
+  try {
+    profileId = validateProfileId(req.body?.id, 'Profile payload');
+    update = resolveUpdatePaths(
+      validateServerConfigUpdate(req.body?.config ?? {}, 'Profile payload config'),
+      configFilePath,
+    );
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid profile payload.' });
+    return;
+  }
+  if (profiles.has(profileId)) {
+    res.status(409).json({ error: `Profile ${profileId} already exists.` });
     return;
   }
 
-  activeConfig = {
-    ...activeConfig,
-    ...updates,
-  };
+  try {
+    const profile = await openBuildProfile({
+      id: profileId,
+      config: withoutClearedFields({ ...sharedConfig, ...update }),
+      historyDir,
+      historyLimit,
+      listener: profileListener,
+    });
+    profiles.set(profileId, profile);
+    profileListener.summary(profile);
+    if (await saveProfileChanges(res, () => saveProfileConfigUpdate(configFilePath, profileId, withoutClearedFields(update)))) {
+      res.status(201).json({ profile: profile.summary() });
+    }
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unable to create profile.' });
+  }
+});
 
-  res.json({ config: activeConfig });
-  broadcastConfig();
+// The profile's stored history stays on disk, so creating a profile with the same id brings it back.
+app.delete('/api/profiles/:profileId', async (req: Request, res: Response) => {
+  const profile = profiles.get(req.params.profileId);
+  if (!profile) {
+    res.status(404).json({ error: `No profile ${req.params.profileId}.` });
+    return;
+  }
+  if (profiles.size === 1) {
+    res.status(409).json({ error: 'The last profile cannot be removed.' });
+    return;
+  }
+
+  profile.close();
+  profiles.delete(profile.id);
+  sockets.forEach((subscription) => {
+    if (subscription.profileId === profile.id) {
+      subscription.profileId = undefined;
+      subscription.acknowledged = undefined;
+    }
+  });
+  broadcast({ type: 'profile-removed', profileId: profile.id });
+  if (await saveProfileChanges(res, () => removeProfileFromConfigFile(configFilePath, profile.id))) {
+    res.status(204).end();
+  }
 });
 
-app.post('/api/run', async (_req: Request, res: Response) => {
-  if (!activeConfig.targetId || !activeConfig.elfPath) {
-    res.status(400).json({ error: 'Configuration must specify targetId and elfPath before running analysis.' });
+/** Routes acting on one profile, mounted per profile and, for the first profile, directly under `/api`. */
+const profileRouter = express.Router({ mergeParams: true });
+
+const profileOf = (res: Response): BuildProfile => res.locals.profile as BuildProfile;
+
+profileRouter.use((req: Request, res: Response, next: NextFunction) => {
+  const profile = req.params.profileId ? profiles.get(req.params.profileId) : profiles.values().next().value;
+  if (!profile) {
+    res.status(404).json({ error: `No profile ${req.params.profileId}.` });
     return;
   }
+  res.locals.profile = profile;
+  next();
+});
 
-  const startTime = new Date().toISOString();
-  currentStatus = {
-    state: 'running',
-    lastRunStartedAt: startTime,
-  };
-  broadcastStatus();
-
-  const params: AnalyzeBuildParams = {
-    targetId: activeConfig.targetId,
-    elfPath: activeConfig.elfPath,
-    mapPath: activeConfig.mapPath,
-    toolchainDir: activeConfig.toolchainDir,
-    toolchainPrefix: activeConfig.toolchainPrefix,
-  };
+profileRouter.get('/analyses', (_req: Request, res: Response) => {
+  res.json({ analyses: profileOf(res).history.entries() });
+});
 
+profileRouter.get('/analyses/:id', async (req: Request, res: Response) => {
   try {
-    const analysis = await analyzeBuild(params);
-    const summaries = generateSummaries(analysis);
-    const report = calculateTeensySizeReport(analysis, { summaries });
-    const generatedAt = new Date().toISOString();
-    lastAnalysis = {
-      analysis,
-      summaries,
-      report,
-      generatedAt,
-    };
-
-    currentStatus = {
-      state: activeConfig.autoRun ? 'watching' : 'idle',
-      lastRunStartedAt: startTime,
-      lastRunCompletedAt: generatedAt,
-    };
-    broadcastStatus();
-    broadcastAnalysis();
+    const payload = await profileOf(res).history.read(req.params.id);
+    if (!payload) {
+      res.status(404).json({ error: `No stored analysis ${req.params.id}.` });
+      return;
+    }
+    res.json(payload);
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unable to read stored analysis.' });
+  }
+});
+
+profileRouter.use(createQueryRouter((res) => profileOf(res).latest()));
+
+profileRouter.get('/config', (_req: Request, res: Response) => {
+  res.json({ config: profileOf(res).config() });
+});
+
+profileRouter.put('/config', async (req: Request, res: Response) => {
+  const profile = profileOf(res);
+  let updates: ServerConfigUpdate;
+  try {
+    updates = resolveUpdatePaths(validateServerConfigUpdate(req.body, 'Config payload'), configFilePath);
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid config payload.' });
+    return;
+  }
+
+  // Only settings that actually change are saved, so values that came from the shared settings, the
+  // command line or the environment are not copied into the profile just because the viewer echoed them.
+  const current = profile.config();
+  const changes = Object.fromEntries(
+    Object.entries(updates).filter(([key, value]) => (value ?? undefined) !== current[key as keyof ServerConfig]),
+  ) as ServerConfigUpdate;
+  profile.setConfig(withoutClearedFields({ ...current, ...updates }));
+  if (
+    Object.keys(changes).length === 0 ||
+    (await saveProfileChanges(res, () => saveProfileConfigUpdate(configFilePath, profile.id, changes)))
+  ) {
+    res.json({ config: profile.config() });
+  }
+});
 
+profileRouter.post('/run', async (_req: Request, res: Response) => {
+  const profile = profileOf(res);
+  const config = profile.config();
+  if (!config.targetId || !config.elfPath) {
+    res.status(400).json({ error: 'Configuration must specify targetId and elfPath before running analysis.' });
+    return;
+  }
+
+  // Answers once the run this request started or joined has finished.
+  try {
+    const generatedAt = await profile.run();
+    if (generatedAt === null) {
+      res.status(409).json({ error: 'The analysis was cancelled.' });
+      return;
+    }
     res.status(200).json({ status: 'ok', generatedAt });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown analysis failure.';
-    currentStatus = {
-      state: 'error',
-      lastRunStartedAt: startTime,
-      errorMessage: message,
-    };
-    broadcastStatus();
-    res.status(500).json({ error: message });
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown analysis failure.' });
+  }
+});
+
+profileRouter.delete('/run', async (_req: Request, res: Response) => {
+  if (!(await profileOf(res).cancel())) {
+    res.status(409).json({ error: 'No analysis is running.' });
+    return;
   }
+  res.status(200).json({ status: 'cancelled' });
 });
 
+// Analyzes a build uploaded by the viewer with the first profile's toolchain settings. The result goes
+// back to the uploader only; it is not a run of any profile, so it is neither broadcast nor stored.
+app.post(
+  '/api/analyze',
+  express.raw({ type: 'multipart/form-data', limit: MAX_UPLOAD_BYTES }),
+  async (req: Request, res: Response) => {
+    let upload: BuildUpload;
+    try {
+      upload = await parseBuildUpload(Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0), req.get('content-type'));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid upload.' });
+      return;
+    }
+
+    const defaults = profiles.values().next().value?.config() ?? sharedConfig;
+    if (!upload.targetId && !defaults.targetId) {
+      res.status(400).json({ error: 'Choose a target ID for the uploaded build.' });
+      return;
+    }
+
+    try {
+      res.json(await analyzeUploadedBuild(upload, defaults));
+    } catch (error) {
+      console.warn(
+        `[viewer-server] Uploaded build ${upload.elf.name}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown analysis failure.' });
+    }
+  },
+);
+
+app.use('/api/profiles/:profileId', profileRouter);
+app.use('/api', profileRouter);
+
 app.use((_req: Request, res: Response) => {
   res.status(404).json({ error: 'Not found' });
 });
 
-const port = DEFAULT_PORT;
+const start = async (): Promise<void> => {
+  const loaded = await loadServerConfig(process.argv.slice(2), process.env);
+  if (!loaded) {
+    process.stdout.write(SERVER_USAGE);
+    process.exit(0);
+  }
+
+  sharedConfig = loaded.sharedConfig;
+  configFilePath = loaded.configFilePath;
+  port = loaded.port;
+  historyDir = loaded.historyDir;
+  historyLimit = loaded.historyLimit;
+  for (const { id, config } of loaded.profiles) {
+    profiles.set(id, await openBuildProfile({ id, config, historyDir, historyLimit, listener: profileListener }));
+  }
+
+  server.listen(port, () => {
+    console.log(`[viewer-server] Listening on http://localhost:${port}`);
+    console.log(`[viewer-server] Config file: ${configFilePath}`);
+    console.log(`[viewer-server] Profiles: ${[...profiles.keys()].join(', ')}`);
+    console.log(`[viewer-server] History: ${historyDir} (last ${historyLimit} runs per profile)`);
+  });
+};
 
-server.listen(port, () => {
-  console.log(`[viewer-server] Listening on http://localhost:${port}`);
+start().catch((error: unknown) => {
+  console.error(`[viewer-server] ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(2);
 });
 
 const shutdown = (): void => {
   console.log('[viewer-server] Shutting down');
-  sockets.forEach((socket) => socket.close());
+  profiles.forEach((profile) => profile.close());
+  sockets.forEach((_subscription, socket) => socket.close());
   wss.close();
   server.close(() => {
     process.exit(0);
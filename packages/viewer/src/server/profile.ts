@@ -0,0 +1,289 @@
+import path from 'path';
+import {
+  analyzeBuild,
+  calculateTeensySizeReport,
+  generateSummaries,
+  type AnalyzeBuildParams,
+  type Analysis,
+  type Summaries,
+  type TeensySizeReportSummary,
+} from '@analyzer';
+import type { BuildProfileSummary, RunProgress, ServerConfig, ServerStatusPayload } from '../shared/protocol';
+import { openAnalysisHistory, type AnalysisHistory } from './history';
+import { createRunQueue } from './run-queue';
+import { createBuildWatcher, type BuildWatcher } from './watcher';
+
+// Runs a viewer may still hold, newest first, kept so the next run can be sent to it as a delta.
+const RECENT_ANALYSIS_LIMIT = 4;
+
+export interface CompletedAnalysis {
+  analysis: Analysis;
+  summaries: Summaries;
+  report?: TeensySizeReportSummary;
+  generatedAt: string;
+}
+
+/**
+ * Analyzes a build and derives the summaries and `teensy_size` report viewers are sent, reporting each
+ * phase of the analyzer and then `summaries` to `onProgress`.
+ */
+export const completeAnalysis = async (
+  params: Omit<AnalyzeBuildParams, 'onProgress'>,
+  onProgress?: (progress: RunProgress) => void,
+): Promise<CompletedAnalysis> => {
+  let totalSteps = 1;
+  const analysis = await analyzeBuild({
+    ...params,
+    onProgress: (progress) => {
+      totalSteps = progress.totalSteps + 1;
+      onProgress?.({ ...progress, totalSteps });
+    },
+  });
+  if (params.signal?.aborted) {
+    throw new Error('Analysis cancelled.');
+  }
+  onProgress?.({ phase: 'summaries', step: totalSteps, totalSteps });
+  const summaries = generateSummaries(analysis);
+  const report = calculateTeensySizeReport(analysis, { summaries });
+  return {
+    analysis,
+    summaries,
+    report,
+    generatedAt: new Date().toISOString(),
+  };
+};
+
+/** How a profile tells the server what to send its viewers. */
+export interface BuildProfileListener {
+  status: (profile: BuildProfile) => void;
+  analysis: (profile: BuildProfile) => void;
+  /** The profile's config, history or bank usage changed. */
+  summary: (profile: BuildProfile) => void;
+}
+
+export interface BuildProfile {
+  id: string;
+  config: () => ServerConfig;
+  setConfig: (config: ServerConfig) => void;
+  status: () => ServerStatusPayload;
+  latest: () => CompletedAnalysis | null;
+  /** A recent run by its `generatedAt`, while it is still retained. */
+  retained: (generatedAt: string | undefined) => CompletedAnalysis | undefined;
+  history: AnalysisHistory;
+  /**
+   * Runs the analysis for the profile's config, broadcasting status, progress and the result. While a run
+   * is in progress one more is queued, which every request made in the meantime joins; it analyzes the
+   * config as it is when it starts. Resolves to the new analysis' `generatedAt`, or `null` when the run was
+   * cancelled; rejects with the failure, which is also broadcast as an error status.
+   */
+  run: () => Promise<string | null>;
+  /** Cancels the running and the queued run. Resolves once the running one has stopped; false if none ran. */
+  cancel: () => Promise<boolean>;
+  summary: () => BuildProfileSummary;
+  close: () => void;
+}
+
+export interface OpenBuildProfileOptions {
+  id: string;
+  config: ServerConfig;
+  /** Each profile keeps its history in a directory named after it below this one. */
+  historyDir: string;
+  historyLimit: number;
+  listener: BuildProfileListener;
+}
+
+const watchedPathsKey = (config: ServerConfig): string =>
+  JSON.stringify([config.autoRun ?? false, config.elfPath, config.mapPath, config.debounceMs]);
+
+/**
+ * Opens a build profile: its history, the last run stored there and, with `autoRun`, a watcher on its
+ * ELF and map files.
+ */
+export const openBuildProfile = async ({
+  id,
+  config: initialConfig,
+  historyDir,
+  historyLimit,
+  listener,
+}: OpenBuildProfileOptions): Promise<BuildProfile> => {
+  const history = await openAnalysisHistory(path.join(historyDir, id), historyLimit);
+  const log = (message: string) => `[viewer-server] ${id}: ${message}`;
+
+  let config = initialConfig;
+  let currentStatus: ServerStatusPayload = { state: 'idle' };
+  let lastAnalysis: CompletedAnalysis | null = null;
+  let recentAnalyses: CompletedAnalysis[] = [];
+  let watcher: BuildWatcher | null = null;
+
+  const setStatus = (status: ServerStatusPayload): void => {
+    currentStatus = runs.isQueued() ? { ...status, queued: true } : status;
+    listener.status(profile);
+  };
+
+  const rememberAnalysis = (completed: CompletedAnalysis): void => {
+    lastAnalysis = completed;
+    recentAnalyses = [completed, ...recentAnalyses].slice(0, RECENT_ANALYSIS_LIMIT);
+  };
+
+  // A run that cannot be stored still counts: the viewer already has it, only the history misses it.
+  const recordInHistory = async (completed: CompletedAnalysis, runConfig: ServerConfig): Promise<void> => {
+    try {
+      await history.add(completed, runConfig);
+    } catch (error) {
+      console.warn(log(`Unable to store analysis: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  };
+
+  const execute = async (signal: AbortSignal): Promise<string> => {
+    const runConfig = { ...config };
+    if (!runConfig.targetId || !runConfig.elfPath) {
+      throw new Error('Configuration must specify targetId and elfPath before running analysis.');
+    }
+
+    const startTime = new Date().toISOString();
+    const runningStatus: ServerStatusPayload = {
+      state: 'running',
+      lastRunStartedAt: startTime,
+    };
+    setStatus(runningStatus);
+
+    const params: AnalyzeBuildParams = {
+      targetId: runConfig.targetId,
+      elfPath: runConfig.elfPath,
+      mapPath: runConfig.mapPath,
+      hexPath: runConfig.hexPath,
+      toolchainDir: runConfig.toolchainDir,
+      toolchainPrefix: runConfig.toolchainPrefix,
+      signal,
+    };
+
+    try {
+      const completed = await completeAnalysis(params, (progress) => setStatus({ ...runningStatus, progress }));
+      const { generatedAt } = completed;
+      rememberAnalysis(completed);
+
+      setStatus({
+        state: watcher ? 'watching' : 'idle',
+        lastRunStartedAt: startTime,
+        lastRunCompletedAt: generatedAt,
+      });
+      listener.analysis(profile);
+      await recordInHistory(completed, runConfig);
+      listener.summary(profile);
+      return generatedAt;
+    } catch (error) {
+      if (signal.aborted) {
+        setStatus({
+          state: watcher ? 'watching' : 'idle',
+          lastRunStartedAt: startTime,
+          lastRunCompletedAt: lastAnalysis?.generatedAt,
+          lastRunCancelledAt: new Date().toISOString(),
+        });
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown analysis failure.';
+      setStatus({
+        state: 'error',
+        lastRunStartedAt: startTime,
+        errorMessage: message,
+      });
+      throw new Error(message);
+    }
+  };
+
+  const runs = createRunQueue(execute);
+
+  const run = (): Promise<string | null> => {
+    const wasQueued = runs.isQueued();
+    const result = runs.run();
+    if (!wasQueued && runs.isQueued()) {
+      setStatus(currentStatus);
+    }
+    return result;
+  };
+
+  // A build that lands while an analysis is running is analyzed by the queued run.
+  const runWatchedAnalysis = (): void => {
+    run().catch((error: Error) => {
+      console.error(log(`Analysis after file change failed: ${error.message}`));
+    });
+  };
+
+  /** Replaces the file watcher to match `config`; without `autoRun` and an ELF path, nothing is watched. */
+  const restartWatcher = (): void => {
+    watcher?.close();
+    watcher = null;
+
+    if (config.autoRun && config.elfPath) {
+      const paths = [config.elfPath, config.mapPath].filter((entry): entry is string => Boolean(entry));
+      watcher = createBuildWatcher({
+        paths,
+        debounceMs: config.debounceMs ?? 1500,
+        onChange: (changedPaths) => {
+          console.log(log(`Changed: ${changedPaths.join(', ')}`));
+          runWatchedAnalysis();
+        },
+        onError: (error) => {
+          console.warn(log(`Watcher: ${error.message}`));
+        },
+      });
+      console.log(log(`Watching ${paths.join(', ')}`));
+    }
+
+    if (!runs.isRunning() && (currentStatus.state === 'idle' || currentStatus.state === 'watching')) {
+      setStatus({ ...currentStatus, state: watcher ? 'watching' : 'idle' });
+    }
+  };
+
+  const setConfig = (next: ServerConfig): void => {
+    const previousWatchKey = watchedPathsKey(config);
+    config = next;
+    listener.summary(profile);
+    if (watchedPathsKey(config) !== previousWatchKey) {
+      restartWatcher();
+    }
+  };
+
+  const summary = (): BuildProfileSummary => ({
+    id,
+    config,
+    status: currentStatus,
+    latestGeneratedAt: lastAnalysis?.generatedAt,
+    targetName: lastAnalysis?.analysis.target.name,
+    banks: (lastAnalysis?.summaries.hardwareBanks ?? []).map((bank) => ({
+      hardwareBankId: bank.hardwareBankId,
+      name: bank.name,
+      capacityBytes: bank.capacityBytes,
+      usedBytes: bank.adjustedUsedBytes,
+      freeBytes: bank.freeBytes,
+    })),
+    history: history.entries(),
+  });
+
+  const profile: BuildProfile = {
+    id,
+    config: () => config,
+    setConfig,
+    status: () => currentStatus,
+    latest: () => lastAnalysis,
+    retained: (generatedAt) => recentAnalyses.find((entry) => entry.generatedAt === generatedAt),
+    history,
+    run,
+    cancel: runs.cancel,
+    summary,
+    close: () => {
+      watcher?.close();
+      watcher = null;
+      void runs.cancel();
+    },
+  };
+
+  const [newest] = history.entries();
+  // Viewers connecting after a restart get the last run, as they would have before it.
+  const stored = newest ? await history.read(newest.id) : null;
+  if (stored) {
+    rememberAnalysis(stored);
+  }
+  restartWatcher();
+  return profile;
+};
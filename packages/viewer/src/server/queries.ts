@@ -0,0 +1,179 @@
+import { Router, type Request, type Response } from 'express';
+import {
+  createAddressResolver,
+  type AddressResolver,
+  type AddressUsageKind,
+  type Analysis,
+  type Summaries,
+} from '@analyzer';
+import { querySymbolSizes, resolveSymbolQueryFilters, type SymbolQueryFilterInput, type SymbolQueryRow } from '../treemap/query';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+const SYMBOL_SORTS = ['size', 'name', 'address'] as const;
+const ADDRESS_TYPES: readonly AddressUsageKind[] = ['exec', 'load', 'runtime'];
+
+type SymbolSort = (typeof SYMBOL_SORTS)[number];
+
+export interface QueryableAnalysis {
+  analysis: Analysis;
+  summaries: Summaries;
+  generatedAt: string;
+}
+
+type QueryValue = Request['query'][string];
+
+const queryString = (name: string, value: QueryValue): string | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`Query parameter '${name}' may only be given once.`);
+  }
+  return value;
+};
+
+// Both `?window=a&window=b` and `?window=a,b` select several values.
+const queryList = (value: QueryValue): string[] | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const values = (Array.isArray(value) ? value : [value])
+    .filter((entry): entry is string => typeof entry === 'string')
+    .flatMap((entry) => entry.split(','))
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+  return values.length > 0 ? values : undefined;
+};
+
+const queryInteger = (name: string, value: QueryValue, fallback: number, max = Number.MAX_SAFE_INTEGER): number => {
+  const raw = queryString(name, value);
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+  const parsed = Number(raw);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > max) {
+    throw new Error(`Query parameter '${name}' expects a whole number from 0 to ${max}, got '${raw}'.`);
+  }
+  return parsed;
+};
+
+const queryChoice = <T extends string>(name: string, value: QueryValue, choices: readonly T[]): T | undefined => {
+  const raw = queryString(name, value);
+  if (raw === undefined || raw === '') {
+    return undefined;
+  }
+  if (!choices.includes(raw as T)) {
+    throw new Error(`Query parameter '${name}' expects one of ${choices.join(', ')}, got '${raw}'.`);
+  }
+  return raw as T;
+};
+
+const queryAddress = (value: QueryValue): number => {
+  const raw = queryString('address', value);
+  const match = raw === undefined ? null : /^(?:0x)?([0-9a-f]{1,8})$/i.exec(raw.trim());
+  if (!match) {
+    throw new Error(`Query parameter 'address' expects a hex address, got '${raw ?? ''}'.`);
+  }
+  return Number.parseInt(match[1], 16);
+};
+
+const readFilterInput = (query: Request['query']): SymbolQueryFilterInput => ({
+  hardwareBanks: queryList(query.bank),
+  windows: queryList(query.window),
+  logicalBlocks: queryList(query.block),
+  sections: queryList(query.section),
+  symbolCategories: queryList(query.category),
+  symbolQuery: queryString('q', query.q),
+});
+
+const paginate = <T>(query: Request['query'], rows: T[]) => {
+  const offset = queryInteger('offset', query.offset, 0);
+  const limit = queryInteger('limit', query.limit, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  return { total: rows.length, offset, limit, rows: rows.slice(offset, offset + limit) };
+};
+
+const compareSymbolRows = (sort: SymbolSort) => (a: SymbolQueryRow, b: SymbolQueryRow): number => {
+  switch (sort) {
+    case 'name':
+      return a.label.localeCompare(b.label);
+    case 'address':
+      return (a.address ?? Number.MAX_SAFE_INTEGER) - (b.address ?? Number.MAX_SAFE_INTEGER);
+    case 'size':
+    default:
+      return b.sizeBytes - a.sizeBytes || a.label.localeCompare(b.label);
+  }
+};
+
+/**
+ * Read-only REST views of a profile's latest analysis, so scripts and editor plugins can ask for the rows they
+ * need instead of downloading the whole analysis. Symbol and template group filters accept the same
+ * ids or names as the treemap filters and the CLI `query` command.
+ */
+export const createQueryRouter = (getLatest: (res: Response) => QueryableAnalysis | null): Router => {
+  const router = Router({ mergeParams: true });
+  // The analysis object is replaced on every run, so a resolver never outlives the build it indexes.
+  const resolvers = new WeakMap<Analysis, AddressResolver>();
+
+  const handle = (
+    respond: (latest: QueryableAnalysis, req: Request) => Record<string, unknown>,
+  ) => (req: Request, res: Response): void => {
+    const latest = getLatest(res);
+    if (!latest) {
+      res.status(404).json({ error: 'No analysis has been run yet.' });
+      return;
+    }
+    try {
+      res.json({ generatedAt: latest.generatedAt, ...respond(latest, req) });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid query.' });
+    }
+  };
+
+  router.get('/symbols', handle(({ analysis }, req) => {
+    const filters = resolveSymbolQueryFilters(analysis, readFilterInput(req.query));
+    const minSize = queryInteger('minSize', req.query.minSize, 0);
+    const sort = queryChoice('sort', req.query.sort, SYMBOL_SORTS) ?? 'size';
+    const rows = querySymbolSizes(analysis, filters, 'symbols', Number.POSITIVE_INFINITY)
+      .filter((row) => row.sizeBytes >= minSize)
+      .sort(compareSymbolRows(sort));
+    const { rows: symbols, ...page } = paginate(req.query, rows);
+    return { ...page, symbols };
+  }));
+
+  router.get('/sections', handle(({ analysis }) => ({ sections: analysis.sections })));
+
+  router.get('/template-groups', handle(({ analysis }, req) => {
+    const filters = resolveSymbolQueryFilters(analysis, readFilterInput(req.query));
+    const groupById = new Map(analysis.templateGroups.map((group) => [group.id, group] as const));
+    const rows = querySymbolSizes(analysis, filters, 'templates', Number.POSITIVE_INFINITY).map((row) => {
+      const group = groupById.get(row.id);
+      return {
+        id: row.id,
+        displayName: row.label,
+        sizeBytes: row.sizeBytes,
+        symbolCount: row.symbolCount,
+        specializationCount: group?.totals.specializationCount ?? 0,
+        totals: group?.totals,
+      };
+    });
+    const { rows: templateGroups, ...page } = paginate(req.query, rows);
+    return { ...page, templateGroups };
+  }));
+
+  // An address outside every configured window resolves to `result: null`, as `lookup` prints it unresolved.
+  router.get('/resolve', handle(({ analysis }, req) => {
+    const address = queryAddress(req.query.address);
+    const addressType = queryChoice('type', req.query.type, ADDRESS_TYPES);
+    let resolver = resolvers.get(analysis);
+    if (!resolver) {
+      resolver = createAddressResolver(analysis);
+      resolvers.set(analysis, resolver);
+    }
+    return { address, result: resolver.resolve(address, { addressType }) };
+  }));
+
+  router.get('/summaries/banks', handle(({ summaries }) => ({ banks: summaries.hardwareBanks })));
+
+  return router;
+};
@@ -0,0 +1,85 @@
+/**
+ * Runs one task at a time. A run requested while one is in progress is queued, and every request made
+ * until it starts joins it, so bursts of requests collapse into a single extra run.
+ */
+export interface RunQueue<T> {
+  /** Starts a run, or joins the queued one. Resolves to `null` when the run was cancelled. */
+  run: () => Promise<T | null>;
+  /** Cancels the running and the queued run. Resolves once the running one has stopped; false if none ran. */
+  cancel: () => Promise<boolean>;
+  isRunning: () => boolean;
+  isQueued: () => boolean;
+}
+
+interface QueuedRun<T> {
+  promise: Promise<T | null>;
+  start: () => void;
+  cancel: () => void;
+}
+
+/**
+ * `execute` gets a signal that is aborted on cancellation; once it is, whatever the run resolves or
+ * rejects with, requesters get `null`.
+ */
+export const createRunQueue = <T>(execute: (signal: AbortSignal) => Promise<T>): RunQueue<T> => {
+  let active: { controller: AbortController; promise: Promise<T | null> } | null = null;
+  let queued: QueuedRun<T> | null = null;
+
+  // Once a run finishes, however it ends, the queued run takes its place.
+  const start = (): Promise<T | null> => {
+    const controller = new AbortController();
+    const promise = execute(controller.signal)
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) {
+          return null;
+        }
+        throw error;
+      })
+      .then((result) => (controller.signal.aborted ? null : result))
+      .finally(() => {
+        active = null;
+        const next = queued;
+        queued = null;
+        next?.start();
+      });
+    active = { controller, promise };
+    return promise;
+  };
+
+  const run = (): Promise<T | null> => {
+    if (!active) {
+      return start();
+    }
+    if (!queued) {
+      let startQueued = (): void => undefined;
+      let cancelQueued = (): void => undefined;
+      const promise = new Promise<T | null>((resolve, reject) => {
+        startQueued = () => {
+          start().then(resolve, reject);
+        };
+        cancelQueued = () => resolve(null);
+      });
+      queued = { promise, start: startQueued, cancel: cancelQueued };
+    }
+    return queued.promise;
+  };
+
+  const cancel = async (): Promise<boolean> => {
+    const cancelled = active;
+    if (!cancelled) {
+      return false;
+    }
+    queued?.cancel();
+    queued = null;
+    cancelled.controller.abort();
+    await cancelled.promise.catch(() => undefined);
+    return true;
+  };
+
+  return {
+    run,
+    cancel,
+    isRunning: () => active !== null,
+    isQueued: () => queued !== null,
+  };
+};
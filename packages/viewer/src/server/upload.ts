@@ -0,0 +1,117 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { AnalysisBroadcastPayload, ServerConfig } from '../shared/protocol';
+import { completeAnalysis } from './profile';
+
+/** Firmware ELFs with full debug info run to tens of megabytes; anything far beyond that is not a build. */
+export const MAX_UPLOAD_BYTES = 256 * 1024 * 1024;
+
+// Target IDs name a memory-map file in the config directory, so they must not carry path separators.
+const TARGET_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** An uploaded file; `Blob` rather than `File`, which Node 18 lacks as a global. */
+export interface UploadedFile {
+  name: string;
+  content: Blob;
+}
+
+export interface BuildUpload {
+  elf: UploadedFile;
+  map?: UploadedFile;
+  targetId?: string;
+}
+
+// Multipart file fields come back as `File`, which extends `Blob`; text fields come back as strings.
+const uploadedFile = (value: FormDataEntryValue | null): UploadedFile | undefined =>
+  value !== null && typeof value !== 'string' && value.size > 0 ? { name: value.name, content: value } : undefined;
+
+/**
+ * Reads a `multipart/form-data` body with an `elf` file, an optional `map` file and an optional
+ * `targetId` field. Throws with a message for the client when the body does not have that shape.
+ */
+export const parseBuildUpload = async (body: Buffer, contentType: string | undefined): Promise<BuildUpload> => {
+  if (!contentType?.startsWith('multipart/form-data')) {
+    throw new Error('Upload the build as multipart/form-data.');
+  }
+
+  let form: FormData;
+  try {
+    form = await new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'content-type': contentType },
+      body: new Uint8Array(body),
+    }).formData();
+  } catch (error) {
+    throw new Error(`Unable to read the upload: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const elf = form.get('elf');
+  const map = form.get('map');
+  const targetId = form.get('targetId');
+  const elfFile = uploadedFile(elf);
+  if (!elfFile) {
+    throw new Error('The upload must include the firmware as an "elf" file.');
+  }
+  if (typeof map === 'string') {
+    throw new Error('"map" must be a file.');
+  }
+  if (targetId !== null && typeof targetId !== 'string') {
+    throw new Error('"targetId" must be a text field.');
+  }
+  const trimmedTargetId = targetId?.trim() || undefined;
+  if (trimmedTargetId !== undefined && !TARGET_ID_PATTERN.test(trimmedTargetId)) {
+    throw new Error('"targetId" may only contain letters, digits, "-" and "_".');
+  }
+
+  return {
+    elf: elfFile,
+    map: uploadedFile(map),
+    targetId: trimmedTargetId,
+  };
+};
+
+// Fixed names, so neither a crafted nor a shared client file name decides where the upload is written.
+const writeUploadedFile = async (directory: string, file: UploadedFile, fileName: string): Promise<string> => {
+  const filePath = path.join(directory, fileName);
+  await writeFile(filePath, Buffer.from(await file.content.arrayBuffer()));
+  return filePath;
+};
+
+const displayName = (file: UploadedFile, fallbackName: string): string => path.basename(file.name) || fallbackName;
+
+/**
+ * Analyzes an uploaded build in a temporary workspace that is removed again afterwards. Without a
+ * `targetId` in the upload, and for the toolchain, `defaults` apply. The result names the uploaded
+ * files rather than their temporary copies.
+ */
+export const analyzeUploadedBuild = async (
+  upload: BuildUpload,
+  defaults: ServerConfig,
+): Promise<AnalysisBroadcastPayload> => {
+  const targetId = upload.targetId ?? defaults.targetId;
+  if (!targetId) {
+    throw new Error('Choose a target ID for the uploaded build.');
+  }
+
+  const workspace = await mkdtemp(path.join(os.tmpdir(), 'teensymem-upload-'));
+  try {
+    const elfPath = await writeUploadedFile(workspace, upload.elf, 'firmware.elf');
+    const mapPath = upload.map ? await writeUploadedFile(workspace, upload.map, 'firmware.map') : undefined;
+    const completed = await completeAnalysis({
+      targetId,
+      elfPath,
+      mapPath,
+      toolchainDir: defaults.toolchainDir,
+      toolchainPrefix: defaults.toolchainPrefix,
+    });
+    completed.analysis.build = {
+      ...completed.analysis.build,
+      elfPath: displayName(upload.elf, 'firmware.elf'),
+      mapPath: upload.map && displayName(upload.map, 'firmware.map'),
+    };
+    return completed;
+  } finally {
+    await rm(workspace, { recursive: true, force: true });
+  }
+};
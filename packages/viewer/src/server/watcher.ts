@@ -0,0 +1,123 @@
+import { watch, type FSWatcher } from 'fs';
+import { stat } from 'fs/promises';
+import path from 'path';
+
+export interface BuildWatcherOptions {
+  /** Files to watch; a change to any of them triggers `onChange` once they have all settled. */
+  paths: string[];
+  debounceMs: number;
+  /** Interval between the size/mtime checks that decide whether the linker has finished writing. */
+  settleMs?: number;
+  onChange: (changedPaths: string[]) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface BuildWatcher {
+  close: () => void;
+}
+
+const DEFAULT_SETTLE_MS = 250;
+const MAX_SETTLE_CHECKS = 120;
+
+const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+// `null` while the file is missing, which is normal mid-link: ld removes the old output before writing it.
+const readSignature = async (filePath: string): Promise<string | null> => {
+  try {
+    const stats = await stat(filePath);
+    return `${stats.size}:${stats.mtimeMs}`;
+  } catch {
+    return null;
+  }
+};
+
+const readSignatures = async (filePaths: string[]): Promise<Array<string | null>> =>
+  Promise.all(filePaths.map(readSignature));
+
+/**
+ * Watches build outputs for changes. The containing directories are watched rather than the files
+ * themselves, because linkers replace their output and a watch on the old inode would go quiet.
+ * Events are debounced by `debounceMs`; after that, the changed files must exist and keep the same
+ * size and mtime across two checks `settleMs` apart before `onChange` fires.
+ */
+export const createBuildWatcher = (options: BuildWatcherOptions): BuildWatcher => {
+  const settleMs = options.settleMs ?? DEFAULT_SETTLE_MS;
+  const watchedPaths = new Set(options.paths.map((filePath) => path.resolve(filePath)));
+  const pathsByDirectory = new Map<string, string[]>();
+  watchedPaths.forEach((filePath) => {
+    const directory = path.dirname(filePath);
+    pathsByDirectory.set(directory, [...(pathsByDirectory.get(directory) ?? []), filePath]);
+  });
+
+  const pending = new Set<string>();
+  let debounceTimer: NodeJS.Timeout | null = null;
+  let generation = 0;
+  let closed = false;
+
+  const reportError = (error: unknown) => {
+    options.onError?.(error instanceof Error ? error : new Error(String(error)));
+  };
+
+  const settleAndNotify = async (changedPaths: string[], settleGeneration: number) => {
+    const isStale = () => closed || settleGeneration !== generation;
+    let previous = await readSignatures(changedPaths);
+    for (let check = 0; check < MAX_SETTLE_CHECKS; check += 1) {
+      await delay(settleMs);
+      if (isStale()) {
+        return;
+      }
+      const current = await readSignatures(changedPaths);
+      const settled = current.every((signature, index) => signature !== null && signature === previous[index]);
+      if (settled) {
+        options.onChange(changedPaths);
+        return;
+      }
+      previous = current;
+    }
+    reportError(new Error(`Gave up waiting for ${changedPaths.join(', ')} to finish writing.`));
+  };
+
+  const schedule = (filePaths: string[]) => {
+    filePaths.forEach((filePath) => pending.add(filePath));
+    generation += 1;
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      const changedPaths = Array.from(pending);
+      pending.clear();
+      settleAndNotify(changedPaths, generation).catch(reportError);
+    }, options.debounceMs);
+  };
+
+  const fsWatchers: FSWatcher[] = [];
+  pathsByDirectory.forEach((filePaths, directory) => {
+    try {
+      const fsWatcher = watch(directory, (_eventType, fileName) => {
+        // Some platforms omit the name; treat that as a possible change to every file in the directory.
+        const changed = fileName
+          ? filePaths.filter((filePath) => path.basename(filePath) === fileName.toString())
+          : filePaths;
+        if (changed.length > 0) {
+          schedule(changed);
+        }
+      });
+      fsWatcher.on('error', reportError);
+      fsWatchers.push(fsWatcher);
+    } catch (error) {
+      reportError(new Error(`Unable to watch ${directory}: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  });
+
+  return {
+    close: () => {
+      closed = true;
+      if (debounceTimer) {
+        clearTimeout(debounceTimer);
+        debounceTimer = null;
+      }
+      fsWatchers.forEach((fsWatcher) => fsWatcher.close());
+    },
+  };
+};
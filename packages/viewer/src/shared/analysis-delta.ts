@@ -0,0 +1,96 @@
+import type { Analysis, Section, Summaries, Symbol as AnalyzerSymbol } from '@analyzer';
+import type { AnalysisBroadcastPayload, AnalysisDeltaPayload, ArrayDelta, RecordDelta } from './protocol';
+
+/** Bumped whenever the shape of `AnalysisDeltaPayload` changes; clients resync on a version they do not know. */
+export const ANALYSIS_DELTA_VERSION = 1;
+
+type AnalysisFields = Omit<Analysis, 'symbols' | 'sections'>;
+
+const sameJson = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const diffArray = <T>(base: T[], next: T[]): ArrayDelta<T> => {
+  const changed: Array<[number, T]> = [];
+  next.forEach((value, index) => {
+    if (index >= base.length || !sameJson(base[index], value)) {
+      changed.push([index, value]);
+    }
+  });
+  return { length: next.length, changed };
+};
+
+const applyArrayDelta = <T>(base: T[], delta: ArrayDelta<T>): T[] => {
+  const next = base.slice(0, delta.length);
+  delta.changed.forEach(([index, value]) => {
+    next[index] = value;
+  });
+  return next;
+};
+
+// A key set to `undefined` is dropped by JSON on the way to the client, so it counts as removed.
+const diffRecord = <T extends object>(base: T, next: T): RecordDelta<T> => {
+  const changed: Partial<T> = {};
+  (Object.keys(next) as Array<keyof T>).forEach((key) => {
+    if (next[key] !== undefined && !sameJson(base[key], next[key])) {
+      changed[key] = next[key];
+    }
+  });
+  const removed = (Object.keys(base) as Array<keyof T>)
+    .filter((key) => base[key] !== undefined && next[key] === undefined)
+    .map(String);
+  return { changed, removed };
+};
+
+const applyRecordDelta = <T extends object>(base: T, delta: RecordDelta<T>): T => {
+  const next = { ...base, ...delta.changed };
+  delta.removed.forEach((key) => {
+    delete (next as Record<string, unknown>)[key];
+  });
+  return next;
+};
+
+/**
+ * Describes `next` as changes to `base`: symbols and sections by array position, the remaining analysis
+ * and summary fields by top-level key. The report is small and always sent whole.
+ */
+export const createAnalysisDelta = (
+  base: AnalysisBroadcastPayload,
+  next: AnalysisBroadcastPayload,
+): AnalysisDeltaPayload => {
+  const { symbols: baseSymbols, sections: baseSections, ...baseFields } = base.analysis;
+  const { symbols, sections, ...fields } = next.analysis;
+  return {
+    version: ANALYSIS_DELTA_VERSION,
+    baseGeneratedAt: base.generatedAt,
+    generatedAt: next.generatedAt,
+    symbols: diffArray<AnalyzerSymbol>(baseSymbols, symbols),
+    sections: diffArray<Section>(baseSections, sections),
+    analysis: diffRecord<AnalysisFields>(baseFields, fields),
+    summaries: diffRecord<Summaries>(base.summaries, next.summaries),
+    report: next.report,
+  };
+};
+
+/** Rebuilds the payload `delta` was created from; `base` must be the run it names as `baseGeneratedAt`. */
+export const applyAnalysisDelta = (
+  base: AnalysisBroadcastPayload,
+  delta: AnalysisDeltaPayload,
+): AnalysisBroadcastPayload => {
+  if (delta.version !== ANALYSIS_DELTA_VERSION) {
+    throw new Error(`Unsupported analysis delta version ${delta.version}.`);
+  }
+  if (delta.baseGeneratedAt !== base.generatedAt) {
+    throw new Error(`Analysis delta is based on ${delta.baseGeneratedAt}, not ${base.generatedAt}.`);
+  }
+
+  const { symbols, sections, ...fields } = base.analysis;
+  return {
+    analysis: {
+      ...applyRecordDelta<AnalysisFields>(fields, delta.analysis),
+      symbols: applyArrayDelta(symbols, delta.symbols),
+      sections: applyArrayDelta(sections, delta.sections),
+    },
+    summaries: applyRecordDelta(base.summaries, delta.summaries),
+    report: delta.report,
+    generatedAt: delta.generatedAt,
+  };
+};
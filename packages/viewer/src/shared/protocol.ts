@@ -1,30 +1,49 @@
 import type {
   Analysis,
+  AnalysisPhase,
+  Section,
   Summaries,
+  Symbol as AnalyzerSymbol,
   TeensySizeReportSummary,
 } from '@analyzer';
 
 export type ServerLifecycleState = 'idle' | 'watching' | 'running' | 'error';
 
+/** The analyzer's phases followed by the server deriving summaries and the `teensy_size` report. */
+export type RunPhase = AnalysisPhase | 'summaries';
+
+export interface RunProgress {
+  phase: RunPhase;
+  /** Counts from 1 up to `totalSteps`. */
+  step: number;
+  totalSteps: number;
+}
+
 export interface ServerStatusPayload {
   state: ServerLifecycleState;
   lastRunStartedAt?: string;
   lastRunCompletedAt?: string;
+  /** Set when the last run was cancelled rather than completed or failed. */
+  lastRunCancelledAt?: string;
   errorMessage?: string;
+  /** The phase a `running` analysis is in. */
+  progress?: RunProgress;
+  /** Another run will start once the current one finishes; further requests join it. */
+  queued?: boolean;
 }
 
 export interface HealthResponse {
   status: 'ok';
   version: string;
   port: number;
-  state: ServerStatusPayload;
-  latestAnalysisGeneratedAt?: string;
+  profiles: Array<Pick<BuildProfileSummary, 'id' | 'status' | 'latestGeneratedAt'>>;
 }
 
 export interface ServerConfig {
   targetId?: string;
   elfPath?: string;
   mapPath?: string;
+  hexPath?: string;
   toolchainDir?: string;
   toolchainPrefix?: string;
   debounceMs?: number;
@@ -38,8 +57,83 @@ export interface AnalysisBroadcastPayload {
   generatedAt: string;
 }
 
+/** Array changes by position: the new length plus every index whose value differs. */
+export interface ArrayDelta<T> {
+  length: number;
+  changed: Array<[number, T]>;
+}
+
+/** Object changes by top-level key. */
+export interface RecordDelta<T> {
+  changed: Partial<T>;
+  removed: string[];
+}
+
+/**
+ * The run `generatedAt` expressed as changes to the run `baseGeneratedAt`, which is the last one the
+ * client acknowledged. See `shared/analysis-delta.ts`.
+ */
+export interface AnalysisDeltaPayload {
+  version: number;
+  baseGeneratedAt: string;
+  generatedAt: string;
+  symbols: ArrayDelta<AnalyzerSymbol>;
+  sections: ArrayDelta<Section>;
+  analysis: RecordDelta<Omit<Analysis, 'symbols' | 'sections'>>;
+  summaries: RecordDelta<Summaries>;
+  report?: TeensySizeReportSummary;
+}
+
+/** A stored analysis run without the analysis itself; `GET /api/analyses/:id` returns the full payload. */
+export interface AnalysisHistoryEntry {
+  id: string;
+  generatedAt: string;
+  buildId?: string;
+  /** The server config the run used. */
+  config: ServerConfig;
+  targetName: string;
+  runtimeBytes: number;
+  loadImageBytes: number;
+}
+
+/** Bank usage of a profile's latest run, enough to compare profiles side by side. */
+export interface ProfileBankUsage {
+  hardwareBankId: string;
+  name: string;
+  capacityBytes: number;
+  usedBytes: number;
+  freeBytes: number;
+}
+
+/** Everything about a build profile except its analyses, which only subscribed viewers are sent. */
+export interface BuildProfileSummary {
+  id: string;
+  config: ServerConfig;
+  status: ServerStatusPayload;
+  latestGeneratedAt?: string;
+  targetName?: string;
+  banks: ProfileBankUsage[];
+  history: AnalysisHistoryEntry[];
+}
+
+/**
+ * `profile` is sent whenever a profile is added or its config, history or bank usage changes. Analyses
+ * only go to viewers subscribed to their profile.
+ */
 export type ServerMessage =
-  | { type: 'status'; payload: ServerStatusPayload }
-  | { type: 'hello'; payload: { message: string } }
-  | { type: 'config'; payload: ServerConfig }
-  | { type: 'analysis'; payload: AnalysisBroadcastPayload };
+  | { type: 'hello'; payload: { message: string; profiles: BuildProfileSummary[] } }
+  | { type: 'profile'; profileId: string; payload: BuildProfileSummary }
+  | { type: 'profile-removed'; profileId: string }
+  | { type: 'status'; profileId: string; payload: ServerStatusPayload }
+  | { type: 'analysis'; profileId: string; payload: AnalysisBroadcastPayload }
+  | { type: 'analysis-delta'; profileId: string; payload: AnalysisDeltaPayload };
+
+/**
+ * Sent by the viewer. `subscribe` picks the profile whose analyses it wants, naming the run of that
+ * profile it already holds, if any. `ack` names the run it now holds, so the next run can be sent as a
+ * delta against it; `resync` asks for the latest run in full after a delta could not be applied.
+ */
+export type ClientMessage =
+  | { type: 'subscribe'; profileId: string; since?: string }
+  | { type: 'ack'; profileId: string; generatedAt: string }
+  | { type: 'resync'; profileId: string };
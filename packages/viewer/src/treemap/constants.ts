@@ -2,5 +2,11 @@ export const UNKNOWN_HARDWARE_BANK_ID = '__unknown_hardware_bank__';
 export const UNKNOWN_WINDOW_ID = '__unknown_window__';
 export const UNKNOWN_BLOCK_ID = '__unknown_block__';
 export const UNKNOWN_SECTION_ID = '__unknown_section__';
+export const UNCLASSIFIED_SYMBOL_CATEGORY_ID = '__unclassified_symbol__';
 
 export const GLOBAL_SCOPE_LABEL = '(global namespace)';
+
+export const LOOSE_OBJECTS_ARCHIVE_LABEL = '(object files outside archives)';
+export const UNATTRIBUTED_ARCHIVE_LABEL = '(unattributed)';
+export const UNATTRIBUTED_OBJECT_LABEL = '(no object file in linker map)';
+export const UNATTRIBUTED_COMPILE_UNIT_LABEL = '(no compile unit in debug info)';
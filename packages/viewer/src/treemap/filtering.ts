@@ -1,8 +1,11 @@
+import type { SymbolCategory } from '@analyzer';
+import { SYMBOL_CATEGORY_LABELS } from '@analyzer/analysis/symbol-classification';
 import type { TreemapSymbolFilters } from './types';
 import {
     GLOBAL_SCOPE_LABEL,
     UNKNOWN_BLOCK_ID,
     UNKNOWN_HARDWARE_BANK_ID,
+    UNCLASSIFIED_SYMBOL_CATEGORY_ID,
     UNKNOWN_SECTION_ID,
     UNKNOWN_WINDOW_ID,
 } from './constants';
@@ -52,6 +55,7 @@ export interface SymbolFilterAttributes {
     windowId: string;
     blockId: string;
     sectionId: string;
+    symbolCategoryId: string;
 }
 
 export const symbolPassesFilters = (
@@ -68,6 +72,7 @@ export const symbolPassesFilters = (
         && includes(filters.windows, attributes.windowId)
         && includes(filters.logicalBlocks, attributes.blockId)
         && includes(filters.sections, attributes.sectionId)
+        && includes(filters.symbolCategories, attributes.symbolCategoryId)
     )) {
         return false;
     }
@@ -90,6 +95,9 @@ export const coerceBlockId = (value: string | undefined | null): string => value
 
 export const coerceSectionId = (value: string | undefined | null): string => value ?? UNKNOWN_SECTION_ID;
 
+export const coerceSymbolCategoryId = (value: SymbolCategory | undefined | null): string =>
+    value ?? UNCLASSIFIED_SYMBOL_CATEGORY_ID;
+
 export const resolveSymbolLabel = (symbolName: string | undefined, symbolId: string): string =>
     symbolName && symbolName.length > 0 ? symbolName : `Symbol ${symbolId}`;
 
@@ -131,6 +139,9 @@ export const resolveHardwareBankLabel = (hardwareBankId: string, hardwareBankNam
     return isUnknownHardwareBankId(hardwareBankId) ? 'Unassigned hardware bank' : hardwareBankId;
 };
 
+export const resolveSymbolCategoryLabel = (symbolCategoryId: string): string =>
+    SYMBOL_CATEGORY_LABELS[symbolCategoryId as SymbolCategory] ?? 'Ordinary symbols';
+
 export const hasActiveFilters = (filters: TreemapSymbolFilters | undefined): boolean => {
     if (!filters) {
         return false;
@@ -140,7 +151,15 @@ export const hasActiveFilters = (filters: TreemapSymbolFilters | undefined): boo
         || Boolean(filters.windows?.size)
         || Boolean(filters.logicalBlocks?.size)
         || Boolean(filters.sections?.size)
+        || Boolean(filters.symbolCategories?.size)
         || Boolean(filters.symbolQueryTokens?.length);
 };
 
-export { GLOBAL_SCOPE_LABEL, UNKNOWN_BLOCK_ID, UNKNOWN_HARDWARE_BANK_ID, UNKNOWN_SECTION_ID, UNKNOWN_WINDOW_ID };
+export {
+    GLOBAL_SCOPE_LABEL,
+    UNCLASSIFIED_SYMBOL_CATEGORY_ID,
+    UNKNOWN_BLOCK_ID,
+    UNKNOWN_HARDWARE_BANK_ID,
+    UNKNOWN_SECTION_ID,
+    UNKNOWN_WINDOW_ID,
+};
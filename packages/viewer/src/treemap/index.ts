@@ -3,3 +3,5 @@ export * from './memoryTreemap';
 export * from './layout';
 export * from './scopeTreemap';
 export * from './filtering';
+export * from './objectFileTreemap';
+export * from './query';
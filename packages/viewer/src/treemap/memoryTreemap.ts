@@ -5,11 +5,13 @@ import type {
     LogicalBlock,
     Section,
     Symbol,
+    Symbol as AnalyzerSymbol,
 } from '@analyzer';
 import type { TreemapNode, TreemapTree, TreemapSymbolFilters } from './types';
 import {
     coerceBlockId,
     coerceSectionId,
+    coerceSymbolCategoryId,
     coerceWindowId,
     isUnknownBlockId,
     isUnknownHardwareBankId,
@@ -24,7 +26,7 @@ import {
     UNKNOWN_HARDWARE_BANK_ID,
 } from './filtering';
 
-export type MemoryTreemapNodeKind = 'root' | 'window' | 'block' | 'section' | 'symbol' | 'unused';
+export type MemoryTreemapNodeKind = 'root' | 'window' | 'block' | 'section' | 'symbol' | 'unattributed' | 'unused';
 
 export interface MemoryTreemapRootMeta {
     nodeKind: 'root';
@@ -85,6 +87,15 @@ export interface MemoryTreemapSymbolMeta {
     hardwareBankName?: string;
 }
 
+export interface MemoryTreemapUnattributedMeta {
+    nodeKind: 'unattributed';
+    sectionId: string;
+    sectionName: string;
+    sectionSize: number;
+    attributedBytes: number;
+    unattributedBytes: number;
+}
+
 export interface MemoryTreemapUnusedMeta {
     nodeKind: 'unused';
     windowId: string;
@@ -100,6 +111,7 @@ export type MemoryTreemapNodeMeta =
     | MemoryTreemapBlockMeta
     | MemoryTreemapSectionMeta
     | MemoryTreemapSymbolMeta
+    | MemoryTreemapUnattributedMeta
     | MemoryTreemapUnusedMeta;
 
 export type MemoryTreemapNode = TreemapNode<MemoryTreemapNodeKind, MemoryTreemapNodeMeta>;
@@ -115,8 +127,17 @@ interface AccumulatorNode {
     children: Map<string, AccumulatorNode>;
 }
 
+interface SectionCoverage {
+    section: Section;
+    ancestors: AccumulatorNode[];
+    node: AccumulatorNode;
+    symbols: AnalyzerSymbol[];
+}
+
 const NUMBER_FORMATTER = new Intl.NumberFormat();
 
+const UNATTRIBUTED_LABEL = '(unattributed)';
+
 const normalizeSize = (value: number | undefined): number => {
     if (!Number.isFinite(value)) {
         return 0;
@@ -183,6 +204,24 @@ const finalizeNode = (node: AccumulatorNode): MemoryTreemapNode => {
     } satisfies MemoryTreemapNode;
 };
 
+// Overlapping symbols (aliases, labels inside functions) are counted once.
+const measureCoverage = (section: Section, symbols: AnalyzerSymbol[]): number => {
+    const sectionEnd = section.vmaStart + section.size;
+    let covered = 0;
+    let cursor = section.vmaStart;
+    [...symbols]
+        .sort((a, b) => a.addr - b.addr)
+        .forEach((symbol) => {
+            const start = Math.max(symbol.addr, cursor);
+            const end = Math.min(symbol.addr + symbol.size, sectionEnd);
+            if (end > start) {
+                covered += end - start;
+                cursor = end;
+            }
+        });
+    return covered;
+};
+
 const describeUnknown = (label: string, count: number): string => {
     if (count === 0) {
         return label;
@@ -238,6 +277,8 @@ export const buildMemoryTreemap = (
         },
     );
 
+    const coverageBySectionKey = new Map<string, SectionCoverage>();
+
     analysis.symbols.forEach((symbol) => {
         const symbolSize = normalizeSize(symbol.size);
         if (symbolSize <= 0) {
@@ -258,6 +299,7 @@ export const buildMemoryTreemap = (
                 windowId,
                 blockId,
                 sectionId,
+                symbolCategoryId: coerceSymbolCategoryId(symbol.category),
             },
             symbol.name ?? symbol.nameMangled ?? symbol.id,
         )) {
@@ -332,6 +374,21 @@ export const buildMemoryTreemap = (
         ));
         incrementNode(sectionNode, symbolSize);
 
+        if (sectionConfig) {
+            const coverageKey = `${windowId}:${blockId}:${sectionId}`;
+            const coverage = coverageBySectionKey.get(coverageKey);
+            if (coverage) {
+                coverage.symbols.push(symbol);
+            } else {
+                coverageBySectionKey.set(coverageKey, {
+                    section: sectionConfig,
+                    ancestors: [root, windowNode, blockNode],
+                    node: sectionNode,
+                    symbols: [symbol],
+                });
+            }
+        }
+
         const symbolNode = ensureChild(sectionNode, `symbol:${symbol.id}`, () => {
             const label = resolveSymbolLabel(symbol.name, symbol.id);
             return createAccumulator(
@@ -361,6 +418,35 @@ export const buildMemoryTreemap = (
         symbolNode.symbolCount = 1;
     });
 
+    // A symbol query narrows the symbols shown, so the bytes outside them are no longer "unattributed".
+    if ((filters?.symbolQueryTokens ?? []).length === 0) {
+        coverageBySectionKey.forEach(({ section, ancestors, node, symbols }) => {
+            const attributedBytes = measureCoverage(section, symbols);
+            const unattributedBytes = section.size - attributedBytes;
+            if (unattributedBytes <= 0) {
+                return;
+            }
+            const unattributedNode = createAccumulator(
+                `${node.id}:unattributed`,
+                UNATTRIBUTED_LABEL,
+                'unattributed',
+                {
+                    nodeKind: 'unattributed',
+                    sectionId: section.id,
+                    sectionName: section.name,
+                    sectionSize: section.size,
+                    attributedBytes,
+                    unattributedBytes,
+                },
+            );
+            unattributedNode.value = unattributedBytes;
+            node.children.set('unattributed', unattributedNode);
+            [...ancestors, node].forEach((ancestor) => {
+                ancestor.value += unattributedBytes;
+            });
+        });
+    }
+
     if (root.children.size === 0) {
         root.label = describeUnknown('No symbol data available', 0);
     }
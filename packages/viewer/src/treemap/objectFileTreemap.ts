@@ -0,0 +1,341 @@
+import type { Analysis, CompileUnit, LinkerObjectFile, Symbol as AnalyzerSymbol } from '@analyzer';
+import type { TreemapNode, TreemapTree, TreemapSymbolFilters } from './types';
+import {
+    coerceBlockId,
+    coerceSectionId,
+    coerceSymbolCategoryId,
+    coerceWindowId,
+    isUnknownBlockId,
+    isUnknownHardwareBankId,
+    isUnknownSectionId,
+    isUnknownWindowId,
+    resolveBlockLabel,
+    resolveHardwareBankLabel,
+    resolveSectionLabel,
+    resolveSymbolLabel,
+    resolveWindowLabel,
+    symbolPassesFilters,
+    UNKNOWN_HARDWARE_BANK_ID,
+} from './filtering';
+import {
+    LOOSE_OBJECTS_ARCHIVE_LABEL,
+    UNATTRIBUTED_ARCHIVE_LABEL,
+    UNATTRIBUTED_COMPILE_UNIT_LABEL,
+    UNATTRIBUTED_OBJECT_LABEL,
+} from './constants';
+
+export type ObjectFileTreemapNodeKind = 'root' | 'archive' | 'object' | 'symbol';
+
+export interface ObjectFileTreemapRootMeta {
+    nodeKind: 'root';
+    targetId: string;
+    targetName: string;
+}
+
+export interface ObjectFileTreemapArchiveMeta {
+    nodeKind: 'archive';
+    archivePath?: string;
+    objectCount: number;
+    symbolCount: number;
+}
+
+export interface ObjectFileTreemapObjectMeta {
+    nodeKind: 'object';
+    objectFileId?: string;
+    objectPath?: string;
+    compileUnitId?: string;
+    symbolCount: number;
+}
+
+export interface ObjectFileTreemapSymbolMeta {
+    nodeKind: 'symbol';
+    symbolId: string;
+    symbolName: string;
+    symbolSize: number;
+    objectFileId?: string;
+    windowId?: string;
+    windowName?: string;
+    blockId?: string;
+    blockName?: string;
+    sectionId?: string;
+    sectionName?: string;
+    hardwareBankId?: string;
+    hardwareBankName?: string;
+}
+
+export type ObjectFileTreemapNodeMeta =
+    | ObjectFileTreemapRootMeta
+    | ObjectFileTreemapArchiveMeta
+    | ObjectFileTreemapObjectMeta
+    | ObjectFileTreemapSymbolMeta;
+export type ObjectFileTreemapNode = TreemapNode<ObjectFileTreemapNodeKind, ObjectFileTreemapNodeMeta>;
+export type ObjectFileTreemapTree = TreemapTree<ObjectFileTreemapNodeKind, ObjectFileTreemapNodeMeta>;
+
+interface AccumulatorNode {
+    id: string;
+    label: string;
+    kind: ObjectFileTreemapNodeKind;
+    value: number;
+    symbolCount: number;
+    meta: Partial<ObjectFileTreemapNodeMeta>;
+    children: Map<string, AccumulatorNode>;
+}
+
+const createAccumulator = (
+    id: string,
+    label: string,
+    kind: ObjectFileTreemapNodeKind,
+    meta: Partial<ObjectFileTreemapNodeMeta>,
+): AccumulatorNode => ({
+    id,
+    label,
+    kind,
+    value: 0,
+    symbolCount: 0,
+    meta,
+    children: new Map<string, AccumulatorNode>(),
+});
+
+const incrementNode = (node: AccumulatorNode, size: number): void => {
+    node.value += size;
+    node.symbolCount += 1;
+};
+
+const ensureChild = (
+    parent: AccumulatorNode,
+    childKey: string,
+    factory: () => AccumulatorNode,
+): AccumulatorNode => {
+    let child = parent.children.get(childKey);
+    if (!child) {
+        child = factory();
+        parent.children.set(childKey, child);
+    }
+    return child;
+};
+
+const finalizeNode = (node: AccumulatorNode): ObjectFileTreemapNode => {
+    const children = node.children.size > 0
+        ? Array.from(node.children.values()).map(finalizeNode)
+        : undefined;
+
+    const baseMeta = node.meta;
+    if (node.kind === 'archive') {
+        (baseMeta as ObjectFileTreemapArchiveMeta).symbolCount = node.symbolCount;
+        (baseMeta as ObjectFileTreemapArchiveMeta).objectCount = node.children.size;
+    } else if (node.kind === 'object') {
+        (baseMeta as ObjectFileTreemapObjectMeta).symbolCount = node.symbolCount;
+    }
+
+    return {
+        id: node.id,
+        label: node.label,
+        kind: node.kind,
+        value: node.value,
+        meta: baseMeta as ObjectFileTreemapNodeMeta,
+        children,
+    } satisfies ObjectFileTreemapNode;
+};
+
+const archiveLabel = (archivePath: string): string => archivePath.split(/[\\/]/).pop() ?? archivePath;
+
+interface SymbolGrouping {
+    archiveKey: string;
+    archiveName: string;
+    archivePath?: string;
+    objectKey: string;
+    objectName: string;
+    objectFileId?: string;
+    objectPath?: string;
+    compileUnitId?: string;
+}
+
+const groupByObjectFile = (objectFile: LinkerObjectFile | undefined): SymbolGrouping => {
+    if (!objectFile) {
+        return {
+            archiveKey: 'archive:unattributed',
+            archiveName: UNATTRIBUTED_ARCHIVE_LABEL,
+            objectKey: 'object:unattributed',
+            objectName: UNATTRIBUTED_OBJECT_LABEL,
+        };
+    }
+    return {
+        archiveKey: `archive:${objectFile.archivePath ?? ''}`,
+        archiveName: objectFile.archivePath ? archiveLabel(objectFile.archivePath) : LOOSE_OBJECTS_ARCHIVE_LABEL,
+        archivePath: objectFile.archivePath,
+        objectKey: `object:${objectFile.id}`,
+        objectName: objectFile.memberName ?? objectFile.displayName,
+        objectFileId: objectFile.id,
+        objectPath: objectFile.path,
+    };
+};
+
+/**
+ * Without a linker map, compile units from DWARF stand in for object files and their source
+ * directory stands in for the archive, which usually matches the library they were built from.
+ */
+const groupByCompileUnit = (compileUnit: CompileUnit | undefined): SymbolGrouping => {
+    if (!compileUnit) {
+        return {
+            archiveKey: 'archive:unattributed',
+            archiveName: UNATTRIBUTED_ARCHIVE_LABEL,
+            objectKey: 'object:unattributed',
+            objectName: UNATTRIBUTED_COMPILE_UNIT_LABEL,
+        };
+    }
+    const separatorIndex = Math.max(compileUnit.name.lastIndexOf('/'), compileUnit.name.lastIndexOf('\\'));
+    const directory = separatorIndex > 0 ? compileUnit.name.slice(0, separatorIndex) : compileUnit.compDir ?? '';
+    return {
+        archiveKey: `archive:${directory}`,
+        archiveName: directory ? archiveLabel(directory) : LOOSE_OBJECTS_ARCHIVE_LABEL,
+        archivePath: directory || undefined,
+        objectKey: `object:${compileUnit.id}`,
+        objectName: compileUnit.name.slice(separatorIndex + 1),
+        objectPath: compileUnit.name,
+        compileUnitId: compileUnit.id,
+    };
+};
+
+const SYMBOL_SIZE_GUARD = (size: number | undefined): number => {
+    if (!Number.isFinite(size)) {
+        return 0;
+    }
+    const asNumber = Number(size);
+    return asNumber > 0 ? asNumber : 0;
+};
+
+export const buildObjectFileTreemap = (
+    analysis: Analysis | null | undefined,
+    filters?: TreemapSymbolFilters,
+): ObjectFileTreemapTree | null => {
+    if (!analysis?.linkerMap && !analysis?.compileUnits?.length) {
+        return null;
+    }
+
+    const targetName = analysis.target?.name ?? 'Unknown target';
+    const targetId = analysis.config.targetId ?? targetName;
+
+    const objectFileById = new Map<string, LinkerObjectFile>(
+        (analysis.linkerMap?.objectFiles ?? []).map((file) => [file.id, file] as const),
+    );
+    const compileUnitById = new Map((analysis.compileUnits ?? []).map((unit) => [unit.id, unit] as const));
+    const resolveGrouping = (symbol: AnalyzerSymbol): SymbolGrouping => (analysis.linkerMap
+        ? groupByObjectFile(symbol.objectFileId ? objectFileById.get(symbol.objectFileId) : undefined)
+        : groupByCompileUnit(symbol.compileUnitId ? compileUnitById.get(symbol.compileUnitId) : undefined));
+    const windowNameById = new Map(analysis.config.addressWindows.map((window) => [window.id, window.name] as const));
+    const blockNameById = new Map(analysis.config.logicalBlocks.map((block) => [block.id, block.name] as const));
+    const sectionNameById = new Map(analysis.sections.map((section) => [section.id, section.name] as const));
+    const hardwareBankNameById = new Map<string, string>();
+    const hardwareBankIdByWindowId = new Map<string, string>();
+    analysis.config.hardwareBanks.forEach((bank) => {
+        hardwareBankNameById.set(bank.id, bank.name);
+        bank.windowIds.forEach((windowId) => {
+            if (!hardwareBankIdByWindowId.has(windowId)) {
+                hardwareBankIdByWindowId.set(windowId, bank.id);
+            }
+        });
+    });
+
+    const root = createAccumulator(
+        'object-root',
+        `${targetName} libraries and object files`,
+        'root',
+        {
+            nodeKind: 'root',
+            targetId,
+            targetName,
+        },
+    );
+
+    analysis.symbols.forEach((symbol) => {
+        const size = SYMBOL_SIZE_GUARD(symbol.size);
+        if (size <= 0) {
+            return;
+        }
+
+        const primaryLocation = symbol.primaryLocation ?? symbol.locations?.[0] ?? null;
+        const windowId = coerceWindowId(primaryLocation?.windowId ?? symbol.windowId);
+        const blockId = coerceBlockId(primaryLocation?.blockId ?? symbol.blockId);
+        const sectionId = coerceSectionId(symbol.sectionId);
+        const hardwareBankId = hardwareBankIdByWindowId.get(windowId) ?? UNKNOWN_HARDWARE_BANK_ID;
+
+        if (!symbolPassesFilters(
+            filters,
+            {
+                hardwareBankId,
+                windowId,
+                blockId,
+                sectionId,
+                symbolCategoryId: coerceSymbolCategoryId(symbol.category),
+            },
+            symbol.name ?? symbol.nameMangled ?? symbol.id,
+        )) {
+            return;
+        }
+
+        const grouping = resolveGrouping(symbol);
+        const archiveNode = ensureChild(root, grouping.archiveKey, () => createAccumulator(
+            grouping.archiveKey,
+            grouping.archiveName,
+            'archive',
+            {
+                nodeKind: 'archive',
+                archivePath: grouping.archivePath,
+                objectCount: 0,
+                symbolCount: 0,
+            },
+        ));
+
+        const objectNode = ensureChild(archiveNode, grouping.objectKey, () => createAccumulator(
+            grouping.objectKey,
+            grouping.objectName,
+            'object',
+            {
+                nodeKind: 'object',
+                objectFileId: grouping.objectFileId,
+                objectPath: grouping.objectPath,
+                compileUnitId: grouping.compileUnitId,
+                symbolCount: 0,
+            },
+        ));
+
+        incrementNode(root, size);
+        incrementNode(archiveNode, size);
+        incrementNode(objectNode, size);
+
+        const symbolLabel = resolveSymbolLabel(symbol.name, symbol.id);
+        const symbolNodeId = `symbol:${symbol.id}`;
+        const symbolNode = ensureChild(objectNode, symbolNodeId, () => createAccumulator(
+            symbolNodeId,
+            symbolLabel,
+            'symbol',
+            {
+                nodeKind: 'symbol',
+                symbolId: symbol.id,
+                symbolName: symbolLabel,
+                symbolSize: size,
+                objectFileId: grouping.objectFileId,
+                windowId: isUnknownWindowId(windowId) ? undefined : windowId,
+                windowName: isUnknownWindowId(windowId) ? undefined : resolveWindowLabel(windowId, windowNameById.get(windowId)),
+                blockId: isUnknownBlockId(blockId) ? undefined : blockId,
+                blockName: isUnknownBlockId(blockId) ? undefined : resolveBlockLabel(blockId, blockNameById.get(blockId)),
+                sectionId: isUnknownSectionId(sectionId) ? undefined : sectionId,
+                sectionName: isUnknownSectionId(sectionId)
+                    ? undefined
+                    : resolveSectionLabel(sectionId, sectionNameById.get(sectionId)),
+                hardwareBankId: isUnknownHardwareBankId(hardwareBankId) ? undefined : hardwareBankId,
+                hardwareBankName: isUnknownHardwareBankId(hardwareBankId)
+                    ? undefined
+                    : resolveHardwareBankLabel(hardwareBankId, hardwareBankNameById.get(hardwareBankId)),
+            },
+        ));
+        symbolNode.value = size;
+        symbolNode.symbolCount = 1;
+    });
+
+    if (root.children.size === 0) {
+        return null;
+    }
+
+    return finalizeNode(root);
+};
@@ -0,0 +1,203 @@
+import type { Analysis } from '@analyzer';
+import { SYMBOL_CATEGORY_LABELS } from '@analyzer/analysis/symbol-classification';
+import type { TreemapSymbolFilters } from './types';
+import { buildScopeTreemap, type ScopeTreemapNode } from './scopeTreemap';
+import {
+    coerceBlockId,
+    coerceSectionId,
+    coerceSymbolCategoryId,
+    coerceWindowId,
+    resolveBlockLabel,
+    resolveHardwareBankLabel,
+    resolveSectionLabel,
+    resolveSymbolLabel,
+    resolveWindowLabel,
+    symbolPassesFilters,
+    tokenizeSymbolQuery,
+    UNCLASSIFIED_SYMBOL_CATEGORY_ID,
+    UNKNOWN_HARDWARE_BANK_ID,
+} from './filtering';
+
+export type SymbolQueryGrouping = 'symbols' | 'scopes' | 'templates';
+
+export interface SymbolQueryRow {
+    id: string;
+    label: string;
+    sizeBytes: number;
+    symbolCount: number;
+    address?: number;
+    mangledName?: string;
+    hardwareBankName?: string;
+    windowName?: string;
+    blockName?: string;
+    sectionName?: string;
+}
+
+/** Filter values as typed by a person: ids or display names, matched case-insensitively. */
+export interface SymbolQueryFilterInput {
+    hardwareBanks?: string[];
+    windows?: string[];
+    logicalBlocks?: string[];
+    sections?: string[];
+    symbolCategories?: string[];
+    symbolQuery?: string;
+}
+
+interface NamedEntity {
+    id: string;
+    name?: string;
+}
+
+const resolveIds = (kind: string, values: string[] | undefined, entities: NamedEntity[]): ReadonlySet<string> | undefined => {
+    if (!values || values.length === 0) {
+        return undefined;
+    }
+    const ids = values.map((value) => {
+        const needle = value.toLowerCase();
+        const entity = entities.find(
+            (candidate) => candidate.id.toLowerCase() === needle || candidate.name?.toLowerCase() === needle,
+        );
+        if (!entity) {
+            const known = entities.map((candidate) => candidate.name ?? candidate.id).join(', ');
+            throw new Error(`Unknown ${kind} '${value}'. Known: ${known}.`);
+        }
+        return entity.id;
+    });
+    return new Set(ids);
+};
+
+/**
+ * Turns names into the id sets `TreemapSymbolFilters` holds, so a query typed on the command line
+ * filters exactly like the same selection made in the viewer's treemap filters.
+ */
+export const resolveSymbolQueryFilters = (analysis: Analysis, input: SymbolQueryFilterInput): TreemapSymbolFilters => {
+    const categories: NamedEntity[] = [
+        ...Object.entries(SYMBOL_CATEGORY_LABELS).map(([id, name]) => ({ id, name })),
+        { id: UNCLASSIFIED_SYMBOL_CATEGORY_ID, name: 'ordinary' },
+    ];
+    const symbolQueryTokens = tokenizeSymbolQuery(input.symbolQuery);
+
+    return {
+        hardwareBanks: resolveIds('hardware bank', input.hardwareBanks, analysis.config.hardwareBanks),
+        windows: resolveIds('address window', input.windows, analysis.config.addressWindows),
+        logicalBlocks: resolveIds('logical block', input.logicalBlocks, analysis.config.logicalBlocks),
+        sections: resolveIds('section', input.sections, analysis.sections),
+        symbolCategories: resolveIds('symbol category', input.symbolCategories, categories),
+        symbolQuery: input.symbolQuery,
+        symbolQueryTokens: symbolQueryTokens.length > 0 ? symbolQueryTokens : undefined,
+    };
+};
+
+const querySymbolRows = (analysis: Analysis, filters: TreemapSymbolFilters): SymbolQueryRow[] => {
+    const windowById = new Map(analysis.config.addressWindows.map((window) => [window.id, window] as const));
+    const blockById = new Map(analysis.config.logicalBlocks.map((block) => [block.id, block] as const));
+    const sectionById = new Map(analysis.sections.map((section) => [section.id, section] as const));
+    const hardwareBankById = new Map(analysis.config.hardwareBanks.map((bank) => [bank.id, bank] as const));
+    const hardwareBankIdByWindowId = new Map<string, string>();
+    analysis.config.hardwareBanks.forEach((bank) => {
+        bank.windowIds.forEach((windowId) => {
+            if (!hardwareBankIdByWindowId.has(windowId)) {
+                hardwareBankIdByWindowId.set(windowId, bank.id);
+            }
+        });
+    });
+
+    const rows: SymbolQueryRow[] = [];
+    analysis.symbols.forEach((symbol) => {
+        if (!(symbol.size > 0)) {
+            return;
+        }
+
+        const primaryLocation = symbol.primaryLocation ?? symbol.locations?.[0] ?? null;
+        const windowId = coerceWindowId(primaryLocation?.windowId ?? symbol.windowId);
+        const blockId = coerceBlockId(primaryLocation?.blockId ?? symbol.blockId);
+        const sectionId = coerceSectionId(symbol.sectionId);
+        const hardwareBankId = hardwareBankIdByWindowId.get(windowId) ?? UNKNOWN_HARDWARE_BANK_ID;
+        const label = resolveSymbolLabel(symbol.name, symbol.id);
+
+        if (!symbolPassesFilters(
+            filters,
+            {
+                hardwareBankId,
+                windowId,
+                blockId,
+                sectionId,
+                symbolCategoryId: coerceSymbolCategoryId(symbol.category),
+            },
+            symbol.name ?? symbol.nameMangled ?? symbol.id,
+        )) {
+            return;
+        }
+
+        rows.push({
+            id: symbol.id,
+            label,
+            sizeBytes: symbol.size,
+            symbolCount: 1,
+            address: symbol.addr,
+            mangledName: symbol.nameMangled !== symbol.name ? symbol.nameMangled : undefined,
+            hardwareBankName: resolveHardwareBankLabel(hardwareBankId, hardwareBankById.get(hardwareBankId)?.name),
+            windowName: resolveWindowLabel(windowId, windowById.get(windowId)?.name),
+            blockName: resolveBlockLabel(blockId, blockById.get(blockId)?.name),
+            sectionName: resolveSectionLabel(sectionId, sectionById.get(sectionId)?.name),
+        });
+    });
+    return rows;
+};
+
+const collectScopeRows = (node: ScopeTreemapNode, rows: SymbolQueryRow[]): void => {
+    if (node.meta?.nodeKind === 'scope') {
+        rows.push({
+            id: node.id,
+            label: node.meta.fullName,
+            sizeBytes: node.value,
+            symbolCount: node.meta.symbolCount,
+        });
+    }
+    node.children?.forEach((child) => collectScopeRows(child, rows));
+};
+
+const queryScopeRows = (analysis: Analysis, filters: TreemapSymbolFilters): SymbolQueryRow[] => {
+    const tree = buildScopeTreemap(analysis, filters);
+    const rows: SymbolQueryRow[] = [];
+    if (tree) {
+        collectScopeRows(tree, rows);
+    }
+    return rows;
+};
+
+// A template group counts only the instantiations that pass the filters.
+const queryTemplateRows = (analysis: Analysis, filters: TreemapSymbolFilters): SymbolQueryRow[] => {
+    const passingSizeById = new Map(querySymbolRows(analysis, filters).map((row) => [row.id, row.sizeBytes] as const));
+
+    return analysis.templateGroups
+        .filter((group) => group.isTemplate)
+        .map((group) => {
+            const passing = group.symbols.filter((symbol) => passingSizeById.has(symbol.symbolId));
+            return {
+                id: group.id,
+                label: group.displayName,
+                sizeBytes: passing.reduce((total, symbol) => total + (passingSizeById.get(symbol.symbolId) ?? 0), 0),
+                symbolCount: passing.length,
+            };
+        })
+        .filter((row) => row.symbolCount > 0);
+};
+
+/** Lists the largest symbols, scopes or template groups that pass `filters`, biggest first. */
+export const querySymbolSizes = (
+    analysis: Analysis,
+    filters: TreemapSymbolFilters,
+    grouping: SymbolQueryGrouping,
+    limit: number,
+): SymbolQueryRow[] => {
+    const rows = grouping === 'scopes'
+        ? queryScopeRows(analysis, filters)
+        : grouping === 'templates'
+            ? queryTemplateRows(analysis, filters)
+            : querySymbolRows(analysis, filters);
+
+    return rows
+        .sort((a, b) => b.sizeBytes - a.sizeBytes || a.label.localeCompare(b.label))
+        .slice(0, limit);
+};
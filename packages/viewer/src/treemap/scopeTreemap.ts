@@ -1,6 +1,8 @@
 import type {
     AddressWindow,
     Analysis,
+    DemangledName,
+    DemangledNameSegment,
     HardwareBank,
     LogicalBlock,
     Section,
@@ -10,6 +12,7 @@ import type { TreemapNode, TreemapTree, TreemapSymbolFilters } from './types';
 import {
     coerceBlockId,
     coerceSectionId,
+    coerceSymbolCategoryId,
     coerceWindowId,
     isUnknownBlockId,
     isUnknownHardwareBankId,
@@ -202,10 +205,35 @@ const splitQualifiedName = (input: string): string[] => {
     return segments;
 };
 
+const formatDemangledSegment = (segment: DemangledNameSegment): string => {
+    if (!segment.templateArgs) {
+        return segment.name;
+    }
+    const args = segment.templateArgs.join(', ');
+    return `${segment.name}<${args}${args.endsWith('>') ? ' ' : ''}>`;
+};
+
+// The demangle tree already separates scopes; only the leaf carries the signature and any special prefix.
+const segmentsFromDemangledName = (demangled: DemangledName): string[] => {
+    const segments = demangled.path.map(formatDemangledSegment);
+    const leafIndex = segments.length - 1;
+    if (leafIndex < 0) {
+        return segments;
+    }
+
+    const signature = demangled.parameters ? `(${demangled.parameters.join(', ')})${demangled.qualifiers ?? ''}` : '';
+    const special = demangled.special ? `${demangled.special} ` : '';
+    segments[leafIndex] = `${special}${segments[leafIndex]}${signature}`;
+    return segments;
+};
+
 const normalizeScopeSegments = (symbol: Symbol): string[] => {
     if (symbol.logicalPath && symbol.logicalPath.length > 0) {
         return symbol.logicalPath.filter((segment) => segment.length > 0);
     }
+    if (symbol.demangled) {
+        return segmentsFromDemangledName(symbol.demangled);
+    }
 
     const name = symbol.name ?? symbol.nameMangled ?? symbol.id;
     return splitQualifiedName(name);
@@ -286,6 +314,7 @@ export const buildScopeTreemap = (
                 windowId,
                 blockId,
                 sectionId,
+                symbolCategoryId: coerceSymbolCategoryId(symbol.category),
             },
             symbol.name ?? symbol.nameMangled ?? symbol.id,
         )) {
@@ -14,6 +14,7 @@ export interface TreemapSymbolFilters {
     windows?: ReadonlySet<string>;
     logicalBlocks?: ReadonlySet<string>;
     sections?: ReadonlySet<string>;
+    symbolCategories?: ReadonlySet<string>;
     symbolQuery?: string;
     symbolQueryTokens?: string[];
 }